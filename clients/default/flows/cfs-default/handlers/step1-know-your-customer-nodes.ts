@@ -26,6 +26,7 @@ import {
   getSubIndustrySuggestions,
   isIndustryVague,
   getModel,
+  isModelAvailable,
 } from "../../../../../src/langgraph/infra.js";
 import {
   isAffirmativeAnswer,
@@ -352,7 +353,7 @@ export async function nodeKnowYourCustomerEcho(state: CfsState): Promise<Partial
       }),
     };
   }
-  if (!process.env.OPENAI_API_KEY) {
+  if (!isModelAvailable("knowYourCustomer")) {
     return {
       ...outcomeUpdate,
       ...pushAI(mergedState, fallback),
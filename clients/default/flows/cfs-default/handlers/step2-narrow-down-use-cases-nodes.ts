@@ -11,6 +11,8 @@ import {
   retrieveUseCaseOptions,
   retrieveUseCaseQuestionBank,
   getModel,
+  isModelAvailable,
+  replaceItems,
 } from "../../../../../src/langgraph/infra.js";
 import {
   parseCompositeQuestions,
@@ -49,7 +51,7 @@ export async function nodeDetermineUseCases(state: CfsState): Promise<Partial<Cf
   }
 
   let selections: Array<{ name: string; rank_score: number; engineering_insight: string }> = [];
-  if (process.env.OPENAI_API_KEY) {
+  if (isModelAvailable("useCaseQuestions")) {
     const model = getModel("useCaseQuestions");
     const { system, user } = buildUseCaseSelectionPrompt({
       personaGroup,
@@ -154,7 +156,7 @@ export async function nodeDetermineUseCaseQuestions(state: CfsState): Promise<Pa
       use_case_context: {
         ...state.use_case_context,
         discovery_question_bank: questionBank,
-        discovery_questions: mergeDiscoveryQuestions(state.use_case_context.discovery_questions, normalizeDiscoveryQuestions(fallback)),
+        discovery_questions: replaceItems(mergeDiscoveryQuestions(state.use_case_context.discovery_questions, normalizeDiscoveryQuestions(fallback))),
       },
       ...patchSessionContext(state, {
         reason_trace: [...state.session_context.reason_trace, "determine_use_case_questions:override"],
@@ -165,16 +167,16 @@ export async function nodeDetermineUseCaseQuestions(state: CfsState): Promise<Pa
     };
   }
 
-  if (!process.env.OPENAI_API_KEY || questionBank.length === 0) {
+  if (!isModelAvailable("useCaseQuestions") || questionBank.length === 0) {
     return {
       ...vectorContextUpdate,
       use_case_context: {
         ...state.use_case_context,
         discovery_question_bank: questionBank,
-        discovery_questions: mergeDiscoveryQuestions(
+        discovery_questions: replaceItems(mergeDiscoveryQuestions(
           state.use_case_context.discovery_questions,
           normalizeDiscoveryQuestions(questionBank.slice(0, 3))
-        ),
+        )),
       },
       ...patchSessionContext(state, {
         reason_trace: [...state.session_context.reason_trace, "determine_use_case_questions:fallback_bank"],
@@ -206,7 +208,7 @@ export async function nodeDetermineUseCaseQuestions(state: CfsState): Promise<Pa
       use_case_context: {
         ...state.use_case_context,
         discovery_question_bank: questionBank,
-        discovery_questions: mergeDiscoveryQuestions(state.use_case_context.discovery_questions, normalizeDiscoveryQuestions(composite)),
+        discovery_questions: replaceItems(mergeDiscoveryQuestions(state.use_case_context.discovery_questions, normalizeDiscoveryQuestions(composite))),
       },
       ...patchSessionContext(state, {
         reason_trace: [...state.session_context.reason_trace, "determine_use_case_questions:ai_ok"],
@@ -218,10 +220,10 @@ export async function nodeDetermineUseCaseQuestions(state: CfsState): Promise<Pa
     use_case_context: {
       ...state.use_case_context,
       discovery_question_bank: questionBank,
-      discovery_questions: mergeDiscoveryQuestions(
+      discovery_questions: replaceItems(mergeDiscoveryQuestions(
         state.use_case_context.discovery_questions,
         normalizeDiscoveryQuestions(questionBank.slice(0, 3))
-      ),
+      )),
     },
     ...patchSessionContext(state, {
       reason_trace: [...state.session_context.reason_trace, "determine_use_case_questions:ai_invalid"],
@@ -12,6 +12,7 @@ import {
   READOUT_DOCUMENT_TYPES,
   retrieveReadoutDocuments,
   getModel,
+  isModelAvailable,
   parseJsonObject,
 } from "../../../../../src/langgraph/infra.js";
 import {
@@ -96,7 +97,7 @@ export async function nodeBuildReadout(state: CfsState): Promise<Partial<CfsStat
   const allowedEvidenceByDocType = Object.fromEntries(
     READOUT_DOCUMENT_TYPES.map((docType) => [docType, retrieval.snippetsByType[docType] ?? []])
   );
-  const model = process.env.OPENAI_API_KEY ? getModel("readout") : null;
+  const model = isModelAvailable("readout") ? getModel("readout") : null;
 
   const readinessByPillar: Record<string, Record<string, string>> = {};
   for (const pillarName of scopedPillars) {
@@ -9,12 +9,16 @@ declare global {
 process.env.TENANT_ID = process.env.TENANT_ID ?? "default";
 process.env.APP_ID = process.env.APP_ID ?? "cfs-chatbot";
 
+class MockChatOpenAI {
+  constructor(readonly fields?: Record<string, unknown>) {}
+  async invoke() {
+    return { content: globalThis.__chatOpenAIMockContent ?? "" };
+  }
+}
+
 jest.unstable_mockModule("@langchain/openai", () => ({
-  ChatOpenAI: class {
-    async invoke() {
-      return { content: globalThis.__chatOpenAIMockContent ?? "" };
-    }
-  },
+  ChatOpenAI: MockChatOpenAI,
+  AzureChatOpenAI: class extends MockChatOpenAI {},
   OpenAIEmbeddings: class {
     constructor() {}
     async embedQuery() {
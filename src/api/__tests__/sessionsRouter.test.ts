@@ -0,0 +1,255 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+
+describe("/v1/sessions", () => {
+  let server: Server;
+  let baseUrl: string;
+  let store: import("../../sessions/index.js").SessionStore;
+  let graphApp: import("../../langgraph/graph.js").CompiledGraph;
+
+  beforeEach(async () => {
+    const express = (await import("express")).default;
+    const { buildGraphFromSchema, createCheckpointer } = await import("../../langgraph/graph.js");
+    const { InMemorySessionStore } = await import("../../sessions/index.js");
+    const { createSessionsRouter } = await import("../sessions-router.js");
+    const { getDefaultFlowPath } = await import("../../config/appConfig.js");
+
+    graphApp = buildGraphFromSchema(getDefaultFlowPath(), { checkpointer: createCheckpointer() });
+    store = new InMemorySessionStore();
+    const app = express();
+    app.use(express.json());
+    app.use(
+      "/v1/sessions",
+      createSessionsRouter({ store, app: { tenantId: "default", appId: "cfs", flowId: "cfs-default", graphApp } })
+    );
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/sessions`;
+  });
+
+  afterEach(async () => {
+    store.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (path: string, body?: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body ?? {}),
+    });
+
+  it("creates a session for the hosted app and returns its summary", async () => {
+    const { PLATFORM_API_VERSION } = await import("../../langgraph/infra.js");
+    const res = await post("", { tenantId: "default", sessionId: "s-1" });
+    expect(res.status).toBe(201);
+    expect(res.headers.get("x-platform-api-version")).toBe(PLATFORM_API_VERSION);
+    const body = await res.json();
+    expect(body).toMatchObject({
+      apiVersion: PLATFORM_API_VERSION,
+      sessionId: "s-1",
+      tenantId: "default",
+      appId: "cfs",
+      flowId: "cfs-default",
+      messageCount: 0,
+      started: false,
+    });
+    expect(body.flowProgress.steps.length).toBeGreaterThan(0);
+
+    expect((await post("", { sessionId: "s-1" })).status).toBe(409);
+  });
+
+  it("rejects unknown fields and apps that are not hosted", async () => {
+    const invalid = await post("", { tenant: "x" });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).issues).toBeDefined();
+    expect((await post("", { appId: "other" })).status).toBe(404);
+  });
+
+  it("returns the transcript, resets and deletes a session", async () => {
+    const { runTurn } = await import("../../langgraph/graph.js");
+    await post("", { sessionId: "s-2" });
+    const record = await store.get("s-2");
+    const afterInit = await runTurn(graphApp, record!.state, undefined);
+    await store.set("s-2", await runTurn(graphApp, afterInit, "Data governance"));
+
+    const transcript = await (await fetch(`${baseUrl}/s-2/transcript`)).json();
+    expect(transcript.messages.map((m: { role: string }) => m.role)).toContain("user");
+    expect(transcript.messages.find((m: { role: string }) => m.role === "user").content).toBe("Data governance");
+
+    const summary = await (await fetch(`${baseUrl}/s-2`)).json();
+    expect(summary.lastQuestionKey).toBe("CONFIRM_START");
+    expect((await fetch(`${baseUrl}/s-2/checkpoints`)).status).toBe(200);
+
+    const reset = await (await post("/s-2/reset")).json();
+    expect(reset.messageCount).toBe(0);
+    expect(reset.lastQuestionKey).toBeNull();
+    const afterReset = await fetch(`${baseUrl}/s-2/checkpoints`);
+    expect(afterReset.status).toBe(200);
+    expect((await afterReset.json()).checkpoints).toEqual([]);
+
+    expect((await fetch(`${baseUrl}/s-2`, { method: "DELETE" })).status).toBe(204);
+    expect((await fetch(`${baseUrl}/s-2`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/s-2`, { method: "DELETE" })).status).toBe(404);
+  });
+
+  it("answers 500 with an error body when a handler throws", async () => {
+    const { jest } = await import("@jest/globals");
+    const { PLATFORM_API_VERSION } = await import("../../langgraph/infra.js");
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(store, "get").mockRejectedValue(new Error("corrupt session file"));
+
+    const res = await fetch(`${baseUrl}/s-9/transcript`);
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ apiVersion: PLATFORM_API_VERSION, error: "Error processing request." });
+    jest.restoreAllMocks();
+  });
+
+  it("reports LLM usage grouped by run name, node and model", async () => {
+    await post("", { sessionId: "s-3" });
+    const record = await store.get("s-3");
+    const entry = (run_name: string, node: string | null, total: number) => ({
+      run_name,
+      node,
+      model: "gpt-4o",
+      prompt_tokens: total - 10,
+      completion_tokens: 10,
+      total_tokens: total,
+      latency_ms: 100,
+      cost_usd: 0.001,
+      timestamp: Date.now(),
+    });
+    const state = record!.state;
+    await store.set("s-3", {
+      ...state,
+      session_context: {
+        ...state.session_context,
+        llm_usage_log: [entry("reviewResponse", null, 50), entry("sanitizeUserInput", "step1", 30), entry("reviewResponse", null, 20)],
+      },
+    });
+
+    const usage = await (await fetch(`${baseUrl}/s-3/usage`)).json();
+    expect(usage.totals).toMatchObject({ calls: 3, totalTokens: 100, completionTokens: 30 });
+    expect(usage.byRunName.reviewResponse).toMatchObject({ calls: 2, totalTokens: 70 });
+    expect(usage.byNode).toHaveProperty("step1");
+    expect(usage.byModel["gpt-4o"].calls).toBe(3);
+    expect(usage.budget).toBeNull();
+    expect((await fetch(`${baseUrl}/missing/usage`)).status).toBe(404);
+  });
+
+  it("exports the transcript as JSON, Markdown and HTML with optional name redaction", async () => {
+    const { AIMessage, HumanMessage } = await import("@langchain/core/messages");
+    await post("", { sessionId: "s-4" });
+    const state = (await store.get("s-4"))!.state;
+    await store.set("s-4", {
+      ...state,
+      messages: [new AIMessage("Hi! What's your name?"), new HumanMessage("I'm Dana <CTO>"), new AIMessage("Thanks, dana.")],
+      user_context: { ...state.user_context, first_name: "Dana", persona_role: "CTO", industry: "Healthcare" },
+      use_case_context: {
+        ...state.use_case_context,
+        pillars: [{ name: "Data", confidence: 0.8 }],
+        selected_use_cases: ["Dana's churn dashboard"],
+        discovery_questions: [
+          { question: "Who owns the data?", response: "Dana does", risk: "No owner", risk_domain: "governance" },
+          { question: "Dana, who signs off?", response: "Legal | then\nFinance", risk: "Only Dana can approve", risk_domain: "ownership" },
+        ],
+      },
+      relationship_context: {
+        ...state.relationship_context,
+        signal_history: [
+          { turn_index: 1, timestamp: 1, engagement: 0.7, sentiment: 0.6, trust: 0.5, intent: 0.4, confidence: 0.9, source: "heuristic" },
+        ],
+      },
+    });
+
+    const json = await (await fetch(`${baseUrl}/s-4/export`)).json();
+    expect(json).toMatchObject({
+      sessionId: "s-4",
+      redacted: false,
+      profile: { firstName: "Dana", role: "CTO", industry: "Healthcare" },
+      useCases: { pillars: ["Data"], selected: ["Dana's churn dashboard"] },
+      discovery: [{ question: "Who owns the data?", risk: "No owner", riskDomain: "governance" }, { question: "Dana, who signs off?" }],
+      signals: [{ turnIndex: 1, engagement: 0.7 }],
+    });
+    expect(json.messages).toHaveLength(3);
+
+    const redacted = await (await fetch(`${baseUrl}/s-4/export?redact=true`)).json();
+    expect(redacted.profile.firstName).toBe("[name]");
+    expect(redacted.discovery[0].response).toBe("[name] does");
+    expect(redacted.discovery[1]).toMatchObject({ question: "[name], who signs off?", risk: "Only [name] can approve" });
+    expect(redacted.useCases.selected).toEqual(["[name]'s churn dashboard"]);
+    expect(redacted.messages.map((m: { content: string }) => m.content).join(" ")).not.toMatch(/dana/i);
+
+    const md = await fetch(`${baseUrl}/s-4/export?format=markdown`);
+    expect(md.headers.get("content-type")).toContain("text/markdown");
+    expect(md.headers.get("content-disposition")).toBe('attachment; filename="transcript-s-4.md"');
+    const markdown = await md.text();
+    expect(markdown).toContain("| Role | CTO |");
+    expect(markdown).toContain("**User:**");
+    expect(markdown).toContain("  - Response: Legal \\| then Finance\n");
+
+    const html = await (await fetch(`${baseUrl}/s-4/export?format=html&redact=true`)).text();
+    expect(html).toContain("<style>");
+    expect(html).toContain("I&#39;m [name] &lt;CTO&gt;");
+    expect(html).not.toMatch(/<link|<script/);
+
+    expect((await fetch(`${baseUrl}/s-4/export?format=pdf`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/missing/export`)).status).toBe(404);
+  });
+
+  it("returns a per-session signal timeline and a report across sessions", async () => {
+    const turn = (turn_index: number, timestamp: number, engagement: number, step: string, question_key: string) => ({
+      turn_index,
+      timestamp,
+      engagement,
+      sentiment: 0.5,
+      trust: 0.5,
+      intent: 0.5,
+      confidence: 0.9,
+      source: "heuristic",
+      step,
+      question_key,
+    });
+    for (const [id, engagements] of [["s-5", [0.8, 0.4]], ["s-6", [0.6]]] as const) {
+      await post("", { sessionId: id });
+      const state = (await store.get(id))!.state;
+      await store.set(id, {
+        ...state,
+        session_context: { ...state.session_context, started: true, awaiting_user: true, step: "STEP3_PERFORM_DISCOVERY", last_question_key: "DQ" },
+        relationship_context: {
+          ...state.relationship_context,
+          turn_count: engagements.length,
+          signal_history: engagements.map((e, i) =>
+            turn(i, 1000 * (i + 1), e, i === 0 ? "STEP1_KNOW_YOUR_CUSTOMER" : "STEP3_PERFORM_DISCOVERY", i === 0 ? "S1_NAME" : "DQ")
+          ),
+          signal_events: id === "s-5" ? [{ type: "sentiment_recovery", timestamp: 2001, details: {} }] : [],
+        },
+      });
+    }
+
+    const timeline = await (await fetch(`${baseUrl}/s-5/signals`)).json();
+    expect(timeline.current.turnCount).toBe(2);
+    expect(timeline.turns).toEqual([
+      expect.objectContaining({ turnIndex: 0, step: "STEP1_KNOW_YOUR_CUSTOMER", questionKey: "S1_NAME", engagement: 0.8, overall: 0.59, events: [] }),
+      expect.objectContaining({ turnIndex: 1, questionKey: "DQ", events: [{ type: "sentiment_recovery", details: {} }] }),
+    ]);
+
+    const csv = await fetch(`${baseUrl}/s-5/signals?format=csv`);
+    expect(csv.headers.get("content-type")).toContain("text/csv");
+    expect((await csv.text()).split("\n")[2]).toBe(
+      "1,1970-01-01T00:00:02.000Z,STEP3_PERFORM_DISCOVERY,DQ,0.4,0.5,0.5,0.5,0.47,sentiment_recovery"
+    );
+
+    const report = await (await fetch(`${baseUrl}/analytics/signals?idleMinutes=0`)).json();
+    expect(report).toMatchObject({
+      sessions: 2,
+      overall: { turns: 3, engagement: 0.6 },
+      byQuestionKey: { S1_NAME: { turns: 2, engagement: 0.7 }, DQ: { turns: 1, engagement: 0.4 } },
+      events: { sentiment_recovery: 1 },
+      dropOffs: [{ step: "STEP3_PERFORM_DISCOVERY", questionKey: "DQ", sessions: 2 }],
+    });
+    expect(Object.keys(report.byStep)).toEqual(["STEP1_KNOW_YOUR_CUSTOMER", "STEP3_PERFORM_DISCOVERY"]);
+    expect((await (await fetch(`${baseUrl}/analytics/signals`)).json()).dropOffs).toEqual([]);
+    expect((await fetch(`${baseUrl}/analytics/signals?idleMinutes=-1`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/missing/signals`)).status).toBe(404);
+  });
+});
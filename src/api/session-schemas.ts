@@ -0,0 +1,220 @@
+import * as z from "zod";
+
+/** POST /v1/sessions body. Omitted ids default to the app this server hosts. */
+export const CreateSessionRequestSchema = z
+  .object({
+    tenantId: z.string().min(1).optional(),
+    appId: z.string().min(1).optional(),
+    flowId: z.string().min(1).optional(),
+    sessionId: z.string().min(1).max(200).optional(),
+  })
+  .strict();
+
+export type CreateSessionRequest = z.infer<typeof CreateSessionRequestSchema>;
+
+export const FlowProgressSchema = z.object({
+  flowTitle: z.string(),
+  flowDescription: z.string(),
+  steps: z.array(
+    z.object({
+      key: z.string(),
+      label: z.string(),
+      order: z.number(),
+      status: z.enum(["completed", "in_progress", "upcoming"]),
+      countable: z.boolean(),
+      totalQuestions: z.number(),
+      answeredQuestions: z.number(),
+      percentage: z.number(),
+    })
+  ),
+});
+
+const ApiEnvelopeSchema = z.object({
+  apiVersion: z.string(),
+});
+
+export const SessionSummarySchema = ApiEnvelopeSchema.extend({
+  sessionId: z.string(),
+  tenantId: z.string().nullable(),
+  appId: z.string(),
+  flowId: z.string().nullable(),
+  graphId: z.string(),
+  /** Flow version the session runs on; null if it predates version stamping. */
+  graphVersion: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  step: z.string(),
+  lastQuestionKey: z.string().nullable(),
+  awaitingUser: z.boolean(),
+  started: z.boolean(),
+  messageCount: z.number().int(),
+  flowProgress: FlowProgressSchema,
+});
+
+export type SessionSummary = z.infer<typeof SessionSummarySchema>;
+
+export const TranscriptMessageSchema = z.object({
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.string(),
+  messageType: z.string().nullable(),
+});
+
+export type TranscriptMessage = z.infer<typeof TranscriptMessageSchema>;
+
+export const TranscriptSchema = ApiEnvelopeSchema.extend({
+  sessionId: z.string(),
+  messages: z.array(TranscriptMessageSchema),
+});
+
+export type Transcript = z.infer<typeof TranscriptSchema>;
+
+export const TranscriptExportFormatSchema = z.enum(["json", "markdown", "html"]);
+
+export type TranscriptExportFormat = z.infer<typeof TranscriptExportFormatSchema>;
+
+/** GET /v1/sessions/:sessionId/export query. `redact=true` masks the captured first name. */
+export const TranscriptExportQuerySchema = z.object({
+  format: TranscriptExportFormatSchema.default("json"),
+  redact: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
+});
+
+export const TranscriptExportSchema = ApiEnvelopeSchema.extend({
+  sessionId: z.string(),
+  tenantId: z.string().nullable(),
+  graphId: z.string(),
+  exportedAt: z.string(),
+  redacted: z.boolean(),
+  profile: z.object({
+    firstName: z.string().nullable(),
+    role: z.string().nullable(),
+    industry: z.string().nullable(),
+    goal: z.string().nullable(),
+    timeframe: z.string().nullable(),
+    personaGroup: z.string().nullable(),
+    outcome: z.string().nullable(),
+  }),
+  useCases: z.object({
+    objective: z.string().nullable(),
+    pillars: z.array(z.string()),
+    selected: z.array(z.string()),
+  }),
+  discovery: z.array(
+    z.object({
+      question: z.string(),
+      response: z.string().nullable(),
+      risk: z.string().nullable(),
+      riskDomain: z.string().nullable(),
+    })
+  ),
+  signals: z.array(
+    z.object({
+      turnIndex: z.number().int(),
+      engagement: z.number(),
+      sentiment: z.number(),
+      trust: z.number(),
+      intent: z.number(),
+    })
+  ),
+  messages: z.array(TranscriptMessageSchema),
+});
+
+export type TranscriptExport = z.infer<typeof TranscriptExportSchema>;
+
+export const UsageTotalsSchema = z.object({
+  calls: z.number().int(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  costUsd: z.number(),
+  latencyMs: z.number(),
+});
+
+/** GET /v1/sessions/:sessionId/usage — LLM tokens, latency and estimated cost. */
+export const SessionUsageSchema = ApiEnvelopeSchema.extend({
+  sessionId: z.string(),
+  totals: UsageTotalsSchema,
+  byRunName: z.record(z.string(), UsageTotalsSchema),
+  byNode: z.record(z.string(), UsageTotalsSchema),
+  byModel: z.record(z.string(), UsageTotalsSchema),
+  budget: z
+    .object({
+      maxTokensPerSession: z.number().optional(),
+      maxCostUsdPerSession: z.number().optional(),
+      exceeded: z.boolean(),
+    })
+    .nullable(),
+});
+
+export type SessionUsage = z.infer<typeof SessionUsageSchema>;
+
+const SignalScoresSchema = z.object({
+  engagement: z.number(),
+  sentiment: z.number(),
+  trust: z.number(),
+  intent: z.number(),
+  /** COMPOSITE_WEIGHTS blend of the four dimensions. */
+  overall: z.number(),
+});
+
+export const SignalTimelineTurnSchema = SignalScoresSchema.extend({
+  turnIndex: z.number().int(),
+  timestamp: z.string(),
+  step: z.string().nullable(),
+  questionKey: z.string().nullable(),
+  /** Raw scores of the flow's custom signal dimensions. */
+  custom: z.record(z.string(), z.number()),
+  events: z.array(z.object({ type: z.string(), details: z.record(z.string(), z.unknown()) })),
+});
+
+export type SignalTimelineTurn = z.infer<typeof SignalTimelineTurnSchema>;
+
+/** GET /v1/sessions/:sessionId/signals — per-turn scores with the events detected on each turn. */
+export const SignalTimelineSchema = ApiEnvelopeSchema.extend({
+  sessionId: z.string(),
+  graphId: z.string(),
+  /** Smoothed scores after the latest turn (relationship_context). */
+  current: SignalScoresSchema.extend({ turnCount: z.number().int() }),
+  turns: z.array(SignalTimelineTurnSchema),
+});
+
+export type SignalTimeline = z.infer<typeof SignalTimelineSchema>;
+
+export const SignalTimelineQuerySchema = z.object({
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+export const SignalAverageSchema = SignalScoresSchema.extend({ turns: z.number().int() });
+
+export type SignalAverage = z.infer<typeof SignalAverageSchema>;
+
+/** GET /v1/sessions/analytics/signals query. Sessions idle this long while awaiting an answer count as drop-offs. */
+export const SignalReportQuerySchema = z.object({
+  idleMinutes: z.coerce.number().int().min(0).default(30),
+});
+
+/** GET /v1/sessions/analytics/signals — signal averages and drop-off points across stored sessions. */
+export const SignalReportSchema = ApiEnvelopeSchema.extend({
+  generatedAt: z.string(),
+  sessions: z.number().int(),
+  overall: SignalAverageSchema,
+  byStep: z.record(z.string(), SignalAverageSchema),
+  byQuestionKey: z.record(z.string(), SignalAverageSchema),
+  /** Detected signal events by type. */
+  events: z.record(z.string(), z.number().int()),
+  dropOffs: z.array(
+    z.object({
+      step: z.string(),
+      questionKey: z.string().nullable(),
+      sessions: z.number().int(),
+    })
+  ),
+});
+
+export type SignalReport = z.infer<typeof SignalReportSchema>;
+
+export const ErrorResponseSchema = ApiEnvelopeSchema.extend({
+  error: z.string(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
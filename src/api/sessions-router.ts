@@ -0,0 +1,203 @@
+import crypto from "node:crypto";
+import { Router, type Request, type Response } from "express";
+import type { ZodError } from "zod";
+import { PLATFORM_API_VERSION, computeFlowProgress } from "../langgraph/infra.js";
+import { deleteThread, getThreadHistory } from "../langgraph/graph.js";
+import { clearPendingSignal, pendingSignalKey } from "../langgraph/core/agents/signal-store.js";
+import { groupUsage, isOverBudget, summarizeUsage } from "../langgraph/core/usage/index.js";
+import type { SessionRecord, SessionStore } from "../sessions/index.js";
+import { createSessionState, sessionNamespace, type HostedApp } from "../hosting/hosted-apps.js";
+import {
+  CreateSessionRequestSchema,
+  ErrorResponseSchema,
+  SessionSummarySchema,
+  SessionUsageSchema,
+  SignalReportQuerySchema,
+  SignalTimelineQuerySchema,
+  TranscriptExportQuerySchema,
+  TranscriptSchema,
+  type SessionSummary,
+} from "./session-schemas.js";
+import { buildSignalReport, buildSignalTimeline, renderSignalTimelineCsv } from "./signal-analytics.js";
+import { buildTranscript } from "./transcript.js";
+import { buildTranscriptExport } from "./transcript-export.js";
+import { renderTranscriptHtml, renderTranscriptMarkdown } from "./transcript-render.js";
+
+type SessionsApp = Pick<HostedApp, "tenantId" | "appId" | "flowId" | "graphApp"> & Partial<Pick<HostedApp, "llmBudget">>;
+
+export type SessionsRouterDeps = {
+  store: SessionStore;
+  app: SessionsApp;
+};
+
+function sendError(res: Response, status: number, error: string, zodError?: ZodError) {
+  const issues = zodError?.issues.map((i) => ({ path: i.path.join("."), message: i.message }));
+  return res.status(status).json(ErrorResponseSchema.parse({ apiVersion: PLATFORM_API_VERSION, error, issues }));
+}
+
+/**
+ * Express 4 does not pass rejected handler promises to error middleware; turn
+ * them into a 500 instead of leaving the request hanging.
+ */
+function asyncHandler(handler: (req: Request, res: Response) => Promise<unknown>) {
+  return (req: Request, res: Response) => {
+    handler(req, res).catch((error: unknown) => {
+      console.error("Sessions API error:", error);
+      if (res.headersSent) return res.end();
+      sendError(res, 500, "Error processing request.");
+    });
+  };
+}
+
+function toSummary(record: SessionRecord, app: SessionsApp): SessionSummary {
+  const ctx = record.state.session_context;
+  return SessionSummarySchema.parse({
+    apiVersion: PLATFORM_API_VERSION,
+    sessionId: record.sessionId,
+    tenantId: ctx.tenant_id,
+    appId: app.appId,
+    flowId: app.flowId,
+    graphId: ctx.graph_id,
+    graphVersion: ctx.graph_version,
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString(),
+    step: ctx.step,
+    lastQuestionKey: ctx.last_question_key,
+    awaitingUser: ctx.awaiting_user,
+    started: ctx.started,
+    messageCount: record.state.messages.length,
+    flowProgress: computeFlowProgress(record.state),
+  });
+}
+
+/**
+ * Versioned session routes, mounted at `/v1/sessions`. Every response carries
+ * `apiVersion` and the `X-Platform-Api-Version` header.
+ */
+export function createSessionsRouter({ store, app }: SessionsRouterDeps): Router {
+  const router = Router();
+
+  router.use((_req, res, next) => {
+    res.setHeader("X-Platform-Api-Version", PLATFORM_API_VERSION);
+    next();
+  });
+
+  router.post("/", asyncHandler(async (req: Request, res: Response) => {
+    const parsed = CreateSessionRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return sendError(res, 400, "Invalid request body.", parsed.error);
+    const { tenantId, appId, flowId, sessionId } = parsed.data;
+    if (
+      (tenantId && tenantId !== app.tenantId) ||
+      (appId && appId !== app.appId) ||
+      (flowId && flowId !== app.flowId)
+    ) {
+      return sendError(res, 404, "Requested tenant/app/flow is not hosted by this server.");
+    }
+
+    const id = sessionId ?? crypto.randomUUID();
+    if (await store.get(id)) return sendError(res, 409, `Session "${id}" already exists.`);
+    const record = await store.set(id, createSessionState(app, id));
+    return res.status(201).json(toSummary(record, app));
+  }));
+
+  // Registered before /:sessionId routes so "analytics" is never read as a session id.
+  router.get("/analytics/signals", asyncHandler(async (req: Request, res: Response) => {
+    const query = SignalReportQuerySchema.safeParse(req.query);
+    if (!query.success) return sendError(res, 400, "Invalid report query.", query.error);
+    return res.json(buildSignalReport(await store.list(), { idleMs: query.data.idleMinutes * 60_000 }));
+  }));
+
+  router.get("/:sessionId", asyncHandler(async (req: Request, res: Response) => {
+    const record = await store.get(req.params.sessionId);
+    if (!record) return sendError(res, 404, "Session not found.");
+    return res.json(toSummary(record, app));
+  }));
+
+  router.post("/:sessionId/reset", asyncHandler(async (req: Request, res: Response) => {
+    const { sessionId } = req.params;
+    if (!(await store.get(sessionId))) return sendError(res, 404, "Session not found.");
+    clearPendingSignal(pendingSignalKey(sessionNamespace(app), sessionId));
+    await deleteThread(app.graphApp, sessionId);
+    const record = await store.set(sessionId, createSessionState(app, sessionId));
+    return res.json(toSummary(record, app));
+  }));
+
+  router.delete("/:sessionId", asyncHandler(async (req: Request, res: Response) => {
+    const { sessionId } = req.params;
+    const removed = await store.delete(sessionId);
+    clearPendingSignal(pendingSignalKey(sessionNamespace(app), sessionId));
+    await deleteThread(app.graphApp, sessionId);
+    if (!removed) return sendError(res, 404, "Session not found.");
+    return res.status(204).end();
+  }));
+
+  router.get("/:sessionId/transcript", asyncHandler(async (req: Request, res: Response) => {
+    const record = await store.get(req.params.sessionId);
+    if (!record) return sendError(res, 404, "Session not found.");
+    return res.json(
+      TranscriptSchema.parse({
+        apiVersion: PLATFORM_API_VERSION,
+        sessionId: record.sessionId,
+        messages: buildTranscript(record.state),
+      })
+    );
+  }));
+
+  router.get("/:sessionId/export", asyncHandler(async (req: Request, res: Response) => {
+    const query = TranscriptExportQuerySchema.safeParse(req.query);
+    if (!query.success) return sendError(res, 400, "Invalid export query.", query.error);
+    const record = await store.get(req.params.sessionId);
+    if (!record) return sendError(res, 404, "Session not found.");
+
+    const doc = buildTranscriptExport(record.state, { redactNames: query.data.redact });
+    if (query.data.format === "json") return res.json(doc);
+    const [body, type, ext] =
+      query.data.format === "markdown"
+        ? [renderTranscriptMarkdown(doc), "text/markdown", "md"]
+        : [renderTranscriptHtml(doc), "text/html", "html"];
+    res.setHeader("Content-Type", `${type}; charset=utf-8`);
+    res.setHeader("Content-Disposition", `attachment; filename="transcript-${encodeURIComponent(record.sessionId)}.${ext}"`);
+    return res.send(body);
+  }));
+
+  router.get("/:sessionId/signals", asyncHandler(async (req: Request, res: Response) => {
+    const query = SignalTimelineQuerySchema.safeParse(req.query);
+    if (!query.success) return sendError(res, 400, "Invalid signals query.", query.error);
+    const record = await store.get(req.params.sessionId);
+    if (!record) return sendError(res, 404, "Session not found.");
+
+    const timeline = buildSignalTimeline(record.state);
+    if (query.data.format === "json") return res.json(timeline);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="signals-${encodeURIComponent(record.sessionId)}.csv"`);
+    return res.send(renderSignalTimelineCsv(timeline));
+  }));
+
+  router.get("/:sessionId/usage", asyncHandler(async (req: Request, res: Response) => {
+    const record = await store.get(req.params.sessionId);
+    if (!record) return sendError(res, 404, "Session not found.");
+    const entries = record.state.session_context.llm_usage_log;
+    const budget = app.llmBudget ?? null;
+    return res.json(
+      SessionUsageSchema.parse({
+        apiVersion: PLATFORM_API_VERSION,
+        sessionId: record.sessionId,
+        totals: summarizeUsage(entries),
+        byRunName: groupUsage(entries, "run_name"),
+        byNode: groupUsage(entries, "node"),
+        byModel: groupUsage(entries, "model"),
+        budget: budget && { ...budget, exceeded: isOverBudget(entries, budget) },
+      })
+    );
+  }));
+
+  router.get("/:sessionId/checkpoints", asyncHandler(async (req: Request, res: Response) => {
+    const { sessionId } = req.params;
+    if (!(await store.get(sessionId))) return sendError(res, 404, "Session not found.");
+    // Without a checkpointer, or before the first turn, the session simply has no checkpoints yet.
+    const checkpoints = app.graphApp.checkpointer ? await getThreadHistory(app.graphApp, sessionId) : [];
+    return res.json({ apiVersion: PLATFORM_API_VERSION, sessionId, checkpoints });
+  }));
+
+  return router;
+}
@@ -0,0 +1,157 @@
+import type { CfsState } from "../langgraph/state.js";
+import { PLATFORM_API_VERSION } from "../langgraph/infra.js";
+import { compositeScore } from "../langgraph/core/agents/custom-agents.js";
+import { SignalTurnRecordSchema, type SignalTurnRecord } from "../langgraph/core/agents/signal-types.js";
+import type { SessionRecord } from "../sessions/index.js";
+import {
+  SignalReportSchema,
+  SignalTimelineSchema,
+  type SignalAverage,
+  type SignalReport,
+  type SignalTimeline,
+  type SignalTimelineTurn,
+} from "./session-schemas.js";
+
+export type SignalReportOptions = {
+  /** Sessions awaiting an answer for at least this long count as drop-offs. */
+  idleMs: number;
+  now?: number;
+};
+
+type Scores = Pick<SignalTurnRecord, "engagement" | "sentiment" | "trust" | "intent" | "overall">;
+
+const DIMENSIONS = ["engagement", "sentiment", "trust", "intent"] as const;
+
+const isSignalRecord = (record: unknown): record is SignalTurnRecord => SignalTurnRecordSchema.safeParse(record).success;
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+/** The turn's recorded overall score; older records predate custom dimensions and get the built-in composite. */
+const overallScore = (scores: Scores) => scores.overall ?? compositeScore(scores);
+
+/**
+ * Per-turn signal scores for one session. Each event is attached to the turn it
+ * was detected on (the latest turn at or before its timestamp); events older
+ * than the retained history are left out.
+ */
+export function buildSignalTimeline(state: CfsState): SignalTimeline {
+  const rc = state.relationship_context;
+  const records = rc.signal_history.filter(isSignalRecord);
+  const turns: SignalTimelineTurn[] = records.map((record) => ({
+    turnIndex: record.turn_index,
+    timestamp: new Date(record.timestamp).toISOString(),
+    step: record.step ?? null,
+    questionKey: record.question_key ?? null,
+    ...pickScores(record),
+    custom: record.custom ?? {},
+    events: [],
+  }));
+  for (const event of rc.signal_events) {
+    const index = records.filter((record) => record.timestamp <= event.timestamp).length - 1;
+    if (index >= 0) turns[index].events.push({ type: event.type, details: event.details });
+  }
+
+  return SignalTimelineSchema.parse({
+    apiVersion: PLATFORM_API_VERSION,
+    sessionId: state.session_context.session_id,
+    graphId: state.session_context.graph_id,
+    current: {
+      engagement: round(rc.engagement_score),
+      sentiment: round(rc.sentiment_score),
+      trust: round(rc.trust_score),
+      intent: round(rc.intent_score),
+      overall: round(rc.overall_conversation_score),
+      turnCount: rc.turn_count,
+    },
+    turns,
+  });
+}
+
+function pickScores(scores: Scores): Omit<SignalAverage, "turns"> {
+  return {
+    engagement: round(scores.engagement),
+    sentiment: round(scores.sentiment),
+    trust: round(scores.trust),
+    intent: round(scores.intent),
+    overall: round(overallScore(scores)),
+  };
+}
+
+function average(records: SignalTurnRecord[]): SignalAverage {
+  const mean = (dimension: (typeof DIMENSIONS)[number]) =>
+    records.length ? records.reduce((sum, record) => sum + record[dimension], 0) / records.length : 0;
+  const scores = {
+    engagement: mean("engagement"),
+    sentiment: mean("sentiment"),
+    trust: mean("trust"),
+    intent: mean("intent"),
+    overall: records.length ? records.reduce((sum, record) => sum + overallScore(record), 0) / records.length : 0,
+  };
+  return { ...pickScores(scores), turns: records.length };
+}
+
+function averagesBy(records: SignalTurnRecord[], key: (record: SignalTurnRecord) => string | null | undefined) {
+  const groups = new Map<string, SignalTurnRecord[]>();
+  for (const record of records) {
+    const group = key(record);
+    if (group) groups.set(group, [...(groups.get(group) ?? []), record]);
+  }
+  return Object.fromEntries([...groups].map(([group, members]) => [group, average(members)]));
+}
+
+/**
+ * Signal averages per step and question key across `sessions`, event counts,
+ * and drop-off points: where sessions have sat unanswered for `idleMs`,
+ * most common first.
+ */
+export function buildSignalReport(sessions: SessionRecord[], options: SignalReportOptions): SignalReport {
+  const now = options.now ?? Date.now();
+  const records = sessions.flatMap((session) => session.state.relationship_context.signal_history.filter(isSignalRecord));
+
+  const events: Record<string, number> = {};
+  for (const event of sessions.flatMap((session) => session.state.relationship_context.signal_events)) {
+    events[event.type] = (events[event.type] ?? 0) + 1;
+  }
+
+  const dropOffs = new Map<string, SignalReport["dropOffs"][number]>();
+  for (const { state, updatedAt } of sessions) {
+    const ctx = state.session_context;
+    if (!ctx.started || !ctx.awaiting_user || now - updatedAt < options.idleMs) continue;
+    const id = `${ctx.step}\u0000${ctx.last_question_key ?? ""}`;
+    const entry = dropOffs.get(id) ?? { step: ctx.step, questionKey: ctx.last_question_key, sessions: 0 };
+    dropOffs.set(id, { ...entry, sessions: entry.sessions + 1 });
+  }
+
+  return SignalReportSchema.parse({
+    apiVersion: PLATFORM_API_VERSION,
+    generatedAt: new Date(now).toISOString(),
+    sessions: sessions.length,
+    overall: average(records),
+    byStep: averagesBy(records, (record) => record.step),
+    byQuestionKey: averagesBy(records, (record) => record.question_key),
+    events,
+    dropOffs: [...dropOffs.values()].sort((a, b) => b.sessions - a.sessions),
+  });
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The timeline as CSV, one row per turn; event types are joined with ";". */
+export function renderSignalTimelineCsv(timeline: SignalTimeline): string {
+  const header = ["turnIndex", "timestamp", "step", "questionKey", ...DIMENSIONS, "overall", "events"];
+  const rows = timeline.turns.map((turn) =>
+    [
+      turn.turnIndex,
+      turn.timestamp,
+      turn.step,
+      turn.questionKey,
+      ...DIMENSIONS.map((dimension) => turn[dimension]),
+      turn.overall,
+      turn.events.map((event) => event.type).join(";"),
+    ].map(csvCell)
+  );
+  return [header, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,74 @@
+import type { CfsState } from "../langgraph/state.js";
+import { PLATFORM_API_VERSION } from "../langgraph/infra.js";
+import { SignalTurnRecordSchema, type SignalTurnRecord } from "../langgraph/core/agents/signal-types.js";
+import { TranscriptExportSchema, type TranscriptExport } from "./session-schemas.js";
+import { buildTranscript } from "./transcript.js";
+
+export type TranscriptExportOptions = {
+  /** Replace `user_context.first_name` wherever it appears. */
+  redactNames?: boolean;
+  now?: Date;
+};
+
+export const REDACTED_NAME = "[name]";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Masks whole-word, case-insensitive occurrences of `name`; identity when there is no name. */
+function nameRedactor(name: string | null): (text: string) => string {
+  const trimmed = name?.trim();
+  if (!trimmed) return (text) => text;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(trimmed)}(?![\\p{L}\\p{N}])`, "giu");
+  return (text) => text.replace(pattern, REDACTED_NAME);
+}
+
+const isSignalRecord = (record: unknown): record is SignalTurnRecord => SignalTurnRecordSchema.safeParse(record).success;
+
+/**
+ * Everything worth keeping from a session: the conversation plus the profile,
+ * use cases, discovery answers/risks and per-turn signals it produced.
+ */
+export function buildTranscriptExport(state: CfsState, options: TranscriptExportOptions = {}): TranscriptExport {
+  const { user_context: user, use_case_context: useCases, session_context: session } = state;
+  const redact = options.redactNames ? nameRedactor(user.first_name) : (text: string) => text;
+  const redactNullable = (text: string | null) => (text === null ? null : redact(text));
+
+  return TranscriptExportSchema.parse({
+    apiVersion: PLATFORM_API_VERSION,
+    sessionId: session.session_id,
+    tenantId: session.tenant_id,
+    graphId: session.graph_id,
+    exportedAt: (options.now ?? new Date()).toISOString(),
+    redacted: Boolean(options.redactNames),
+    profile: {
+      firstName: options.redactNames && user.first_name ? REDACTED_NAME : user.first_name,
+      role: user.persona_clarified_role ?? user.persona_role,
+      industry: user.industry,
+      goal: redactNullable(user.goal_statement),
+      timeframe: user.timeframe,
+      personaGroup: user.persona_group,
+      outcome: user.outcome,
+    },
+    useCases: {
+      objective: redactNullable(useCases.objective_normalized),
+      pillars: useCases.pillars.map((p) => p.name),
+      selected: useCases.selected_use_cases.map(redact),
+    },
+    discovery: useCases.discovery_questions.map((q) => ({
+      question: redact(q.question),
+      response: redactNullable(q.response),
+      risk: redactNullable(q.risk),
+      riskDomain: q.risk_domain,
+    })),
+    signals: state.relationship_context.signal_history
+      .filter(isSignalRecord)
+      .map((record) => ({
+        turnIndex: record.turn_index,
+        engagement: record.engagement,
+        sentiment: record.sentiment,
+        trust: record.trust,
+        intent: record.intent,
+      })),
+    messages: buildTranscript(state).map((m) => ({ ...m, content: redact(m.content) })),
+  });
+}
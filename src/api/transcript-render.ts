@@ -0,0 +1,137 @@
+import type { TranscriptExport } from "./session-schemas.js";
+
+const SPEAKER: Record<TranscriptExport["messages"][number]["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+};
+
+const orDash = (value: string | null) => value ?? "—";
+
+function profileRows(doc: TranscriptExport): Array<[string, string]> {
+  const { profile, useCases } = doc;
+  return [
+    ["Name", orDash(profile.firstName)],
+    ["Role", orDash(profile.role)],
+    ["Industry", orDash(profile.industry)],
+    ["Goal", orDash(profile.goal)],
+    ["Timeframe", orDash(profile.timeframe)],
+    ["Persona group", orDash(profile.personaGroup)],
+    ["Outcome", orDash(profile.outcome)],
+    ["Objective", orDash(useCases.objective)],
+    ["Pillars", useCases.pillars.join(", ") || "—"],
+    ["Selected use cases", useCases.selected.join(", ") || "—"],
+  ];
+}
+
+const signalLine = (s: TranscriptExport["signals"][number]) =>
+  `engagement ${s.engagement.toFixed(2)}, sentiment ${s.sentiment.toFixed(2)}, trust ${s.trust.toFixed(2)}, intent ${s.intent.toFixed(2)}`;
+
+const mdCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+/** Markdown transcript: header, profile table, discovery, signals, then the conversation. */
+export function renderTranscriptMarkdown(doc: TranscriptExport): string {
+  const lines = [
+    `# Session ${doc.sessionId}`,
+    "",
+    `Graph \`${doc.graphId}\`${doc.tenantId ? ` · tenant \`${doc.tenantId}\`` : ""} · exported ${doc.exportedAt}${doc.redacted ? " · redacted" : ""}`,
+    "",
+    "## Profile",
+    "",
+    "| Field | Value |",
+    "| --- | --- |",
+    ...profileRows(doc).map(([label, value]) => `| ${label} | ${mdCell(value)} |`),
+  ];
+
+  if (doc.discovery.length) {
+    lines.push("", "## Discovery", "");
+    for (const q of doc.discovery) {
+      lines.push(`- **${mdCell(q.question)}**`, `  - Response: ${mdCell(orDash(q.response))}`);
+      if (q.risk) lines.push(`  - Risk${q.riskDomain ? ` (${mdCell(q.riskDomain)})` : ""}: ${mdCell(q.risk)}`);
+    }
+  }
+
+  if (doc.signals.length) {
+    lines.push("", "## Signals", "");
+    lines.push(...doc.signals.map((s) => `- Turn ${s.turnIndex}: ${signalLine(s)}`));
+  }
+
+  lines.push("", "## Conversation", "");
+  for (const m of doc.messages) {
+    lines.push(`**${SPEAKER[m.role]}:**`, "", m.content, "");
+  }
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const STYLES = `
+body{font-family:system-ui,-apple-system,"Segoe UI",sans-serif;max-width:760px;margin:2rem auto;padding:0 1rem;color:#1f2933;line-height:1.5}
+h1{font-size:1.4rem}h2{font-size:1.1rem;margin-top:2rem;border-bottom:1px solid #e4e7eb;padding-bottom:.25rem}
+.meta{color:#616e7c;font-size:.85rem}
+table{border-collapse:collapse;width:100%}th,td{text-align:left;padding:.3rem .5rem;border-bottom:1px solid #f0f2f4;vertical-align:top}th{width:35%;color:#52606d;font-weight:500}
+.msg{margin:.75rem 0;padding:.6rem .8rem;border-radius:8px;white-space:pre-wrap}
+.msg.user{background:#e3f2fd;margin-left:15%}.msg.assistant{background:#f5f7fa;margin-right:15%}.msg.system{background:#fff8e1;font-size:.85rem}
+.speaker{display:block;font-size:.75rem;font-weight:600;color:#52606d;margin-bottom:.2rem}
+.risk{color:#b44d12}`;
+
+/** Self-contained HTML page (inline styles, no external assets) for sharing or printing. */
+export function renderTranscriptHtml(doc: TranscriptExport): string {
+  const title = `Session ${escapeHtml(doc.sessionId)}`;
+  const meta = [
+    `Graph ${escapeHtml(doc.graphId)}`,
+    doc.tenantId ? `tenant ${escapeHtml(doc.tenantId)}` : null,
+    `exported ${escapeHtml(doc.exportedAt)}`,
+    doc.redacted ? "redacted" : null,
+  ].filter(Boolean);
+
+  const profile = profileRows(doc)
+    .map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("");
+
+  const discovery = doc.discovery.length
+    ? `<h2>Discovery</h2><ul>${doc.discovery
+        .map(
+          (q) =>
+            `<li><strong>${escapeHtml(q.question)}</strong><br>${escapeHtml(orDash(q.response))}${
+              q.risk
+                ? `<br><span class="risk">Risk${q.riskDomain ? ` (${escapeHtml(q.riskDomain)})` : ""}: ${escapeHtml(q.risk)}</span>`
+                : ""
+            }</li>`
+        )
+        .join("")}</ul>`
+    : "";
+
+  const signals = doc.signals.length
+    ? `<h2>Signals</h2><ul>${doc.signals.map((s) => `<li>Turn ${s.turnIndex}: ${signalLine(s)}</li>`).join("")}</ul>`
+    : "";
+
+  const messages = doc.messages
+    .map(
+      (m) =>
+        `<div class="msg ${m.role}"><span class="speaker">${SPEAKER[m.role]}</span>${escapeHtml(m.content)}</div>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${STYLES}
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${meta.join(" · ")}</p>
+<h2>Profile</h2>
+<table>${profile}</table>
+${discovery}
+${signals}
+<h2>Conversation</h2>
+${messages}
+</body>
+</html>
+`;
+}
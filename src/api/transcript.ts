@@ -0,0 +1,30 @@
+import { AIMessage, HumanMessage, type BaseMessage } from "@langchain/core/messages";
+import type { CfsState } from "../langgraph/state.js";
+import type { TranscriptMessage } from "./session-schemas.js";
+
+/** Flatten LangChain message content (string or content parts) to plain text. */
+export function messageContentToText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === "string" ? part : typeof part === "object" && part !== null && "text" in part ? (part as { text?: string }).text ?? "" : ""))
+      .join("\n");
+  }
+  if (content && typeof content === "object" && "toString" in content) return (content as any).toString();
+  return content ? String(content) : "";
+}
+
+function roleOf(message: BaseMessage): TranscriptMessage["role"] {
+  if (message instanceof HumanMessage) return "user";
+  if (message instanceof AIMessage) return "assistant";
+  return "system";
+}
+
+/** Conversation as user/assistant turns, in order. */
+export function buildTranscript(state: CfsState): TranscriptMessage[] {
+  return (state.messages as BaseMessage[]).map((message) => ({
+    role: roleOf(message),
+    content: messageContentToText(message.content),
+    messageType: (message.additional_kwargs?.message_type as string | undefined) ?? null,
+  }));
+}
@@ -0,0 +1,3 @@
+import { runFlowCommand } from "./flow.js";
+
+process.exitCode = runFlowCommand(process.argv.slice(2));
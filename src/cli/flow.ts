@@ -0,0 +1,74 @@
+import { lintFlowFile, type FlowLintReport } from "../langgraph/schema/graph-lint.js";
+import { loadGraphDsl } from "../langgraph/schema/graph-loader.js";
+import { renderGraphDiagram, type DiagramFormat } from "../langgraph/schema/graph-diagram.js";
+import { writeOwnershipReport } from "../langgraph/schema/write-contracts.js";
+
+const USAGE = [
+  "Usage: flow lint <path-to-flow.yaml> [more.yaml ...]",
+  "       flow diagram <path-to-flow.yaml> [--format mermaid|dot]",
+  "       flow writes <path-to-flow.yaml>",
+].join("\n");
+
+type Write = (text: string) => void;
+
+const stdout: Write = (t) => process.stdout.write(t);
+const stderr: Write = (t) => process.stderr.write(t);
+
+function usage(): number {
+  stderr(`${USAGE}\n`);
+  return 2;
+}
+
+/** Prints one JSON document `{ ok, reports }`; fails when any file has errors. */
+function lint(files: string[], write: Write): number {
+  if (files.length === 0) return usage();
+  const reports: FlowLintReport[] = files.map((file) => lintFlowFile(file));
+  const ok = reports.every((r) => r.ok);
+  write(`${JSON.stringify({ ok, reports }, null, 2)}\n`);
+  return ok ? 0 : 1;
+}
+
+/** Prints the expanded graph as Mermaid (default) or Graphviz DOT. */
+function diagram(args: string[], write: Write): number {
+  const formatAt = args.indexOf("--format");
+  const format = formatAt === -1 ? "mermaid" : args[formatAt + 1];
+  const files = args.filter((_, i) => formatAt === -1 || (i !== formatAt && i !== formatAt + 1));
+  if (files.length !== 1 || (format !== "mermaid" && format !== "dot")) return usage();
+  try {
+    write(renderGraphDiagram(loadGraphDsl(files[0]), format as DiagramFormat));
+    return 0;
+  } catch (err) {
+    stderr(`${err instanceof Error ? err.message : String(err)}\n`);
+    return 1;
+  }
+}
+
+/** Prints which nodes write each state slice, as JSON. */
+function writes(files: string[], write: Write): number {
+  if (files.length !== 1) return usage();
+  try {
+    write(`${JSON.stringify(writeOwnershipReport(loadGraphDsl(files[0])), null, 2)}\n`);
+    return 0;
+  } catch (err) {
+    stderr(`${err instanceof Error ? err.message : String(err)}\n`);
+    return 1;
+  }
+}
+
+/**
+ * `flow` command entry point. Returns the exit code: 0 success (lint
+ * warnings allowed), 1 lint errors or an unloadable flow, 2 bad usage.
+ */
+export function runFlowCommand(args: string[], write: Write = stdout): number {
+  const [command, ...rest] = args;
+  switch (command) {
+    case "lint":
+      return lint(rest, write);
+    case "diagram":
+      return diagram(rest, write);
+    case "writes":
+      return writes(rest, write);
+    default:
+      return usage();
+  }
+}
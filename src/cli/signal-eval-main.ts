@@ -0,0 +1,3 @@
+import { runSignalEvalCommand } from "./signal-eval.js";
+
+process.exitCode = await runSignalEvalCommand(process.argv.slice(2));
@@ -0,0 +1,69 @@
+import { readFileSync } from "node:fs";
+import { parse as parseYaml } from "yaml";
+import { resolveExtractorConfig, type ExtractorConfig } from "../langgraph/core/agents/extractor-config.js";
+import {
+  compareSignalExtractors,
+  evaluateSignalExtractors,
+  parseSignalDataset,
+} from "../langgraph/core/agents/signal-eval.js";
+
+const USAGE = [
+  "Usage: signal-eval run <dataset.jsonl> [--config overrides.yaml]",
+  "       signal-eval compare <dataset.jsonl> <baseline.yaml|default> <candidate.yaml|default>",
+].join("\n");
+
+type Write = (text: string) => void;
+
+const stdout: Write = (t) => process.stdout.write(t);
+const stderr: Write = (t) => process.stderr.write(t);
+
+function usage(): number {
+  stderr(`${USAGE}\n`);
+  return 2;
+}
+
+/** Extractor config from a YAML/JSON overrides file; "default" is the shipped config. */
+function loadConfig(file: string): ExtractorConfig {
+  return resolveExtractorConfig(file === "default" ? {} : parseYaml(readFileSync(file, "utf8")));
+}
+
+async function run(args: string[], write: Write): Promise<number> {
+  const configAt = args.indexOf("--config");
+  const files = args.filter((_, i) => configAt === -1 || (i !== configAt && i !== configAt + 1));
+  if (files.length !== 1 || (configAt !== -1 && !args[configAt + 1])) return usage();
+  const dataset = parseSignalDataset(readFileSync(files[0], "utf8"));
+  const report = await evaluateSignalExtractors(dataset, loadConfig(configAt === -1 ? "default" : args[configAt + 1]));
+  write(`${JSON.stringify(report, null, 2)}\n`);
+  return 0;
+}
+
+async function compare(args: string[], write: Write): Promise<number> {
+  if (args.length !== 3) return usage();
+  const [datasetFile, baselineFile, candidateFile] = args;
+  const dataset = parseSignalDataset(readFileSync(datasetFile, "utf8"));
+  const comparison = await compareSignalExtractors(dataset, loadConfig(baselineFile), loadConfig(candidateFile));
+  write(`${JSON.stringify(comparison, null, 2)}\n`);
+  return 0;
+}
+
+/**
+ * `signal-eval` command entry point: scores the heuristic signal agents
+ * against a labeled dataset, or diffs two extractor configs. Returns the exit
+ * code: 0 success, 1 unreadable dataset or config, 2 bad usage.
+ */
+export async function runSignalEvalCommand(args: string[], write: Write = stdout): Promise<number> {
+  const [command, ...rest] = args;
+  try {
+    switch (command) {
+      case "run":
+        return await run(rest, write);
+      case "compare":
+        return await compare(rest, write);
+      default:
+        return usage();
+    }
+  } catch (err) {
+    stderr(`${err instanceof Error ? err.message : String(err)}\n`);
+    return 1;
+  }
+}
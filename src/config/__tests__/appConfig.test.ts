@@ -1,10 +1,13 @@
 import { existsSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
 import path from "node:path";
+import { jest } from "@jest/globals";
 import { fileURLToPath } from "node:url";
 import {
   loadAppConfig,
   resolveAppConfig,
   validateAppConfig,
+  discoverAppConfigs,
+  resolveHostedAppConfigs,
   getFlowPath,
   getTemplatePath,
   type ResolvedAppConfig,
@@ -156,4 +159,79 @@ describe("appConfig", () => {
       expect(() => resolveAppConfig()).toThrow("APP_ID env var is required");
     });
   });
+
+  describe("discoverAppConfigs", () => {
+    it("finds every app.config.json under clients/<tenantId>/apps/<appId>", () => {
+      const apps = discoverAppConfigs();
+      expect(apps).toContainEqual(
+        expect.objectContaining({ tenantId: "default", appId: "cfs-chatbot", flowId: "cfs-default", template: "chatbot1" })
+      );
+    });
+
+    it("sorts apps and skips app directories without a config file", () => {
+      const clientsDir = path.join(PROJECT_ROOT, "tmp-discover-test");
+      for (const appId of ["b-app", "a-app", "empty"]) {
+        mkdirSync(path.join(clientsDir, "default", "apps", appId), { recursive: true });
+      }
+      for (const appId of ["b-app", "a-app"]) {
+        writeFileSync(
+          path.join(clientsDir, "default", "apps", appId, "app.config.json"),
+          JSON.stringify({ flowId: "cfs-default", template: "chatbot2" })
+        );
+      }
+      mkdirSync(path.join(clientsDir, "default", "flows", "cfs-default"), { recursive: true });
+      writeFileSync(getFlowPath("default", "cfs-default", clientsDir), "");
+      try {
+        const apps = discoverAppConfigs(clientsDir);
+        expect(apps.map((a) => a.appId)).toEqual(["a-app", "b-app"]);
+        expect(apps[0].template).toBe("chatbot2");
+        expect(apps[0].flowPath).toBe(path.join(clientsDir, "default", "flows", "cfs-default", "flow.yaml"));
+      } finally {
+        rmSync(clientsDir, { recursive: true, force: true });
+      }
+    });
+
+    it("skips apps whose config is broken or whose flow is missing, with a warning", () => {
+      const clientsDir = path.join(PROJECT_ROOT, "tmp-discover-broken-test");
+      const configs: Record<string, string> = {
+        good: JSON.stringify({ flowId: "cfs-default", template: "chatbot1" }),
+        "no-flow": JSON.stringify({ flowId: "missing-flow", template: "chatbot1" }),
+        "bad-json": "{",
+      };
+      for (const [appId, content] of Object.entries(configs)) {
+        mkdirSync(path.join(clientsDir, "default", "apps", appId), { recursive: true });
+        writeFileSync(path.join(clientsDir, "default", "apps", appId, "app.config.json"), content);
+      }
+      mkdirSync(path.join(clientsDir, "default", "flows", "cfs-default"), { recursive: true });
+      writeFileSync(getFlowPath("default", "cfs-default", clientsDir), "");
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        expect(discoverAppConfigs(clientsDir).map((a) => a.appId)).toEqual(["good"]);
+        expect(warn.mock.calls.map(([message]) => message)).toEqual([
+          expect.stringMatching(/^\[app-config\] Skipping app default\/bad-json: /),
+          expect.stringMatching(/^\[app-config\] Skipping app default\/no-flow: Flow not found/),
+        ]);
+      } finally {
+        warn.mockRestore();
+        rmSync(clientsDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("resolveHostedAppConfigs", () => {
+    it("adds the TENANT_ID/APP_ID app in legacy mode when it has no app config", () => {
+      process.env.TENANT_ID = "default";
+      process.env.APP_ID = "legacy-app";
+      const apps = resolveHostedAppConfigs();
+      expect(apps[0]).toMatchObject({ tenantId: "default", appId: "legacy-app", flowId: null });
+      expect(apps.some((a) => a.appId === "cfs-chatbot")).toBe(true);
+    });
+
+    it("hosts only the APP_CONFIG_PATH app when set", () => {
+      process.env.TENANT_ID = "default";
+      process.env.APP_ID = "cfs-chatbot";
+      process.env.APP_CONFIG_PATH = path.join(PROJECT_ROOT, "clients/default/apps/cfs-chatbot/app.config.json");
+      expect(resolveHostedAppConfigs()).toHaveLength(1);
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { readFileSync, existsSync } from "node:fs";
+import { readFileSync, existsSync, readdirSync } from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 
@@ -12,6 +12,15 @@ export interface AppConfig {
   uiOverrides?: Record<string, unknown>;
 }
 
+/** Tenant-wide settings from clients/<tenantId>/tenant.config.json. */
+export interface TenantConfig {
+  /** Per-session LLM limits; once reached, AI helpers use deterministic fallbacks. */
+  llmBudget?: {
+    maxTokensPerSession?: number;
+    maxCostUsdPerSession?: number;
+  };
+}
+
 export interface ResolvedAppConfig {
   flowId: string | null;
   flowPath: string;
@@ -19,9 +28,13 @@ export interface ResolvedAppConfig {
   tenantId: string;
   appId: string;
   uiOverrides: Record<string, unknown>;
+  llmBudget?: TenantConfig["llmBudget"] | null;
+  /** Older versions of the flow kept loaded for sessions that started on them. */
+  retainedFlowPaths?: string[];
 }
 
 const PROJECT_ROOT = path.resolve(__dirname, "../..");
+const CLIENTS_DIR = path.join(PROJECT_ROOT, "clients");
 
 function getTenantId(): string {
   const id = process.env.TENANT_ID;
@@ -49,15 +62,10 @@ function getAppConfigPath(): string {
   }
   const tenantId = getTenantId();
   const appId = getAppId();
-  return path.join(PROJECT_ROOT, "clients", tenantId, "apps", appId, "app.config.json");
+  return path.join(CLIENTS_DIR, tenantId, "apps", appId, "app.config.json");
 }
 
-/**
- * Load and parse app.config.json.
- * Returns null if file does not exist (legacy mode).
- */
-export function loadAppConfig(): AppConfig | null {
-  const configPath = getAppConfigPath();
+function readAppConfigFile(configPath: string): AppConfig | null {
   if (!existsSync(configPath)) {
     return null;
   }
@@ -69,12 +77,44 @@ export function loadAppConfig(): AppConfig | null {
   return parsed;
 }
 
+/**
+ * Load and parse app.config.json.
+ * Returns null if file does not exist (legacy mode).
+ */
+export function loadAppConfig(): AppConfig | null {
+  return readAppConfigFile(getAppConfigPath());
+}
+
+/**
+ * Load clients/<tenantId>/tenant.config.json. Returns an empty config when the
+ * tenant has none.
+ */
+export function loadTenantConfig(tenantId: string, clientsDir: string = CLIENTS_DIR): TenantConfig {
+  const configPath = path.join(clientsDir, tenantId, "tenant.config.json");
+  if (!existsSync(configPath)) return {};
+  return JSON.parse(readFileSync(configPath, "utf-8")) as TenantConfig;
+}
+
 /**
  * Resolve flow path from flowId.
  * Path: clients/<tenantId>/flows/<flowId>/flow.yaml
  */
-export function getFlowPath(tenantId: string, flowId: string): string {
-  return path.join(PROJECT_ROOT, "clients", tenantId, "flows", flowId, "flow.yaml");
+export function getFlowPath(tenantId: string, flowId: string, clientsDir: string = CLIENTS_DIR): string {
+  return path.join(clientsDir, tenantId, "flows", flowId, "flow.yaml");
+}
+
+/**
+ * Older versions of a flow kept beside it.
+ * Path: <flow dir>/versions/<version>/flow.yaml
+ */
+export function getRetainedFlowPaths(flowPath: string): string[] {
+  const versionsDir = path.join(path.dirname(flowPath), "versions");
+  if (!existsSync(versionsDir)) return [];
+  return readdirSync(versionsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => path.join(versionsDir, entry.name, "flow.yaml"))
+    .filter((file) => existsSync(file))
+    .sort();
 }
 
 /**
@@ -113,19 +153,15 @@ export function getDefaultFlowPath(): string {
   return getFlowPath(getTenantId(), "cfs-default");
 }
 
-/**
- * Load app config and resolve all paths.
- * Returns resolved config for server startup.
- * If no app config exists, returns config for clients/<tenantId>/flows/cfs-default/flow.yaml.
- */
-export function resolveAppConfig(): ResolvedAppConfig {
-  const tenantId = getTenantId();
-  const appId = getAppId();
-
-  const config = loadAppConfig();
-
+function resolveLoadedAppConfig(
+  tenantId: string,
+  appId: string,
+  config: AppConfig | null,
+  clientsDir: string = CLIENTS_DIR
+): ResolvedAppConfig {
+  const llmBudget = loadTenantConfig(tenantId, clientsDir).llmBudget ?? null;
   if (!config) {
-    const defaultFlowPath = getFlowPath(tenantId, "cfs-default");
+    const defaultFlowPath = getFlowPath(tenantId, "cfs-default", clientsDir);
     const defaultConfig: ResolvedAppConfig = {
       flowId: null,
       flowPath: defaultFlowPath,
@@ -133,6 +169,8 @@ export function resolveAppConfig(): ResolvedAppConfig {
       tenantId,
       appId,
       uiOverrides: {},
+      llmBudget,
+      retainedFlowPaths: getRetainedFlowPaths(defaultFlowPath),
     };
     validateAppConfig(defaultConfig);
     return defaultConfig;
@@ -148,9 +186,9 @@ export function resolveAppConfig(): ResolvedAppConfig {
       : path.join(PROJECT_ROOT, config.graph);
     flowId = null;
   } else if (config.flowId) {
-    flowPath = getFlowPath(tenantId, config.flowId);
+    flowPath = getFlowPath(tenantId, config.flowId, clientsDir);
   } else {
-    flowPath = getFlowPath(tenantId, "cfs-default");
+    flowPath = getFlowPath(tenantId, "cfs-default", clientsDir);
   }
 
   const resolved: ResolvedAppConfig = {
@@ -160,8 +198,68 @@ export function resolveAppConfig(): ResolvedAppConfig {
     tenantId,
     appId,
     uiOverrides: config.uiOverrides ?? {},
+    llmBudget,
+    retainedFlowPaths: getRetainedFlowPaths(flowPath),
   };
 
   validateAppConfig(resolved);
   return resolved;
 }
+
+/**
+ * Load app config and resolve all paths.
+ * Returns resolved config for server startup.
+ * If no app config exists, returns config for clients/<tenantId>/flows/cfs-default/flow.yaml.
+ */
+export function resolveAppConfig(): ResolvedAppConfig {
+  return resolveLoadedAppConfig(getTenantId(), getAppId(), loadAppConfig());
+}
+
+/**
+ * Discover every app under clients/<tenantId>/apps/<appId>/app.config.json.
+ * Returns resolved configs sorted by tenantId then appId. Flows resolve under
+ * `clientsDir`; an app whose config is unreadable or whose flow or template is
+ * missing is skipped with a warning so it cannot take the other apps down.
+ */
+export function discoverAppConfigs(clientsDir: string = CLIENTS_DIR): ResolvedAppConfig[] {
+  const listDirs = (dir: string) =>
+    existsSync(dir)
+      ? readdirSync(dir, { withFileTypes: true })
+          .filter((entry) => entry.isDirectory())
+          .map((entry) => entry.name)
+          .sort()
+      : [];
+
+  const resolved: ResolvedAppConfig[] = [];
+  for (const tenantId of listDirs(clientsDir)) {
+    for (const appId of listDirs(path.join(clientsDir, tenantId, "apps"))) {
+      try {
+        const config = readAppConfigFile(path.join(clientsDir, tenantId, "apps", appId, "app.config.json"));
+        if (config) resolved.push(resolveLoadedAppConfig(tenantId, appId, config, clientsDir));
+      } catch (err) {
+        console.warn(`[app-config] Skipping app ${tenantId}/${appId}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * App configs a multi-app server should host: every discovered app, plus the
+ * TENANT_ID/APP_ID app when it has no app.config.json (legacy mode).
+ * APP_CONFIG_PATH pins the server to that single app.
+ */
+export function resolveHostedAppConfigs(): ResolvedAppConfig[] {
+  if (process.env.APP_CONFIG_PATH) return [resolveAppConfig()];
+  const configs = discoverAppConfigs();
+  const { TENANT_ID, APP_ID } = process.env;
+  const discovered = configs.some((c) => c.tenantId === TENANT_ID && c.appId === APP_ID);
+  // An app.config.json that exists but was skipped during discovery is not legacy mode.
+  if (TENANT_ID && APP_ID && !discovered && !existsSync(getAppConfigPath())) {
+    configs.unshift(resolveAppConfig());
+  }
+  if (configs.length === 0) {
+    throw new Error("No apps found. Add clients/<tenantId>/apps/<appId>/app.config.json or set TENANT_ID and APP_ID.");
+  }
+  return configs;
+}
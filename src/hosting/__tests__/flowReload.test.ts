@@ -0,0 +1,134 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { jest } from "@jest/globals";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "flow-reload-"));
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const flowYaml = (handlerRef?: string) => `
+schemaVersion: 2
+graph:
+  graphId: reloadFlow
+  version: "1.0"
+  entrypoint: greet
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: greet
+    kind: question
+${handlerRef ? `    handlerRef: ${handlerRef}` : "    nodeConfig:\n      greeting: { stringKeys: [hello] }"}
+transitions:
+  static:
+    - { from: greet, to: "__end__" }
+config:
+  $ref: ./content.yaml#config
+`;
+
+const contentYaml = (hello: string) => `
+config:
+  aiPrompts: { base: "prompt" }
+  strings: { hello: "${hello}" }
+`;
+
+async function setup() {
+  const { registerHandlerModule } = await import("../../langgraph/schema/graph-handler-modules.js");
+  const { buildHostedApps } = await import("../hosted-apps.js");
+  const { watchHostedFlows } = await import("../flow-reloader.js");
+  registerHandlerModule("reloadFlow", () => {});
+  const flowPath = path.join(dir, "flow.yaml");
+  writeFileSync(flowPath, flowYaml());
+  writeFileSync(path.join(dir, "content.yaml"), contentYaml("Hi v1"));
+  const config = { flowId: null, flowPath, template: "chatbot1", tenantId: "t", uiOverrides: {} };
+  const hosts = buildHostedApps([
+    { ...config, appId: "a" },
+    { ...config, appId: "b" },
+  ]);
+  const reloader = watchHostedFlows(hosts, { debounceMs: 20 });
+  return { hosts, reloader, flowPath };
+}
+
+const hello = (host: { graphApp: { context?: { messaging: unknown } } }) =>
+  (host.graphApp.context?.messaging as { strings: Record<string, string> }).strings.hello;
+
+describe("flow hot reload", () => {
+  it("swaps the graph of every app using the flow after a $ref target changes", async () => {
+    const { hosts, reloader, flowPath } = await setup();
+    try {
+      const [status] = reloader.status();
+      expect(status.files).toEqual(expect.arrayContaining([flowPath, path.join(dir, "content.yaml")]));
+
+      const previous = hosts[0].graphApp;
+      writeFileSync(path.join(dir, "content.yaml"), contentYaml("Hi v2"));
+      expect(reloader.reload(flowPath)).toBe(true);
+      expect(hosts[0].graphApp).not.toBe(previous);
+      expect(hosts[1].graphApp).toBe(hosts[0].graphApp);
+      expect(hello(hosts[0])).toBe("Hi v2");
+      expect(reloader.status()[0]).toMatchObject({ reloads: 1, error: null });
+    } finally {
+      reloader.close();
+    }
+  });
+
+  it("rebuilds the retained versions when the flow's version changes", async () => {
+    const { hosts, reloader, flowPath } = await setup();
+    const { createSessionState, resolveSessionGraph } = await import("../hosted-apps.js");
+    try {
+      const retainedDir = path.join(dir, "versions", "1.0");
+      mkdirSync(retainedDir, { recursive: true });
+      writeFileSync(path.join(retainedDir, "flow.yaml"), flowYaml());
+      writeFileSync(path.join(retainedDir, "content.yaml"), contentYaml("Hi v1"));
+      writeFileSync(flowPath, flowYaml().replace('version: "1.0"', 'version: "2.0"'));
+      expect(reloader.reload(flowPath)).toBe(true);
+
+      expect(hosts[0].graphApp.version).toBe("2.0");
+      expect(hosts[0].retainedGraphs.map((graph) => graph.version)).toEqual(["1.0"]);
+      expect(hosts[1].retainedGraphs[0].checkpointer).toBe(hosts[1].graphApp.checkpointer);
+      const state = createSessionState(hosts[0], "s1");
+      const onV1 = { ...state, session_context: { ...state.session_context, graph_version: "1.0" } };
+      expect(resolveSessionGraph(hosts[0], onV1).graphApp).toBe(hosts[0].retainedGraphs[0]);
+    } finally {
+      reloader.close();
+    }
+  });
+
+  it("keeps the running graph and config and reports the error when the new flow fails validation", async () => {
+    const { hosts, reloader, flowPath } = await setup();
+    const { requireGraphMessagingConfig } = await import("../../langgraph/core/config/messaging.js");
+    try {
+      const previous = hosts[0].graphApp;
+      writeFileSync(path.join(dir, "content.yaml"), contentYaml("Hi broken"));
+      writeFileSync(flowPath, flowYaml("reloadFlow.missing"));
+      expect(reloader.reload(flowPath)).toBe(false);
+      expect(hosts[0].graphApp).toBe(previous);
+      expect(hello(hosts[0])).toBe("Hi v1");
+      expect((requireGraphMessagingConfig("reloadFlow").strings as Record<string, string>).hello).toBe("Hi v1");
+      expect(reloader.status()[0].error).toContain("reloadFlow.missing");
+    } finally {
+      reloader.close();
+    }
+  });
+
+  it("recompiles when a watched file is edited", async () => {
+    const { hosts, reloader } = await setup();
+    try {
+      writeFileSync(path.join(dir, "content.yaml"), contentYaml("Hi watched"));
+      for (let i = 0; i < 100 && reloader.status()[0].reloads === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+      }
+      expect(hello(hosts[0])).toBe("Hi watched");
+    } finally {
+      reloader.close();
+    }
+  });
+});
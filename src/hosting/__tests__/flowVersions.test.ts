@@ -0,0 +1,134 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { jest } from "@jest/globals";
+import type { HostedApp } from "../hosted-apps.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "flow-versions-"));
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const flowYaml = (version: string, migrations = "") => `
+schemaVersion: 2
+graph:
+  graphId: versionFlow
+  version: "${version}"
+  entrypoint: greet
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: greet
+    kind: question
+    nodeConfig:
+      greeting: { stringKeys: [hello] }
+transitions:
+  static:
+    - { from: greet, to: "__end__" }
+config:
+  aiPrompts: { base: "prompt" }
+  strings: { hello: "Hi ${version}" }
+${migrations}
+`;
+
+const MIGRATIONS = `
+migrations:
+  - from: "1"
+    to: "2"
+    questionKeys: { OLD_Q: NEW_Q }
+    statePaths: { "user_context.old_note": "user_context.note" }
+`;
+
+function writeFlow(file: string, yaml: string): string {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, yaml);
+  return file;
+}
+
+async function setup() {
+  const { registerHandlerModule } = await import("../../langgraph/schema/graph-handler-modules.js");
+  const { getRetainedFlowPaths } = await import("../../config/appConfig.js");
+  const { buildHostedApps } = await import("../hosted-apps.js");
+  registerHandlerModule("versionFlow", () => {});
+  const flowPath = writeFlow(path.join(dir, "flow.yaml"), flowYaml("2", MIGRATIONS));
+  writeFlow(path.join(dir, "versions", "0", "flow.yaml"), flowYaml("0"));
+  writeFlow(path.join(dir, "versions", "1", "flow.yaml"), flowYaml("1"));
+  const retainedFlowPaths = getRetainedFlowPaths(flowPath);
+  const [host] = buildHostedApps([
+    { flowId: null, flowPath, template: "chatbot1", tenantId: "t", appId: "a", uiOverrides: {}, retainedFlowPaths },
+  ]);
+  return { host, retainedFlowPaths };
+}
+
+async function sessionOn(version: string | null, host: HostedApp) {
+  const { createSessionState } = await import("../hosted-apps.js");
+  const state = createSessionState(host, "s1");
+  return { ...state, session_context: { ...state.session_context, graph_version: version } };
+}
+
+describe("flow versions", () => {
+  it("stamps new sessions and keeps retained versions loaded", async () => {
+    const { host, retainedFlowPaths } = await setup();
+    const { createSessionState } = await import("../hosted-apps.js");
+    expect(retainedFlowPaths.map((p) => path.relative(dir, p))).toEqual(["versions/0/flow.yaml", "versions/1/flow.yaml"]);
+    expect(host.graphApp.version).toBe("2");
+    expect(host.retainedGraphs.map((g) => g.version)).toEqual(["0", "1"]);
+    expect(createSessionState(host, "s1").session_context).toMatchObject({ graph_id: "versionFlow", graph_version: "2" });
+  });
+
+  it("migrates sessions that have a migration chain to the current version", async () => {
+    const { host } = await setup();
+    const { resolveSessionGraph } = await import("../hosted-apps.js");
+    const state = await sessionOn("1", host);
+    state.session_context.last_question_key = "OLD_Q";
+    state.user_context = { ...state.user_context, old_note: "keep me" } as typeof state.user_context;
+
+    const resolved = resolveSessionGraph(host, state);
+    expect(resolved.graphApp).toBe(host.graphApp);
+    expect(resolved.state.session_context).toMatchObject({ last_question_key: "NEW_Q", graph_version: "2" });
+    expect(resolved.state.user_context).toMatchObject({ note: "keep me" });
+    expect((resolved.state.user_context as Record<string, unknown>).old_note).toBeUndefined();
+  });
+
+  it("keeps unmigratable sessions on their retained version and falls back to current otherwise", async () => {
+    const { host } = await setup();
+    const { resolveSessionGraph } = await import("../hosted-apps.js");
+    const { runTurn } = await import("../../langgraph/graph.js");
+
+    const old = resolveSessionGraph(host, await sessionOn("0", host));
+    expect(old.graphApp.version).toBe("0");
+    expect(old.state.session_context.graph_version).toBe("0");
+    const next = await runTurn(old.graphApp, old.state);
+    expect(String(next.messages.at(-1)?.content)).toBe("Hi 0");
+
+    const unknown = resolveSessionGraph(host, await sessionOn("9", host));
+    expect(unknown.graphApp).toBe(host.graphApp);
+    expect(unknown.state.session_context.graph_version).toBe("2");
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("versionFlow@9"));
+
+    const legacy = resolveSessionGraph(host, await sessionOn(null, host));
+    expect(legacy.state.session_context.graph_version).toBe("2");
+  });
+
+  it("rejects migrations that do not lead to graph.version", async () => {
+    const { parseGraphDslFromText } = await import("../../langgraph/schema/graph-loader.js");
+    const { preflightReferenceValidation } = await import("../../langgraph/schema/graph-compiler.js");
+    const { withGraphRegistry } = await import("../../langgraph/schema/handler-registry.js");
+    const dsl = parseGraphDslFromText(
+      flowYaml("3", `${MIGRATIONS}  - from: "2"\n    to: "1"\n    statePaths: { "nope.x": "user_context.y" }\n`)
+    );
+    const issues = withGraphRegistry("versionFlow", () => preflightReferenceValidation(dsl));
+    const messages = issues.filter((i) => i.code === "invalid-migration").map((i) => i.message);
+    expect(messages).toEqual([
+      'Migration #0 (1 -> 2) does not lead to graph.version "3".',
+      'Migration #1 (2 -> 1) does not lead to graph.version "3".',
+      'Migration #1 (2 -> 1) moves state path "nope.x" which is not a state field.',
+    ]);
+  });
+});
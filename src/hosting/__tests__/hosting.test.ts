@@ -0,0 +1,160 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+
+describe("multi-app hosting", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) await new Promise((resolve) => server!.close(resolve));
+    server = undefined;
+  });
+
+  async function setup(ttlMs?: number) {
+    const express = (await import("express")).default;
+    const { discoverAppConfigs } = await import("../../config/appConfig.js");
+    const { buildHostedApps, deleteExpiredThreads } = await import("../hosted-apps.js");
+    const { createHostingRouter } = await import("../app-router.js");
+    const { createCheckpointer } = await import("../../langgraph/graph.js");
+    const { InMemorySessionStore } = await import("../../sessions/index.js");
+
+    const [base] = discoverAppConfigs();
+    const configs = [
+      base,
+      { ...base, appId: "second-app", template: "chatbot2" },
+      { ...base, tenantId: "other-tenant" },
+    ];
+    const hostedApps = buildHostedApps(configs, { createCheckpointer });
+    const store = new InMemorySessionStore({ ttlMs, onExpire: deleteExpiredThreads(hostedApps) });
+
+    const app = express();
+    app.use(express.json());
+    app.use(createHostingRouter(hostedApps, store));
+    server = app.listen(0);
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return { hostedApps, store, origin, base };
+  }
+
+  it("gives apps that share a flow their own graph and checkpointer", async () => {
+    const { hostedApps } = await setup();
+    expect(hostedApps).toHaveLength(3);
+    expect(hostedApps[0].flowPath).toBe(hostedApps[1].flowPath);
+    expect(hostedApps[0].graphApp.checkpointer).not.toBe(hostedApps[1].graphApp.checkpointer);
+    expect(hostedApps[1].templatePath).toMatch(/templates\/chatbot2$/);
+  });
+
+  it("keeps threads of the same session id apart across tenants", async () => {
+    const { origin, base } = await setup();
+    const tenantA = `${origin}/apps/${base.tenantId}/${base.appId}`;
+    const tenantB = `${origin}/apps/other-tenant/${base.appId}`;
+    for (const prefix of [tenantA, tenantB]) {
+      const res = await fetch(`${prefix}/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: "start", sessionId: "x" }),
+      });
+      expect(res.status).toBe(200);
+    }
+
+    expect((await fetch(`${tenantA}/v1/sessions/x`, { method: "DELETE" })).status).toBe(204);
+    expect((await fetch(`${tenantA}/v1/sessions/x/checkpoints`)).status).toBe(404);
+    const checkpoints = await fetch(`${tenantB}/v1/sessions/x/checkpoints`);
+    expect(checkpoints.status).toBe(200);
+    expect((await checkpoints.json()).checkpoints.length).toBeGreaterThan(0);
+  });
+
+  it("keeps pending signals of the same session id apart across apps", async () => {
+    const { createInitialState } = await import("../../langgraph/graph.js");
+    const { pendingSignalKey, setPendingSignal } = await import("../../langgraph/core/agents/signal-store.js");
+    const { origin, base, store } = await setup();
+    const tenantA = `${origin}/apps/${base.tenantId}/${base.appId}`;
+    const tenantB = `${origin}/apps/other-tenant/${base.appId}`;
+    const chat = (prefix: string) =>
+      fetch(`${prefix}/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: "start", sessionId: "x" }),
+      });
+    const { relationship_context } = createInitialState({ sessionId: "x" });
+    setPendingSignal(pendingSignalKey(`${base.tenantId}/${base.appId}`, "x"), { ...relationship_context, engagement_score: 0.91 });
+
+    expect((await chat(tenantB)).status).toBe(200);
+    const other = await store.get(`other-tenant/${base.appId}/x`);
+    expect(other!.state.relationship_context.engagement_score).not.toBe(0.91);
+    expect((await fetch(`${tenantB}/v1/sessions/x`, { method: "DELETE" })).status).toBe(204);
+
+    expect((await chat(tenantA)).status).toBe(200);
+    const own = await store.get(`${base.tenantId}/${base.appId}/x`);
+    expect(own!.state.relationship_context.engagement_score).toBe(0.91);
+  });
+
+  it("deletes the checkpoint thread of a session the store expires", async () => {
+    const { getThreadHistory } = await import("../../langgraph/graph.js");
+    const { origin, base, store, hostedApps } = await setup(60_000);
+    const tenantA = `${origin}/apps/${base.tenantId}/${base.appId}`;
+    const tenantB = `${origin}/apps/other-tenant/${base.appId}`;
+    for (const prefix of [tenantA, tenantB]) {
+      await fetch(`${prefix}/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: "start", sessionId: "idle" }),
+      });
+    }
+    // Only tenant A's record is left to expire; tenant B's thread under the same id must survive.
+    await store.delete(`other-tenant/${base.appId}/idle`);
+
+    const { updatedAt } = (await store.get(`${base.tenantId}/${base.appId}/idle`))!;
+    expect(await store.purgeExpired(updatedAt + 60_001)).toBe(1);
+    expect(await getThreadHistory(hostedApps[0].graphApp, "idle")).toEqual([]);
+    expect((await getThreadHistory(hostedApps[2].graphApp, "idle")).length).toBeGreaterThan(0);
+    store.close();
+  });
+
+  it("answers 500 when the session store fails while serving a readout", async () => {
+    const { jest } = await import("@jest/globals");
+    const { origin, base, store } = await setup();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(store, "get").mockRejectedValue(new Error("corrupt session file"));
+
+    const res = await fetch(`${origin}/apps/${base.tenantId}/${base.appId}/readout/s-1.md`);
+    expect(res.status).toBe(500);
+    expect(await res.text()).toBe("Error processing request.");
+    jest.restoreAllMocks();
+  });
+
+  it("routes by path prefix and by header, scoping sessions per app", async () => {
+    const { origin, base, store } = await setup();
+    const create = (url: string, headers: Record<string, string> = {}) =>
+      fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ sessionId: "shared-id" }),
+      });
+
+    const viaPrefix = await create(`${origin}/apps/${base.tenantId}/second-app/v1/sessions`);
+    expect(viaPrefix.status).toBe(201);
+    const body = await viaPrefix.json();
+    expect(body).toMatchObject({ tenantId: base.tenantId, appId: "second-app" });
+
+    const viaHeader = await create(`${origin}/v1/sessions`, { "X-Tenant-Id": base.tenantId, "X-App-Id": base.appId });
+    expect(viaHeader.status).toBe(201);
+    expect((await viaHeader.json()).appId).toBe(base.appId);
+
+    const record = await store.get(`${base.tenantId}/second-app/shared-id`);
+    expect(record?.state.session_context.tenant_id).toBe(base.tenantId);
+    expect(await store.get(`${base.tenantId}/${base.appId}/shared-id`)).not.toBeNull();
+  });
+
+  it("serves each app's template and rejects unknown apps", async () => {
+    const { origin, base } = await setup();
+    const redirect = await fetch(`${origin}/apps/${base.tenantId}/second-app`, { redirect: "manual" });
+    expect(redirect.status).toBe(301);
+    expect(redirect.headers.get("location")).toBe(`/apps/${base.tenantId}/second-app/`);
+
+    const page = await fetch(`${origin}/apps/${base.tenantId}/second-app/`);
+    expect(page.status).toBe(200);
+    expect(await page.text()).toContain("js/chat.js");
+
+    expect((await fetch(`${origin}/apps/${base.tenantId}/nope/`)).status).toBe(404);
+    expect((await fetch(`${origin}/v1/sessions/x`, { headers: { "X-Tenant-Id": "nope", "X-App-Id": "nope" } })).status).toBe(404);
+  });
+});
@@ -0,0 +1,203 @@
+import path from "node:path";
+import express, { Router, type NextFunction, type Request, type Response } from "express";
+import { AIMessage } from "@langchain/core/messages";
+import { getThreadState, graphContextOf, runTurn, type CfsState, type TurnEventListener } from "../langgraph/graph.js";
+import { computeFlowProgress } from "../langgraph/infra.js";
+import { getOptionsForQuestionKey } from "../langgraph/core/options/resolve-options.js";
+import { runWithGraphContext } from "../langgraph/core/config/graph-context.js";
+import { scopeSessionStore, type SessionStore } from "../sessions/index.js";
+import { createSessionsRouter } from "../api/sessions-router.js";
+import { messageContentToText } from "../api/transcript.js";
+import {
+  APP_HEADER,
+  TENANT_HEADER,
+  createSessionState,
+  findHostedApp,
+  resolveDefaultApp,
+  resolveSessionGraph,
+  sessionNamespace,
+  type HostedApp,
+} from "./hosted-apps.js";
+
+interface ChatRequestBody {
+  message?: string;
+  sessionId?: string;
+  /** Resume the session from this checkpoint (see GET /v1/sessions/:sessionId/checkpoints). */
+  checkpointId?: string;
+}
+
+type ChatTurnResult = {
+  response: string;
+  flowProgress: ReturnType<typeof computeFlowProgress>;
+  options: Awaited<ReturnType<typeof getOptionsForQuestionKey>>;
+};
+
+/**
+ * Every route one app serves: its template, /chat, /chat/stream, readouts and
+ * /v1/sessions. Sessions live in `store` under a tenant/app namespace.
+ */
+export function createAppRouter(host: HostedApp, store: SessionStore): Router {
+  const sessionStore = scopeSessionStore(store, sessionNamespace(host));
+  const router = Router();
+
+  // Flow-progress and option lookups outside runTurn read config from the graph context.
+  // host.graphApp is read per request so a hot-reloaded flow takes effect immediately.
+  router.use((_req, _res, next) => runWithGraphContext(graphContextOf(host.graphApp), next));
+
+  router.use(express.static(host.templatePath));
+  router.use("/v1/sessions", createSessionsRouter({ store: sessionStore, app: host }));
+
+  router.get("/", (_req: Request, res: Response) => {
+    res.sendFile(path.join(host.templatePath, "index.html"));
+  });
+
+  /** Run one chat turn for a request body. Returns null when `checkpointId` does not exist. */
+  async function executeChatTurn(
+    { message, sessionId, checkpointId }: ChatRequestBody & { message: string },
+    onEvent?: TurnEventListener
+  ): Promise<ChatTurnResult | null> {
+    const sessionKey = sessionId || "default-thread";
+    const storedState: CfsState | null = checkpointId
+      ? await getThreadState(host.graphApp, sessionKey, checkpointId)
+      : (await sessionStore.get(sessionKey))?.state ?? createSessionState(host, sessionKey);
+    if (!storedState) return null;
+    const { graphApp, state: existingState } = resolveSessionGraph(host, storedState);
+    const prevLen = existingState.messages.length;
+
+    const userInput = message === "start" && prevLen === 0 ? undefined : message;
+    const nextState = await runTurn(graphApp, existingState, userInput, {
+      checkpointId,
+      onEvent,
+      budget: host.llmBudget,
+      signalScope: sessionNamespace(host),
+    });
+    await sessionStore.set(sessionKey, nextState);
+
+    const newMessages = nextState.messages.slice(prevLen).filter((m) => m instanceof AIMessage);
+    const content =
+      newMessages
+        .map((m) => messageContentToText(m.content))
+        .filter(Boolean)
+        .join("\n\n") || "Sorry, I could not process the response.";
+
+    const flowProgress = computeFlowProgress(nextState);
+    const options = await getOptionsForQuestionKey(nextState.session_context.last_question_key, nextState);
+
+    return { response: content, flowProgress, options };
+  }
+
+  router.post("/chat", async (req: Request<unknown, unknown, ChatRequestBody>, res: Response) => {
+    const { message } = req.body || {};
+    if (!message) {
+      return res.status(400).json({ response: "Please provide a message." });
+    }
+    try {
+      const result = await executeChatTurn({ ...req.body, message });
+      if (!result) {
+        return res.status(404).json({ response: "Checkpoint not found." });
+      }
+      return res.json(result);
+    } catch (error: any) {
+      console.error("Chat error:", error);
+      return res.status(500).json({
+        response: "Error processing request",
+        error: error?.message,
+      });
+    }
+  });
+
+  /**
+   * Server-sent events variant of /chat. Emits `node_start`, `node_end`, `token`
+   * and `progress` while the graph runs, then `done` with the same payload /chat
+   * returns (or `error`).
+   */
+  router.post("/chat/stream", async (req: Request<unknown, unknown, ChatRequestBody>, res: Response) => {
+    const { message } = req.body || {};
+    if (!message) {
+      return res.status(400).json({ response: "Please provide a message." });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const result = await executeChatTurn({ ...req.body, message }, (event) => {
+        if (event.type === "state") {
+          send("progress", { flowProgress: computeFlowProgress(event.state) });
+        } else {
+          const { type, ...data } = event;
+          send(type, data);
+        }
+      });
+      if (result) {
+        send("done", result);
+      } else {
+        send("error", { response: "Checkpoint not found." });
+      }
+    } catch (error: any) {
+      console.error("Chat stream error:", error);
+      send("error", { response: "Error processing request", error: error?.message });
+    }
+    res.end();
+  });
+
+  router.get("/readout/:sessionId.md", async (req: Request, res: Response) => {
+    const { sessionId } = req.params;
+    try {
+      const state = (await sessionStore.get(sessionId))?.state;
+      if (!state?.readout_context?.rendered_outputs?.markdown) {
+        return res.status(404).send("Readout not found.");
+      }
+      res.setHeader("Content-Type", "text/markdown");
+      res.setHeader("Content-Disposition", `attachment; filename="readout-${sessionId}.md"`);
+      res.send(state.readout_context.rendered_outputs.markdown);
+    } catch (error) {
+      // Express 4 leaves a rejected handler promise unanswered; the file store can fail to read or parse.
+      console.error("Readout error:", error);
+      res.status(500).send("Error processing request.");
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Dispatch requests to the right app: `/apps/<tenantId>/<appId>/...` first,
+ * then the X-Tenant-Id/X-App-Id headers, then the default app.
+ */
+export function createHostingRouter(apps: HostedApp[], store: SessionStore): Router {
+  const appRouters = new Map(apps.map((host) => [host, createAppRouter(host, store)]));
+  const defaultApp = resolveDefaultApp(apps);
+  const router = Router();
+
+  const dispatch = (host: HostedApp | undefined, label: string, req: Request, res: Response, next: NextFunction) => {
+    if (!host) return res.status(404).json({ error: `Unknown app "${label}".` });
+    appRouters.get(host)!(req, res, next);
+  };
+
+  // Relative asset and API URLs in templates need the trailing slash.
+  router.get("/apps/:tenantId/:appId", (req: Request, res: Response, next: NextFunction) => {
+    const [pathname, query] = req.originalUrl.split("?");
+    if (pathname.endsWith("/")) return next();
+    res.redirect(301, `${pathname}/${query ? `?${query}` : ""}`);
+  });
+  router.use("/apps/:tenantId/:appId", (req: Request, res: Response, next: NextFunction) => {
+    const { tenantId, appId } = req.params;
+    dispatch(findHostedApp(apps, tenantId, appId), `${tenantId}/${appId}`, req, res, next);
+  });
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    const tenantId = req.header(TENANT_HEADER);
+    const appId = req.header(APP_HEADER);
+    const host = tenantId && appId ? findHostedApp(apps, tenantId, appId) : defaultApp;
+    dispatch(host, `${tenantId}/${appId}`, req, res, next);
+  });
+
+  return router;
+}
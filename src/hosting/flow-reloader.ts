@@ -0,0 +1,190 @@
+import { watch, type FSWatcher } from "node:fs";
+import path from "node:path";
+import { Router, type Request, type Response } from "express";
+import type { BaseCheckpointSaver } from "@langchain/langgraph-checkpoint";
+import { buildGraphFromSchema } from "../langgraph/graph.js";
+import { loadGraphDsl } from "../langgraph/schema/graph-loader.js";
+import { getRetainedFlowPaths } from "../config/appConfig.js";
+import type { HostedApp } from "./hosted-apps.js";
+
+/** Development only: FLOW_HOT_RELOAD=true recompiles flows when their YAML changes. */
+export function isFlowHotReloadEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.FLOW_HOT_RELOAD === "true";
+}
+
+export type FlowReloadStatus = {
+  flowPath: string;
+  graphId: string;
+  /** The flow file, its `$ref` targets and sub-flow files being watched. */
+  files: string[];
+  reloads: number;
+  lastReloadAt: string | null;
+  /** Error from the latest attempt; the previous graph keeps serving while it is set. */
+  error: string | null;
+  errorAt: string | null;
+};
+
+export type FlowReloader = {
+  /** Recompile a flow now. Returns false, keeping the current graph, when it fails to load or compile. */
+  reload(flowPath: string): boolean;
+  status(): FlowReloadStatus[];
+  close(): void;
+};
+
+export type FlowReloaderOptions = {
+  /** Quiet period after the last change before recompiling (editors write in bursts). */
+  debounceMs?: number;
+};
+
+/**
+ * Every file a flow is built from. Files read before a load error are kept so
+ * a broken flow is still watched for its fix.
+ */
+function flowSourceFiles(flowPath: string, files: Set<string> = new Set()): Set<string> {
+  try {
+    const dsl = loadGraphDsl(flowPath, files);
+    for (const node of dsl.nodes) {
+      const flowRef = node.nodeConfig?.subflow?.flowRef;
+      if (flowRef && !files.has(flowRef)) flowSourceFiles(flowRef, files);
+    }
+  } catch {
+    // Reported by the compile that follows.
+  }
+  return files;
+}
+
+type WatchedFlow = FlowReloadStatus & { hosts: HostedApp[]; timer: NodeJS.Timeout | null };
+
+/**
+ * Watches the flows of `apps` and swaps each app's `graphApp` when its flow
+ * recompiles. Compiling validates the DSL (schema and preflight) and registers
+ * its messaging config only on success, so a bad edit leaves the running graph
+ * and its config untouched. The new graph reuses the old checkpointer, so
+ * in-flight sessions carry on.
+ */
+export function watchHostedFlows(apps: HostedApp[], options: FlowReloaderOptions = {}): FlowReloader {
+  const debounceMs = options.debounceMs ?? 150;
+  const flows = new Map<string, WatchedFlow>();
+  for (const host of apps) {
+    const flow = flows.get(host.flowPath);
+    if (flow) {
+      flow.hosts.push(host);
+      continue;
+    }
+    flows.set(host.flowPath, {
+      flowPath: host.flowPath,
+      graphId: host.graphApp.graphId,
+      files: [...flowSourceFiles(host.flowPath)],
+      reloads: 0,
+      lastReloadAt: null,
+      error: null,
+      errorAt: null,
+      hosts: [host],
+      timer: null,
+    });
+  }
+
+  // Directories are watched rather than files: editors often save by replacing the file.
+  const watchers = new Map<string, FSWatcher>();
+  const syncWatchers = () => {
+    const dirs = new Set([...flows.values()].flatMap((f) => f.files.map((file) => path.dirname(file))));
+    for (const [dir, watcher] of watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+    for (const dir of dirs) {
+      if (watchers.has(dir)) continue;
+      watchers.set(
+        dir,
+        watch(dir, (_event, name) => {
+          if (name) onChange(path.join(dir, name.toString()));
+        })
+      );
+    }
+  };
+
+  const onChange = (file: string) => {
+    for (const flow of flows.values()) {
+      if (!flow.files.includes(file)) continue;
+      if (flow.timer) clearTimeout(flow.timer);
+      flow.timer = setTimeout(() => {
+        flow.timer = null;
+        reload(flow.flowPath);
+      }, debounceMs);
+    }
+  };
+
+  const reload = (flowPath: string): boolean => {
+    const flow = flows.get(flowPath);
+    if (!flow) throw new Error(`Flow is not hosted: ${flowPath}`);
+    flow.files = [...flowSourceFiles(flowPath)];
+    syncWatchers();
+    try {
+      // One graph per checkpointer: apps hosting the same flow keep their threads apart.
+      // Retained versions are rebuilt too, so an edited `version:` moves sessions onto the right graph.
+      const retainedFlowPaths = getRetainedFlowPaths(flowPath);
+      const graphs = new Map<BaseCheckpointSaver | undefined, Pick<HostedApp, "graphApp" | "retainedGraphs">>();
+      for (const { graphApp: { checkpointer } } of flow.hosts) {
+        if (graphs.has(checkpointer)) continue;
+        const graphApp = buildGraphFromSchema(flowPath, { checkpointer });
+        const retainedGraphs = retainedFlowPaths
+          .map((retainedPath) => buildGraphFromSchema(retainedPath, { checkpointer }))
+          .filter((graph) => graph.version !== graphApp.version);
+        graphs.set(checkpointer, { graphApp, retainedGraphs });
+      }
+      for (const host of flow.hosts) Object.assign(host, graphs.get(host.graphApp.checkpointer)!);
+      const { graphApp } = graphs.values().next().value!;
+      Object.assign(flow, {
+        graphId: graphApp.graphId,
+        reloads: flow.reloads + 1,
+        lastReloadAt: new Date().toISOString(),
+        error: null,
+        errorAt: null,
+      });
+      console.log(`[flow-reload] Reloaded ${flowPath} (graph "${graphApp.graphId}")`);
+      return true;
+    } catch (err) {
+      Object.assign(flow, { error: err instanceof Error ? err.message : String(err), errorAt: new Date().toISOString() });
+      console.error(`[flow-reload] Keeping previous graph for ${flowPath}: ${flow.error}`);
+      return false;
+    }
+  };
+
+  syncWatchers();
+
+  return {
+    reload,
+    status: () =>
+      [...flows.values()].map(({ flowPath, graphId, files, reloads, lastReloadAt, error, errorAt }) => ({
+        flowPath,
+        graphId,
+        files,
+        reloads,
+        lastReloadAt,
+        error,
+        errorAt,
+      })),
+    close: () => {
+      for (const flow of flows.values()) if (flow.timer) clearTimeout(flow.timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
+
+/** GET / reports each watched flow; POST /reload recompiles them all now. */
+export function createFlowReloadRouter(reloader: FlowReloader): Router {
+  const router = Router();
+  const report = (res: Response) => {
+    const flows = reloader.status();
+    res.json({ ok: flows.every((f) => f.error === null), flows });
+  };
+  router.get("/", (_req: Request, res: Response) => report(res));
+  router.post("/reload", (_req: Request, res: Response) => {
+    for (const flow of reloader.status()) reloader.reload(flow.flowPath);
+    report(res);
+  });
+  return router;
+}
@@ -0,0 +1,161 @@
+import type { BaseCheckpointSaver } from "@langchain/langgraph-checkpoint";
+import {
+  buildGraphFromSchema,
+  createInitialState,
+  deleteThread,
+  stateSchemaOf,
+  type CfsState,
+  type CompiledGraph,
+} from "../langgraph/graph.js";
+import { clearPendingSignal, pendingSignalKey } from "../langgraph/core/agents/signal-store.js";
+import { migrateSessionState } from "../langgraph/schema/flow-migrations.js";
+import type { LlmBudget } from "../langgraph/core/usage/index.js";
+import { getTemplatePath, type ResolvedAppConfig } from "../config/appConfig.js";
+
+/** Request headers that select an app when the path carries no /apps/<tenant>/<app> prefix. */
+export const TENANT_HEADER = "x-tenant-id";
+export const APP_HEADER = "x-app-id";
+
+/** One app served by this process: its compiled flow, template and identity. */
+export type HostedApp = {
+  tenantId: string;
+  appId: string;
+  flowId: string | null;
+  /** flow.yaml this app's graph was compiled from. */
+  flowPath: string;
+  template: string;
+  templatePath: string;
+  uiOverrides: Record<string, unknown>;
+  /** Tenant's per-session LLM budget, if any. */
+  llmBudget: LlmBudget | null;
+  /** Replaced in place when the flow is hot-reloaded; read it per request. */
+  graphApp: CompiledGraph;
+  /** Older flow versions still serving the sessions that started on them (see resolveSessionGraph). */
+  retainedGraphs: CompiledGraph[];
+};
+
+export type BuildHostedAppsOptions = {
+  /** Called once per app; each app's threads live in its own checkpointer. */
+  createCheckpointer?: () => BaseCheckpointSaver;
+};
+
+/**
+ * Compile the flow of every app config. Thread ids are plain session ids, so
+ * apps with a checkpointer each get their own compiled graph; without one,
+ * apps that reference the same flow.yaml share a graph.
+ */
+export function buildHostedApps(configs: ResolvedAppConfig[], options: BuildHostedAppsOptions = {}): HostedApp[] {
+  const sharedGraphs = new Map<string, CompiledGraph>();
+  return configs.map((config) => {
+    const checkpointer = options.createCheckpointer?.();
+    const graphs = checkpointer ? new Map<string, CompiledGraph>() : sharedGraphs;
+    const compile = (flowPath: string) => {
+      let graph = graphs.get(flowPath);
+      if (!graph) {
+        graph = buildGraphFromSchema(flowPath, { checkpointer });
+        graphs.set(flowPath, graph);
+      }
+      return graph;
+    };
+    const graphApp = compile(config.flowPath);
+    // Retained versions share the current graph's checkpointer so a thread survives an upgrade.
+    const retainedGraphs = (config.retainedFlowPaths ?? [])
+      .map((flowPath) => compile(flowPath))
+      .filter((graph) => graph.version !== graphApp.version);
+    return {
+      tenantId: config.tenantId,
+      appId: config.appId,
+      flowId: config.flowId,
+      flowPath: config.flowPath,
+      template: config.template,
+      templatePath: getTemplatePath(config.template),
+      uiOverrides: config.uiOverrides,
+      llmBudget: config.llmBudget ?? null,
+      graphApp,
+      retainedGraphs,
+    };
+  });
+}
+
+export function findHostedApp(apps: HostedApp[], tenantId: string, appId: string): HostedApp | undefined {
+  return apps.find((app) => app.tenantId === tenantId && app.appId === appId);
+}
+
+/** Key prefix under which an app's sessions live in the shared session store. */
+export function sessionNamespace(app: Pick<HostedApp, "tenantId" | "appId">): string {
+  return `${app.tenantId}/${app.appId}`;
+}
+
+/**
+ * `onExpire` hook for the shared session store: maps an expired store key back
+ * to its app and deletes the session's checkpoint thread and pending signal.
+ * Retained graphs share the app's checkpointer, so one delete covers every flow version.
+ */
+export function deleteExpiredThreads(apps: HostedApp[]): (sessionKey: string) => Promise<void> {
+  return async (sessionKey) => {
+    const app = apps.find((candidate) => sessionKey.startsWith(`${sessionNamespace(candidate)}/`));
+    if (!app) return;
+    const sessionId = sessionKey.slice(sessionNamespace(app).length + 1);
+    clearPendingSignal(pendingSignalKey(sessionNamespace(app), sessionId));
+    await deleteThread(app.graphApp, sessionId);
+  };
+}
+
+/**
+ * App served for requests without a prefix or selection headers:
+ * TENANT_ID/APP_ID when both are set, otherwise the first discovered app.
+ */
+export function resolveDefaultApp(apps: HostedApp[], env: NodeJS.ProcessEnv = process.env): HostedApp | undefined {
+  const configured = env.TENANT_ID && env.APP_ID ? findHostedApp(apps, env.TENANT_ID, env.APP_ID) : undefined;
+  return configured ?? apps[0];
+}
+
+/**
+ * Fresh session state stamped with the app's tenant, graph and graph version,
+ * including the defaults of the flow's declared state slices.
+ */
+export function createSessionState(app: Pick<HostedApp, "tenantId" | "graphApp">, sessionId: string): CfsState {
+  const state = createInitialState({ sessionId });
+  return stateSchemaOf(app.graphApp).parse({
+    ...state,
+    session_context: {
+      ...state.session_context,
+      tenant_id: app.tenantId,
+      graph_id: app.graphApp.graphId,
+      graph_version: app.graphApp.version ?? null,
+    },
+  });
+}
+
+const stampVersion = (state: CfsState, version: string | null): CfsState => ({
+  ...state,
+  session_context: { ...state.session_context, graph_version: version },
+});
+
+/**
+ * Graph a session's next turn runs on, and its state after any upgrade.
+ * Sessions on the current version use the current graph; older ones are
+ * migrated when the flow declares a chain from their version, and otherwise
+ * stay on the retained graph of their version. Sessions with no version, or
+ * one that is neither migratable nor retained, are stamped current.
+ */
+export function resolveSessionGraph(
+  app: Pick<HostedApp, "graphApp" | "retainedGraphs">,
+  state: CfsState
+): { graphApp: CompiledGraph; state: CfsState } {
+  const current = app.graphApp;
+  const version = state.session_context.graph_version;
+  if (!current.version || version === current.version) return { graphApp: current, state };
+  if (version == null) return { graphApp: current, state: stampVersion(state, current.version) };
+
+  const migrated = migrateSessionState(state, current.migrations ?? [], current.version);
+  if (migrated) return { graphApp: current, state: migrated };
+  const retained = app.retainedGraphs.find((graph) => graph.version === version);
+  if (retained) return { graphApp: retained, state };
+
+  console.warn(
+    `[flow-version] Session "${state.session_context.session_id}" is on ${current.graphId}@${version}, which is ` +
+      `neither retained nor migratable to ${current.version}; continuing on ${current.version}.`
+  );
+  return { graphApp: current, state: stampVersion(state, current.version) };
+}
@@ -0,0 +1,58 @@
+describe("checkpointed threads", () => {
+  async function setup() {
+    const { buildGraphFromSchema, createCheckpointer, createInitialState } = await import("../graph.js");
+    const { getDefaultFlowPath } = await import("../../config/appConfig.js");
+    const graphApp = buildGraphFromSchema(getDefaultFlowPath(), { checkpointer: createCheckpointer() });
+    return { graphApp, initial: createInitialState({ sessionId: "thread-1" }) };
+  }
+
+  it("records each turn on the session's thread", async () => {
+    const { runTurn, getThreadState, getThreadHistory } = await import("../graph.js");
+    const { graphApp, initial } = await setup();
+
+    const afterInit = await runTurn(graphApp, initial, undefined);
+    const afterSelection = await runTurn(graphApp, afterInit, "Data governance");
+
+    const head = await getThreadState(graphApp, "thread-1");
+    expect(head?.session_context.last_question_key).toBe("CONFIRM_START");
+    expect(head?.messages).toHaveLength(afterSelection.messages.length);
+    expect(head?.messages.at(-1)?.content).toBe(afterSelection.messages.at(-1)?.content);
+
+    const history = await getThreadHistory(graphApp, "thread-1");
+    expect(history.length).toBeGreaterThan(2);
+    expect(history[0].lastQuestionKey).toBe("CONFIRM_START");
+    expect(history.some((c) => c.lastQuestionKey === "S1_USE_CASE_GROUP" && c.next.length === 0)).toBe(true);
+
+    expect(await getThreadState(graphApp, "unknown-thread")).toBeNull();
+  });
+
+  it("resumes from an earlier checkpoint without losing later history", async () => {
+    const { runTurn, getThreadHistory } = await import("../graph.js");
+    const { graphApp, initial } = await setup();
+
+    const afterInit = await runTurn(graphApp, initial, undefined);
+    const afterSelection = await runTurn(graphApp, afterInit, "Data governance");
+    await runTurn(graphApp, afterSelection, "yes");
+
+    const history = await getThreadHistory(graphApp, "thread-1");
+    const endOfFirstTurn = history.find((c) => c.lastQuestionKey === "S1_USE_CASE_GROUP" && c.next.length === 0);
+    expect(endOfFirstTurn).toBeDefined();
+
+    const forked = await runTurn(graphApp, afterInit, "Customer experience", {
+      checkpointId: endOfFirstTurn!.checkpointId,
+    });
+    expect(forked.use_case_context.use_case_groups).toEqual(["Customer experience"]);
+    expect(forked.session_context.last_question_key).toBe("CONFIRM_START");
+    expect(forked.messages).toHaveLength(afterSelection.messages.length);
+
+    const after = await getThreadHistory(graphApp, "thread-1");
+    expect(after.length).toBeGreaterThan(history.length);
+    expect(after.some((c) => c.checkpointId === history[0].checkpointId)).toBe(true);
+  });
+
+  it("rejects unknown checkpoints", async () => {
+    const { runTurn } = await import("../graph.js");
+    const { graphApp, initial } = await setup();
+    await expect(runTurn(graphApp, initial, "hi", { checkpointId: "missing" })).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,157 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "custom-signals-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const flowYaml = (custom: string) => `
+schemaVersion: 2
+graph: { graphId: urgencyFlow, version: "1.0", entrypoint: greet }
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: greet
+    kind: question
+    nodeConfig:
+      greeting: { stringKeys: [hello] }
+transitions:
+  static:
+    - { from: greet, to: "__end__" }
+config:
+  aiPrompts: { base: "prompt" }
+  strings: { hello: "Next question." }
+  signalAgents:
+    enabled: true
+    custom:
+${custom}
+  overlayRules:
+    - when: { signal_gte: { urgency: 0.7 } }
+      overlay: CTO_Consultative
+`;
+
+const URGENCY = `      urgency:
+        agentRef: urgencyFlow.urgency
+        weight: 0.5
+        actions:
+          urgency_high: [{ type: fast_track, priority: high }]
+      broken: { agentRef: urgencyFlow.broken }
+      noisy: { agentRef: urgencyFlow.noisy }`;
+
+async function registerAgents() {
+  const { registerHandlerModule } = await import("../schema/graph-handler-modules.js");
+  const { registerSignalAgent } = await import("../schema/handler-registry.js");
+  registerHandlerModule("urgencyFlow", () => {
+    registerSignalAgent("urgencyFlow.urgency", {
+      score: (ctx) => ({ score: /asap/i.test(ctx.userText) ? 0.9 : 0.2, confidence: 1 }),
+      detectEvents: (scores) => (scores.at(-1)! > 0.8 ? [{ type: "urgency_high", details: { score: scores.at(-1) } }] : []),
+    });
+    registerSignalAgent("urgencyFlow.noisy", {
+      score: () => ({ score: 0.5, confidence: 1 }),
+      detectEvents: () => undefined as never,
+    });
+    registerSignalAgent("urgencyFlow.broken", {
+      score: () => {
+        throw new Error("boom");
+      },
+    });
+  });
+}
+
+describe("custom signal agents", () => {
+  it("scores, smooths and weighs custom dimensions and maps their events to actions", async () => {
+    const { buildGraphFromSchema, createInitialState, graphContextOf } = await import("../graph.js");
+    const { runSignalOrchestrator } = await import("../core/agents/index.js");
+    await registerAgents();
+    const file = path.join(dir, "flow.yaml");
+    writeFileSync(file, flowYaml(URGENCY));
+    const config = graphContextOf(buildGraphFromSchema(file)).messaging!.signalAgents!;
+    expect(config.custom?.map((c) => c.dimension)).toEqual(["urgency", "broken", "noisy"]);
+
+    const result = (await runSignalOrchestrator("We need this ASAP", createInitialState({ sessionId: "u-1" }), config))!;
+    // EMA from the 0.5 default with alpha 0.25 (confidence 1); the throwing agent is skipped,
+    // and a detector that returns no list does not cost the turn its signals.
+    expect(result.custom_scores).toEqual({ urgency: 0.6, noisy: 0.5 });
+    expect(result.signal_history[0].custom).toEqual({ urgency: 0.9, noisy: 0.5 });
+    expect(result.signal_events).toContainEqual(
+      expect.objectContaining({ type: "urgency_high", details: { dimension: "urgency", score: 0.9 } })
+    );
+    expect(result.signal_actions).toContainEqual(expect.objectContaining({ type: "fast_track", priority: "high" }));
+
+    const builtin = 0.3 * result.engagement_score + 0.25 * result.sentiment_score + 0.25 * result.trust_score + 0.2 * result.intent_score;
+    expect(result.overall_conversation_score).toBeCloseTo((builtin + 0.5 * 0.6) / 1.5);
+
+    // Analytics report the per-turn overall score weighed the same way.
+    const { buildSignalTimeline } = await import("../../api/signal-analytics.js");
+    const turn = result.signal_history[0];
+    const rawBuiltin = 0.3 * turn.engagement + 0.25 * turn.sentiment + 0.25 * turn.trust + 0.2 * turn.intent;
+    expect(turn.overall).toBeCloseTo((rawBuiltin + 0.5 * 0.9) / 1.5);
+    const state = createInitialState({ sessionId: "u-1" });
+    const timeline = buildSignalTimeline({ ...state, relationship_context: { ...state.relationship_context, ...result } });
+    expect(timeline.turns[0].overall).toBeCloseTo(turn.overall!, 3);
+  });
+
+  it("lets when clauses test custom dimensions", async () => {
+    const { evaluateWhen } = await import("../core/routing/condition-predicates.js");
+    const { createInitialState } = await import("../graph.js");
+    const state = createInitialState({ sessionId: "u-2" });
+    state.relationship_context.custom_scores = { urgency: 0.8 };
+
+    expect(evaluateWhen(state, { signal_gte: { urgency: 0.7 } }, {})).toBe(true);
+    expect(evaluateWhen(state, { signal_gte: { budget: 0.1 } }, {})).toBe(false);
+  });
+
+  it("rejects unregistered agents, built-in dimension names and unknown dimensions in rules", async () => {
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const { preflightReferenceValidation } = await import("../schema/graph-compiler.js");
+    const { withGraphRegistry } = await import("../schema/handler-registry.js");
+    const { registerHandlersForGraph } = await import("../schema/graph-handler-modules.js");
+    await registerAgents();
+    registerHandlersForGraph("urgencyFlow");
+    const preflight = (yaml: string) =>
+      withGraphRegistry("urgencyFlow", () => preflightReferenceValidation(parseGraphDslFromText(yaml)));
+
+    expect(preflight(flowYaml(URGENCY))).toEqual([]);
+    const issues = preflight(flowYaml("      trust: { agentRef: urgencyFlow.missing }"));
+    expect(issues.map((i) => i.code)).toEqual(["invalid-when-value", "invalid-signal-agent", "unregistered-signal-agent"]);
+    expect(issues[1].message).toBe('Custom signal dimension "trust" is built in.');
+  });
+
+  it("lets the JSON schema accept custom agents and their dimensions in signal thresholds", async () => {
+    const { readFileSync } = await import("node:fs");
+    const { Validator } = await import("@cfworker/json-schema");
+    const YAML = (await import("yaml")).default;
+    const schema = JSON.parse(readFileSync(new URL("../schema/graphDslJsonSchema.json", import.meta.url), "utf8"));
+    const validate = (custom: string) =>
+      new Validator(schema, "7", false).validate(
+        YAML.parse(`
+schemaVersion: 2
+graph: { graphId: urgencyFlow, version: "1.0", entrypoint: greet }
+stateContractRef: state.CfsStateSchema
+nodes:
+  - { id: greet, kind: question, handlerRef: urgencyFlow.greet }
+transitions:
+  static:
+    - { from: greet, to: "__end__" }
+config:
+  signalAgents:
+    enabled: true
+    custom:
+${custom}
+  overlayRules:
+    - when: { signal_gte: { urgency: 0.7 } }
+      overlay: CTO_Consultative
+`)
+      );
+
+    expect(validate(URGENCY).errors).toEqual([]);
+    expect(validate("      Urgency: { agentRef: urgencyFlow.urgency }").valid).toBe(false);
+    expect(validate("      urgency: { weight: 0.5 }").valid).toBe(false);
+  });
+});
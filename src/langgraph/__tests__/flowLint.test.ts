@@ -0,0 +1,89 @@
+import { jest } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "flow-lint-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const BROKEN_FLOW = `
+schemaVersion: 2
+graph:
+  graphId: lintFlow
+  version: "1.0"
+  entrypoint: ask
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: ask
+    kind: question
+    nodeConfig:
+      question: { stringKey: missing_string, questionKey: Q1 }
+  - id: score
+    kind: compute
+    nodeConfig:
+      aiCompute: { modelAlias: readout, systemPromptKey: missingPrompt, responseParser: json, outputPath: x }
+  - id: custom
+    kind: compute
+    handlerRef: lintFlow.notRegistered
+transitions:
+  static:
+    - { from: ask, to: score }
+    - { from: score, to: custom }
+  conditional:
+    - { from: custom, routerRef: lintFlow.noRouter, destinations: { done: __end__ } }
+config:
+  aiPrompts: { known: "prompt" }
+  strings: { known: "text" }
+`;
+
+describe("flow lint", () => {
+  it("reports the default CFS flow as free of errors", async () => {
+    const { lintFlowFile } = await import("../schema/graph-lint.js");
+    const { getDefaultFlowPath } = await import("../../config/appConfig.js");
+    const report = lintFlowFile(getDefaultFlowPath());
+    expect(report.graphId).toBe("cfs");
+    expect(report.issues.filter((i) => i.severity === "error")).toEqual([]);
+    expect(report.ok).toBe(true);
+  });
+
+  it("collects unknown string keys, missing prompts and unregistered refs as errors", async () => {
+    const { registerHandlerModule } = await import("../schema/graph-handler-modules.js");
+    const { lintFlowFile } = await import("../schema/graph-lint.js");
+    registerHandlerModule("lintFlow", () => {});
+    const file = path.join(dir, "flow.yaml");
+    writeFileSync(file, BROKEN_FLOW);
+
+    const report = lintFlowFile(file);
+    expect(report.ok).toBe(false);
+    const codes = report.issues.filter((i) => i.severity === "error").map((i) => i.code);
+    expect(codes).toEqual(
+      expect.arrayContaining(["unknown-string-key", "missing-ai-prompt", "unregistered-handler", "unregistered-router"])
+    );
+    expect(report.issues.find((i) => i.code === "unknown-string-key")?.message).toContain('"missing_string"');
+  });
+
+  it("prints JSON reports and exits non-zero when any file has errors", async () => {
+    const { runFlowCommand } = await import("../../cli/flow.js");
+    const file = path.join(dir, "invalid.yaml");
+    writeFileSync(file, "schemaVersion: 2\ngraph: {}\n");
+
+    let output = "";
+    const code = runFlowCommand(["lint", file], (text) => (output += text));
+    expect(code).toBe(1);
+    const parsed = JSON.parse(output);
+    expect(parsed.ok).toBe(false);
+    expect(parsed.reports[0]).toMatchObject({ file, graphId: null, ok: false });
+    expect(parsed.reports[0].issues[0].code).toBe("invalid-schema");
+
+    const stderr = jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+    expect(runFlowCommand(["lint"], () => {})).toBe(2);
+    stderr.mockRestore();
+  });
+});
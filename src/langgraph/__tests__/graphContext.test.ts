@@ -0,0 +1,70 @@
+import type { GraphMessagingConfig } from "../state.js";
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("graph context", () => {
+  it("keeps messaging config and model aliases separate across concurrent invocations", async () => {
+    process.env.OPENAI_API_KEY = "test-key";
+    const { runWithGraphContext, requireGraphMessagingConfig } = await import("../core/config/index.js");
+    const { getModel, clearModelCache } = await import("../core/config/model-factory.js");
+    clearModelCache();
+
+    const contextFor = (graphId: string, model: string) => ({
+      graphId,
+      messaging: { graphId } as unknown as GraphMessagingConfig,
+      models: { readout: { model, temperature: 0, maxRetries: 1 } },
+    });
+    const observe = (graphId: string, model: string) =>
+      runWithGraphContext(contextFor(graphId, model), async () => {
+        await tick();
+        const messaging = requireGraphMessagingConfig() as unknown as { graphId: string };
+        return { graphId: messaging.graphId, model: getModel("readout") };
+      });
+
+    const [a, b] = await Promise.all([observe("flowA", "gpt-4o"), observe("flowB", "gpt-4o-mini")]);
+    expect(a.graphId).toBe("flowA");
+    expect(b.graphId).toBe("flowB");
+    expect(a.model).not.toBe(b.model);
+    expect((await observe("flowC", "gpt-4o")).model).toBe(a.model);
+  });
+
+  it("falls back to config registered by graphId when the context has none", async () => {
+    const { runWithGraphContext, requireGraphMessagingConfig, setGraphMessagingConfig, clearGraphMessagingConfig } =
+      await import("../core/config/index.js");
+    clearGraphMessagingConfig();
+    const config = { graphId: "flowC" } as unknown as GraphMessagingConfig;
+    setGraphMessagingConfig("flowC", config);
+
+    const resolved = runWithGraphContext({ graphId: "flowC", messaging: null, models: {} }, () =>
+      requireGraphMessagingConfig()
+    );
+    expect(resolved).toBe(config);
+    expect(() => requireGraphMessagingConfig()).toThrow("No messaging config found for graphId: cfs");
+  });
+
+  it("scopes handler registrations per graph so shared refs do not clobber", async () => {
+    const { withGraphRegistry, registerHandler, resolveHandler, getRegisteredHandlerIds, clearRegistry } =
+      await import("../schema/handler-registry.js");
+    clearRegistry();
+
+    const handlerA = () => ({});
+    const handlerB = () => ({});
+    const shared = () => ({});
+    registerHandler("global.shared", shared);
+    withGraphRegistry("flowA", () => registerHandler("step.ask", handlerA));
+    withGraphRegistry("flowB", () => registerHandler("step.ask", handlerB));
+
+    expect(withGraphRegistry("flowA", () => resolveHandler("step.ask"))).toBe(handlerA);
+    expect(withGraphRegistry("flowB", () => resolveHandler("step.ask"))).toBe(handlerB);
+    expect(withGraphRegistry("flowB", () => resolveHandler("global.shared"))).toBe(shared);
+    expect(() => resolveHandler("step.ask")).toThrow("Handler not registered");
+    expect(getRegisteredHandlerIds().sort()).toEqual(["global.shared", "step.ask"]);
+    clearRegistry();
+  });
+});
@@ -0,0 +1,61 @@
+describe("graph diagrams", () => {
+  async function loadDefaultFlow() {
+    const { loadGraphDsl } = await import("../schema/graph-loader.js");
+    const { expandGraphDsl } = await import("../schema/graph-compiler.js");
+    const { getDefaultFlowPath } = await import("../../config/appConfig.js");
+    const dsl = loadGraphDsl(getDefaultFlowPath());
+    return { dsl, expanded: expandGraphDsl(dsl) };
+  }
+
+  it("renders every expanded node and edge as Mermaid, highlighting synthetic ingest nodes", async () => {
+    const { dslToMermaid } = await import("../schema/graph-diagram.js");
+    const { dsl, expanded } = await loadDefaultFlow();
+    const mermaid = dslToMermaid(dsl);
+
+    expect(mermaid.startsWith("flowchart TD\n")).toBe(true);
+    for (const node of expanded.nodes) expect(mermaid).toContain(`  ${node.id}`);
+    for (const st of expanded.transitions.static) {
+      expect(mermaid).toContain(`${st.from} --> ${st.to === "__end__" ? "END_NODE" : st.to}`);
+    }
+    const synthetic = expanded.nodes.filter((n) => !dsl.nodes.some((d) => d.id === n.id)).map((n) => n.id);
+    expect(synthetic.length).toBeGreaterThan(0);
+    expect(synthetic.every((id) => id.endsWith("_ingest"))).toBe(true);
+    expect(mermaid).toContain(`class ${synthetic.join(",")} synthetic`);
+    expect(mermaid).toMatch(/-\.->\|"awaiting_user && last_question_key=\w+"\| \w+_ingest/);
+  });
+
+  it("labels conditional edges with their when conditions in DOT", async () => {
+    const { dslToDot, describeWhen } = await import("../schema/graph-diagram.js");
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const dsl = parseGraphDslFromText(`
+schemaVersion: 2
+graph: { graphId: diagramFlow, version: "1.0", entrypoint: route }
+stateContractRef: state.CfsStateSchema
+nodes:
+  - { id: route, kind: router, handlerRef: x.route }
+  - { id: vip, kind: compute, handlerRef: x.vip }
+transitions:
+  conditional:
+    - { from: route, routerRef: x.router }
+config:
+  routingRules:
+    route:
+      - { when: { any: [{ signal_gte: { trust: 0.6 } }, { state_path_in: { path: user_context.industry, value: [Health] } }] }, goto: vip }
+      - { default: end }
+`);
+    const dot = dslToDot(dsl);
+    expect(dot.startsWith('digraph "diagramFlow" {')).toBe(true);
+    expect(dot).toContain('"route" [shape=diamond];');
+    expect(dot).toContain('"route" -> "vip" [label="(trust >= 0.6 || user_context.industry in [\\"Health\\"])", style=dashed];');
+    expect(dot).toContain('"route" -> "END" [label="default", style=dashed];');
+    expect(describeWhen({ awaiting_user: true, not: { started: false } })).toBe("awaiting_user && !(!started)");
+  });
+
+  it("prints diagrams from the flow CLI", async () => {
+    const { runFlowCommand } = await import("../../cli/flow.js");
+    const { getDefaultFlowPath } = await import("../../config/appConfig.js");
+    let output = "";
+    expect(runFlowCommand(["diagram", getDefaultFlowPath(), "--format", "dot"], (t) => (output += t))).toBe(0);
+    expect(output).toContain('digraph "cfs"');
+  });
+});
@@ -0,0 +1,60 @@
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+const originalEnv = { ...process.env };
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("LLM record/replay", () => {
+  async function recordOnce(responses: string[]) {
+    const { FakeListChatModel } = await import("@langchain/core/utils/testing");
+    const { createFixtureProvider } = await import("../core/config/llm-fixtures.js");
+    const { setModelProvider, getModel } = await import("../core/config/model-factory.js");
+    const fake = { name: "fake", isAvailable: () => true, createModel: () => new FakeListChatModel({ responses }) };
+    setModelProvider(createFixtureProvider("record", dir, fake));
+    return getModel("sanitizer");
+  }
+
+  it("records prompt→response pairs keyed by runName and prompt hash", async () => {
+    const { HumanMessage, SystemMessage } = await import("@langchain/core/messages");
+    const model = await recordOnce(["Acme Corp"]);
+    const resp = await model.invoke([new SystemMessage("Clean it"), new HumanMessage("acme corp!!")], {
+      runName: "sanitizeUserInput",
+    });
+    expect(resp.content).toBe("Acme Corp");
+    expect(readdirSync(path.join(dir, "sanitizeUserInput"))).toHaveLength(1);
+  });
+
+  it("replays recorded responses from LLM_MODE=replay without an API key", async () => {
+    const { HumanMessage } = await import("@langchain/core/messages");
+    await (await recordOnce(["Healthcare"])).invoke([new HumanMessage("industry?")], { runName: "ask" });
+
+    delete process.env.OPENAI_API_KEY;
+    process.env.LLM_MODE = "replay";
+    process.env.LLM_FIXTURES_DIR = dir;
+    const { getModel, isModelAvailable, setModelProvider } = await import("../core/config/model-factory.js");
+    setModelProvider(null);
+    expect(isModelAvailable("sanitizer")).toBe(true);
+
+    const model = getModel("sanitizer");
+    const resp = await model.invoke([new HumanMessage("industry?")], { runName: "ask" });
+    expect(resp.content).toBe("Healthcare");
+    await expect(model.invoke([new HumanMessage("something new")], { runName: "ask" })).rejects.toThrow(
+      'No LLM fixture for runName "ask"'
+    );
+  });
+
+  it("rejects unknown LLM_MODE values", async () => {
+    const { createModelProviderFromEnv } = await import("../core/config/model-factory.js");
+    expect(() => createModelProviderFromEnv({ LLM_MODE: "bogus" })).toThrow('Unknown LLM_MODE "bogus"');
+  });
+});
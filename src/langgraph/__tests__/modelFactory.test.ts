@@ -67,3 +67,62 @@ describe("modelFactory", () => {
     expect(() => getModel("knowYourCustomer")).toThrow("OPENAI_API_KEY");
   });
 });
+
+describe("model vendors", () => {
+  it("builds the vendor client named by provider", async () => {
+    const { liveProvider } = await import("../core/config/model-factory.js");
+    const { AzureChatOpenAI } = await import("@langchain/openai");
+    const azure = liveProvider.createModel("readout", {
+      provider: "azure",
+      model: "gpt-4o",
+      temperature: 0,
+      maxRetries: 1,
+      deployment: "readout-prod",
+      apiVersion: "2024-06-01",
+      apiKeyEnv: "OPENAI_API_KEY",
+    });
+    expect(azure).toBeInstanceOf(AzureChatOpenAI);
+    expect((azure as any).fields).toMatchObject({ azureOpenAIApiDeploymentName: "readout-prod", azureOpenAIApiVersion: "2024-06-01" });
+  });
+
+  it("serves OpenAI-compatible servers without an API key", async () => {
+    delete process.env.OPENAI_API_KEY;
+    const { liveProvider, isModelAvailable, setModelConfig } = await import("../core/config/model-factory.js");
+    setModelConfig("sanitizer", {
+      provider: "openai-compatible",
+      baseUrl: "http://localhost:11434/v1",
+      model: "llama3.1",
+      temperature: 0,
+      maxRetries: 0,
+    });
+    expect(isModelAvailable("sanitizer")).toBe(true);
+    expect(isModelAvailable("readout")).toBe(false);
+    const local = liveProvider.createModel("sanitizer", {
+      provider: "openai-compatible",
+      baseUrl: "http://localhost:11434/v1",
+      model: "llama3.1",
+      temperature: 0,
+      maxRetries: 0,
+    });
+    expect((local as any).fields.configuration).toEqual({ baseURL: "http://localhost:11434/v1" });
+  });
+
+  it("falls back when the primary model errors or times out", async () => {
+    const { FakeListChatModel } = await import("@langchain/core/utils/testing");
+    const { FallbackChatModel } = await import("../core/config/model-vendors.js");
+    const model = new FallbackChatModel([
+      { model: new FakeListChatModel({ responses: ["slow"], sleep: 500 }), timeoutMs: 20 },
+      { model: new FakeListChatModel({ responses: ["fast"] }) },
+    ]);
+    const resp = await model.invoke("hello");
+    expect(resp.content).toBe("fast");
+  });
+
+  it("rejects vendor configs missing required options", async () => {
+    const { ModelConfigSchema } = await import("../schema/graph-dsl-types.js");
+    expect(ModelConfigSchema.safeParse({ provider: "openai-compatible", model: "llama3.1" }).success).toBe(false);
+    const parsed = ModelConfigSchema.parse({ model: "gpt-4o", fallbacks: [{ provider: "anthropic", model: "claude-sonnet-4-5" }] });
+    expect(parsed.provider).toBe("openai");
+    expect(parsed.fallbacks[0]).toMatchObject({ provider: "anthropic", temperature: 0.4 });
+  });
+});
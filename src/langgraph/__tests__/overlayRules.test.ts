@@ -0,0 +1,100 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { CfsState } from "../state.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "overlay-rules-"));
+  const { FakeListChatModel } = await import("@langchain/core/utils/testing");
+  const { createFixtureProvider } = await import("../core/config/llm-fixtures.js");
+  const { setModelProvider } = await import("../core/config/model-factory.js");
+  const fake = { name: "fake", isAvailable: () => true, createModel: () => new FakeListChatModel({ responses: ["Reviewed."] }) };
+  setModelProvider(createFixtureProvider("record", path.join(dir, "fixtures"), fake));
+});
+
+afterEach(async () => {
+  const { setModelProvider } = await import("../core/config/model-factory.js");
+  setModelProvider(null);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const flowYaml = (firstRule = "signal_lt: { trust: 0.4 }") => `
+schemaVersion: 2
+graph: { graphId: overlayFlow, version: "1.0", entrypoint: greet }
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: greet
+    kind: question
+    nodeConfig:
+      greeting: { stringKeys: [hello] }
+transitions:
+  static:
+    - { from: greet, to: "__end__" }
+config:
+  aiPrompts: { base: "prompt", reviewResponse: "Fix grammar." }
+  messagePolicy:
+    default: { allowAIRephrase: true, forbidFirstPerson: false }
+  strings: { hello: "Next question." }
+  overlayRules:
+    - when: { ${firstRule} }
+      overlay: Mentor_Supportive
+    - when:
+        step_equals: STEP1_KNOW_YOUR_CUSTOMER
+        state_path_gte: { path: relationship_context.turn_count, value: 3 }
+      overlay: CTO_Consultative
+`;
+
+/** System prompts the sanitizer model received for `runName`, from the recorded fixtures. */
+function systemPrompts(runName: string): string[] {
+  const runDir = path.join(dir, "fixtures", runName);
+  return readdirSync(runDir).map((file) => String(JSON.parse(readFileSync(path.join(runDir, file), "utf8")).messages[0].content));
+}
+
+const withScores = (state: CfsState, scores: Partial<CfsState["relationship_context"]>): CfsState => ({
+  ...state,
+  relationship_context: { ...state.relationship_context, ...scores },
+});
+
+describe("overlay rules", () => {
+  it("switches the overlay each turn, logs the switch and feeds it to the review prompt", async () => {
+    const { registerHandlerModule } = await import("../schema/graph-handler-modules.js");
+    const { buildGraphFromSchema, createInitialState, runTurn } = await import("../graph.js");
+    registerHandlerModule("overlayFlow", () => {});
+    const file = path.join(dir, "flow.yaml");
+    writeFileSync(file, flowYaml());
+    const graphApp = buildGraphFromSchema(file);
+
+    const first = await runTurn(graphApp, withScores(createInitialState({ sessionId: "o-1" }), { trust_score: 0.3 }));
+    expect(first.overlay_active).toBe("Mentor_Supportive");
+    expect(first.session_context.transition_log).toEqual(["overlay:SeniorSE_Curious->Mentor_Supportive"]);
+    expect(systemPrompts("reviewResponse")).toEqual([
+      "Fix grammar. Overlay: Mentor_Supportive (patient and supportive, reassuring without pressure).",
+    ]);
+
+    const same = await runTurn(graphApp, first);
+    expect(same.session_context.transition_log).toHaveLength(1);
+
+    const later = await runTurn(graphApp, withScores(same, { trust_score: 0.8, turn_count: 3 }));
+    expect(later.overlay_active).toBe("CTO_Consultative");
+    expect(later.session_context.transition_log.at(-1)).toBe("overlay:Mentor_Supportive->CTO_Consultative");
+  });
+
+  it("adds the overlay tone to the rephrase prompt", async () => {
+    const { rephraseQuestionWithAI } = await import("../core/services/ai/rephrase.js");
+    await rephraseQuestionWithAI({ baseQuestion: "What is your goal?", allowAIRephrase: true, overlay: "SeniorSE_Challenging" });
+    expect(systemPrompts("rephraseQuestion")[0]).toContain(
+      "Overlay: SeniorSE_Challenging (direct and constructively challenging, testing assumptions)."
+    );
+  });
+
+  it("rejects overlay rules with unknown predicates", async () => {
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const { preflightReferenceValidation } = await import("../schema/graph-compiler.js");
+    const { withGraphRegistry } = await import("../schema/handler-registry.js");
+    const dsl = parseGraphDslFromText(flowYaml("trust_below: 0.4"));
+    const issues = withGraphRegistry("overlayFlow", () => preflightReferenceValidation(dsl));
+    expect(issues.map((i) => i.message)).toContain('Overlay rule #0 uses unknown when predicate "trust_below"');
+  });
+});
@@ -0,0 +1,111 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { jest } from "@jest/globals";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "signal-eval-"));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const DATASET = [
+  {
+    id: "rush",
+    text: "whatever, fine",
+    lastBotMessage: "Could you walk me through how your team evaluates new analytics tools today and who is involved in the decision?",
+    questionPurpose: "collect",
+    labels: { intent: "low" },
+  },
+  {
+    id: "coop",
+    text: "We need a single view of our customers and our team wants to start this quarter. Let's figure out the first use case together.",
+    labels: { intent: "high" },
+  },
+]
+  .map((line) => JSON.stringify(line))
+  .join("\n");
+
+describe("signal extractor evaluation", () => {
+  it("computes precision, recall and confidence calibration per dimension", async () => {
+    const { summarizePredictions } = await import("../core/agents/signal-eval.js");
+    const prediction = (id: string, label: "low" | "high", predicted: "low" | "neutral" | "high", confidence: number) => ({
+      id,
+      dimension: "trust" as const,
+      label,
+      predicted,
+      score: 0.5,
+      confidence,
+    });
+
+    const report = summarizePredictions([prediction("a", "low", "low", 0.9), prediction("b", "low", "neutral", 0.9), prediction("c", "high", "high", 0.3)], 3);
+    expect(report.dimensions.trust).toEqual({
+      examples: 3,
+      accuracy: 0.667,
+      classes: {
+        low: { precision: 1, recall: 0.5, support: 2 },
+        neutral: { precision: 0, recall: 0, support: 0 },
+        high: { precision: 1, recall: 1, support: 1 },
+      },
+      calibration: {
+        ece: 0.5,
+        bins: [
+          { from: 0.2, to: 0.4, count: 1, meanConfidence: 0.3, accuracy: 1 },
+          { from: 0.8, to: 1, count: 2, meanConfidence: 0.9, accuracy: 0.5 },
+        ],
+      },
+    });
+    expect(report.misses.map((m) => m.id)).toEqual(["b"]);
+  });
+
+  it("diffs two extractor configs on the same dataset", async () => {
+    const { compareSignalExtractors, parseSignalDataset } = await import("../core/agents/signal-eval.js");
+    const { resolveExtractorConfig } = await import("../core/agents/extractor-config.js");
+
+    const comparison = await compareSignalExtractors(
+      parseSignalDataset(DATASET),
+      resolveExtractorConfig(),
+      resolveExtractorConfig({ weights: { intent: { cooperationSignal: 0 } } })
+    );
+    expect(comparison.changed).toEqual([
+      { id: "rush", dimension: "intent", label: "low", baseline: "neutral", candidate: "low" },
+      { id: "coop", dimension: "intent", label: "high", baseline: "high", candidate: "neutral" },
+    ]);
+    expect(comparison.delta).toEqual({ intent: { accuracy: 0, ece: expect.any(Number) } });
+  });
+
+  it("rejects unknown overrides, bad patterns and malformed dataset lines", async () => {
+    const { resolveExtractorConfig } = await import("../core/agents/extractor-config.js");
+    const { parseSignalDataset } = await import("../core/agents/signal-eval.js");
+
+    expect(() => resolveExtractorConfig({ patterns: { nope: "x" } })).toThrow(/nope/);
+    expect(() => resolveExtractorConfig({ patterns: { rushing: "(" } })).toThrow('Invalid extractor pattern "rushing"');
+    expect(resolveExtractorConfig({ lexicon: { meh: -1 } }).lexicon.meh).toBe(-1);
+    expect(() => parseSignalDataset(`${DATASET}\n{"id":"x","text":"hi","labels":{}}`)).toThrow(/^Dataset line 3: labels/);
+  });
+
+  it("runs from the command line with a YAML overrides file", async () => {
+    const { runSignalEvalCommand } = await import("../../cli/signal-eval.js");
+    const dataset = path.join(dir, "utterances.jsonl");
+    const overrides = path.join(dir, "candidate.yaml");
+    writeFileSync(dataset, DATASET);
+    writeFileSync(overrides, "weights:\n  intent: { cooperationSignal: 0 }\n");
+
+    let output = "";
+    expect(await runSignalEvalCommand(["run", dataset, "--config", overrides], (text) => (output += text))).toBe(0);
+    expect(JSON.parse(output)).toMatchObject({ examples: 2, dimensions: { intent: { accuracy: 0.5 } } });
+
+    output = "";
+    expect(await runSignalEvalCommand(["compare", dataset, "default", overrides], (text) => (output += text))).toBe(0);
+    expect(JSON.parse(output).changed).toHaveLength(2);
+
+    jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+    expect(await runSignalEvalCommand(["run", overrides], () => {})).toBe(1);
+    expect(await runSignalEvalCommand(["compare", dataset], () => {})).toBe(2);
+  });
+});
@@ -0,0 +1,136 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { CfsState } from "../state.js";
+import type { SignalAction } from "../core/agents/signal-types.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "signal-policy-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const POLICY = {
+  slow_down_pacing: { minPriority: "low" as const, overlay: "Mentor_Supportive" as const, maxRemainingQuestions: 2 },
+  increase_empathy: { minPriority: "high" as const, acknowledgeEmotion: "concerned" as const, offerReadout: "Want the readout now?" },
+};
+
+const action = (type: string, priority: SignalAction["priority"], timestamp?: number): SignalAction => ({
+  type,
+  priority,
+  reason: "test",
+  ...(timestamp != null ? { timestamp } : {}),
+});
+
+async function stateWithActions(actions: SignalAction[]): Promise<CfsState> {
+  const { createInitialState } = await import("../graph.js");
+  const state = createInitialState({ sessionId: "policy-1" });
+  return {
+    ...state,
+    relationship_context: { ...state.relationship_context, signal_actions: actions },
+    session_context: { ...state.session_context, awaiting_user: true, step_question_index: 1 },
+  };
+}
+
+describe("signal policy", () => {
+  it("applies each new action once: overlay, question limit, acknowledgement and readout offer", async () => {
+    const { applySignalPolicy } = await import("../core/agents/signal-policy.js");
+    const state = await stateWithActions([action("slow_down_pacing", "medium", 100), action("increase_empathy", "high", 100)]);
+
+    const next = applySignalPolicy(state, POLICY);
+    expect(next.overlay_active).toBe("Mentor_Supportive");
+    expect(next.session_context.question_limit).toBe(4);
+    expect(next.messages.map((m) => String(m.content))).toEqual([
+      "Understood. That pressure is real. We'll keep this tight and focused now.",
+      "Want the readout now?",
+    ]);
+    expect(next.session_context).toMatchObject({
+      early_readout_offered: true,
+      reason_trace: ["signal_policy:slow_down_pacing", "signal_policy:increase_empathy"],
+    });
+    expect(next.session_context.primitive_log.map((entry) => entry.primitive_name)).toEqual(["AcknowledgeEmotion"]);
+    expect(next.relationship_context.signal_actions_applied_at).toBe(100);
+
+    expect(applySignalPolicy(next, POLICY)).toBe(next);
+  });
+
+  it("skips actions below minPriority and legacy actions without a timestamp", async () => {
+    const { applySignalPolicy } = await import("../core/agents/signal-policy.js");
+    const state = await stateWithActions([action("slow_down_pacing", "low"), action("increase_empathy", "medium", 200)]);
+
+    const next = applySignalPolicy(state, POLICY);
+    expect(next.messages).toEqual([]);
+    expect(next.overlay_active).toBe(state.overlay_active);
+    expect(next.session_context.reason_trace).toEqual([]);
+    expect(next.relationship_context.signal_actions_applied_at).toBe(200);
+  });
+
+  it("ends a questionnaire at the question limit and clears it", async () => {
+    const { questionnaireLoop } = await import("../core/primitives/conversation/questionnaire-loop.js");
+    const { HumanMessage } = await import("@langchain/core/messages");
+    const base = await stateWithActions([]);
+    const state: CfsState = {
+      ...base,
+      messages: [new HumanMessage("fine")],
+      session_context: { ...base.session_context, last_question_key: "DQ", question_limit: 2 },
+    };
+    const out = await questionnaireLoop.run(state, {
+      questions: ["a", "b", "c", "d"].map((question) => ({ question })),
+      questionKey: "DQ",
+      buildPrompt: (q) => q,
+      sanitizeAnswer: (raw) => raw,
+      closingMessage: "Done.",
+      stateField: "use_case_context",
+      stateItemKey: "discovery_questions",
+    });
+
+    expect(String(out.messages?.at(-1)?.content)).toBe("Done.");
+    expect(out.session_context).toMatchObject({ awaiting_user: false, question_limit: null });
+  });
+
+  it("acts on the previous turn's signal actions before the graph replies", async () => {
+    const { registerHandlerModule } = await import("../schema/graph-handler-modules.js");
+    const { buildGraphFromSchema, createInitialState, runTurn } = await import("../graph.js");
+    const { setPendingSignal } = await import("../core/agents/signal-store.js");
+    registerHandlerModule("policyFlow", () => {});
+    const file = path.join(dir, "flow.yaml");
+    writeFileSync(
+      file,
+      `
+schemaVersion: 2
+graph: { graphId: policyFlow, version: "1.0", entrypoint: greet }
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: greet
+    kind: question
+    nodeConfig:
+      greeting: { stringKeys: [hello] }
+transitions:
+  static:
+    - { from: greet, to: "__end__" }
+config:
+  aiPrompts: { base: "prompt" }
+  strings: { hello: "Next question." }
+  signalPolicy:
+    increase_empathy: { acknowledgeEmotion: concerned }
+`
+    );
+    const graphApp = buildGraphFromSchema(file);
+    const state = createInitialState({ sessionId: "policy-turn" });
+    setPendingSignal("policy-turn", {
+      ...state.relationship_context,
+      signal_actions: [action("increase_empathy", "high", Date.now())],
+    });
+
+    const result = await runTurn(graphApp, state, "this is frustrating");
+    expect(result.messages.map((m) => String(m.content))).toEqual([
+      "this is frustrating",
+      "Understood. That pressure is real. We'll keep this tight and focused now.",
+      "Next question.",
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { jest } from "@jest/globals";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "state-ext-"));
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const flowYaml = (extensions: string) => `
+schemaVersion: 2
+graph:
+  graphId: extFlow
+  version: "1.0"
+  entrypoint: price
+  stateExtensions:
+${extensions}
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: price
+    kind: compute
+    handlerRef: extFlow.price
+  - id: show
+    kind: question
+    nodeConfig:
+      display: { statePath: pricing_context.tier }
+transitions:
+  static:
+    - { from: price, to: show }
+    - { from: show, to: "__end__" }
+config:
+  aiPrompts: { base: "prompt" }
+`;
+
+const EXTENSIONS = `    - name: pricing_context
+      reducer: merge
+      fields:
+        tier: { type: string, default: basic }
+        seats: { type: number, nullable: true }
+    - name: quote_log
+      reducer: append
+      fields:
+        amount: { type: number }
+    - notes`;
+
+async function buildFlow(extensions = EXTENSIONS) {
+  const { registerHandlerModule } = await import("../schema/graph-handler-modules.js");
+  const { registerHandler } = await import("../schema/handler-registry.js");
+  const { buildGraphFromSchema, createCheckpointer } = await import("../graph.js");
+  const { buildNestedPatch, getByPath } = await import("../core/helpers/path.js");
+  registerHandlerModule("extFlow", () => {
+    registerHandler("extFlow.price", (s) => ({
+      ...buildNestedPatch(s, "pricing_context.seats", 3),
+      ...buildNestedPatch(s, "quote_log", [{ amount: (getByPath(s, "quote_log") as unknown[]).length + 1 }]),
+      ...buildNestedPatch(s, "notes", "priced"),
+    }));
+  });
+  const file = path.join(dir, "flow.yaml");
+  writeFileSync(file, flowYaml(extensions));
+  return buildGraphFromSchema(file, { checkpointer: createCheckpointer() });
+}
+
+describe("stateExtensions", () => {
+  it("adds typed slices with defaults and per-slice reducers", async () => {
+    const graphApp = await buildFlow();
+    const { createInitialState, runTurn } = await import("../graph.js");
+
+    const first = (await runTurn(graphApp, createInitialState({ sessionId: "ext-1" }))) as any;
+    expect(first.pricing_context).toEqual({ tier: "basic", seats: 3 });
+    expect(first.quote_log).toEqual([{ amount: 1 }]);
+    expect(first.notes).toBe("priced");
+    expect(String(first.messages.at(-1)?.content)).toBe("basic");
+
+    // The checkpointed thread already holds the list; re-submitted state must not duplicate it.
+    const second = (await runTurn(graphApp, first)) as any;
+    expect(second.quote_log).toEqual([{ amount: 1 }, { amount: 2 }]);
+  });
+
+  it("validates slice fields and keeps slices through session serialization", async () => {
+    const graphApp = await buildFlow();
+    const { createInitialState, stateSchemaOf } = await import("../graph.js");
+    const { serializeSessionState, deserializeSessionState } = await import("../../sessions/session-serialization.js");
+    const schema = stateSchemaOf(graphApp);
+    const initial = createInitialState({ sessionId: "ext-2" });
+
+    expect(() => schema.parse({ ...initial, pricing_context: { seats: "three" } })).toThrow();
+    const parsed = schema.parse({ ...initial, pricing_context: { seats: null } }) as any;
+    expect(parsed.pricing_context).toEqual({ tier: "basic", seats: null });
+    expect(parsed.quote_log).toEqual([]);
+
+    const restored = deserializeSessionState(JSON.parse(JSON.stringify(serializeSessionState(parsed)))) as any;
+    expect(restored.pricing_context).toEqual({ tier: "basic", seats: null });
+  });
+
+  it("rejects slices that shadow base state fields", async () => {
+    await expect(buildFlow("    - messages\n    - { name: notes }\n    - notes")).rejects.toThrow(
+      /State extension "messages" is already a state field/
+    );
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const { preflightReferenceValidation } = await import("../schema/graph-compiler.js");
+    const { withGraphRegistry } = await import("../schema/handler-registry.js");
+    const dsl = parseGraphDslFromText(flowYaml("    - messages\n    - { name: notes }\n    - notes"));
+    const codes = withGraphRegistry("extFlow", () => preflightReferenceValidation(dsl)).map((e) => e.code);
+    expect(codes.filter((c) => c === "invalid-state-extension")).toHaveLength(2);
+  });
+});
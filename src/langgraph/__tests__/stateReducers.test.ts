@@ -0,0 +1,161 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { jest } from "@jest/globals";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "state-reducers-"));
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const flowYaml = (reducers: string) => `
+schemaVersion: 2
+graph:
+  graphId: forkFlow
+  version: "1.0"
+  entrypoint: fork
+  reducers:
+${reducers}
+stateContractRef: state.CfsStateSchema
+nodes:
+  - { id: fork, kind: compute, handlerRef: forkFlow.noop }
+  - { id: left, kind: compute, handlerRef: forkFlow.left }
+  - { id: right, kind: compute, handlerRef: forkFlow.right }
+  - { id: join, kind: compute, handlerRef: forkFlow.noop }
+transitions:
+  static:
+    - { from: fork, to: left }
+    - { from: fork, to: right }
+    - { from: left, to: join }
+    - { from: right, to: join }
+    - { from: join, to: "__end__" }
+config:
+  aiPrompts: { base: "prompt" }
+`;
+
+const question = (text: string, response: string | null = null) => ({ question: text, response, risk: null, risk_domain: null });
+
+type Branch = (s: import("../state.js").CfsState) => Partial<import("../state.js").CfsState>;
+
+async function runFork(branches: { left?: Branch; right?: Branch } = {}) {
+  const { registerHandlerModule } = await import("../schema/graph-handler-modules.js");
+  const { registerHandler } = await import("../schema/handler-registry.js");
+  const { buildGraphFromSchema, createInitialState, runTurn } = await import("../graph.js");
+  const { buildNestedPatch } = await import("../core/helpers/path.js");
+  const { patchSessionContext } = await import("../core/helpers/state.js");
+  registerHandlerModule("forkFlow", () => {
+    registerHandler("forkFlow.noop", () => ({}));
+    // Both branches spread the whole slices they read, as CFS handlers do.
+    registerHandler(
+      "forkFlow.left",
+      branches.left ??
+        ((s) => ({
+          ...buildNestedPatch(s, "user_context.industry", "retail"),
+          ...patchSessionContext(s, { reason_trace: [...s.session_context.reason_trace, "left"] }),
+          use_case_context: {
+            ...s.use_case_context,
+            discovery_questions: [...s.use_case_context.discovery_questions, question("q2")],
+          },
+        }))
+    );
+    registerHandler(
+      "forkFlow.right",
+      branches.right ??
+        ((s) => ({
+          ...buildNestedPatch(s, "user_context.persona_role", "cfo"),
+          ...patchSessionContext(s, { reason_trace: [...s.session_context.reason_trace, "right"] }),
+          use_case_context: {
+            ...s.use_case_context,
+            discovery_questions: s.use_case_context.discovery_questions.map((q) => ({ ...q, response: "yes" })),
+          },
+        }))
+    );
+  });
+  const file = path.join(dir, "flow.yaml");
+  writeFileSync(file, flowYaml("    user_context: merge"));
+  const initial = createInitialState({ sessionId: "fork-1" });
+  initial.session_context.reason_trace = ["start"];
+  initial.use_case_context.discovery_questions = [question("q1")];
+  return runTurn(buildGraphFromSchema(file), initial);
+}
+
+describe("state reducers", () => {
+  it("merges concurrent branch writes per slice and field", async () => {
+    const result = await runFork();
+
+    expect(result.user_context).toMatchObject({ industry: "retail", persona_role: "cfo" });
+    expect(result.session_context.reason_trace).toEqual(["start", "left", "right"]);
+    expect(result.use_case_context.discovery_questions).toEqual([question("q1", "yes"), question("q2")]);
+  });
+
+  it("appends an entry equal to one already in the list", async () => {
+    const { patchSessionContext } = await import("../core/helpers/state.js");
+    const result = await runFork({
+      left: (s) => patchSessionContext(s, { reason_trace: [...s.session_context.reason_trace, "start"] }),
+      right: (s) => patchSessionContext(s, { reason_trace: [...s.session_context.reason_trace, "start"] }),
+    });
+
+    expect(result.session_context.reason_trace).toEqual(["start", "start", "start"]);
+  });
+
+  it("replaces a regenerated question set and resets logs with replaceItems", async () => {
+    const { replaceItems } = await import("../state/reducers.js");
+    const { patchSessionContext } = await import("../core/helpers/state.js");
+    // A new use-case selection: step 2 regenerates the questions; q1 is not asked again.
+    const result = await runFork({
+      left: (s) => ({
+        use_case_context: { ...s.use_case_context, discovery_questions: replaceItems([question("q3"), question("q4")]) },
+      }),
+      right: (s) => patchSessionContext(s, { reason_trace: replaceItems(["reset"]) }),
+    });
+
+    expect(result.use_case_context.discovery_questions).toEqual([question("q3"), question("q4")]);
+    expect(result.session_context.reason_trace).toEqual(["reset"]);
+  });
+
+  it("appends logs, upserts by key and deep-merges through the channel reducers", async () => {
+    const { stateChannels } = await import("../state/reducers.js");
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const channels = stateChannels(parseGraphDslFromText(flowYaml("    \"readout_context.sections\": { reducer: upsert, key: id }")));
+
+    const session = channels.session_context.reducer(
+      { step: "A", transition_log: ["x"], reason_trace: ["r"] },
+      { step: "B", transition_log: ["x", "x"], reason_trace: ["s"] }
+    );
+    expect(session).toEqual({ step: "B", transition_log: ["x", "x"], reason_trace: ["r", "s"] });
+
+    const readout = channels.readout_context.reducer(
+      { rendered_outputs: { markdown: "md" }, sections: [{ id: 1, v: "a" }] },
+      { rendered_outputs: { html: "<p>" }, sections: [{ id: 1, v: "b" }, { id: 2, v: "c" }] }
+    );
+    expect(readout).toEqual({
+      rendered_outputs: { markdown: "md", html: "<p>" },
+      sections: [{ id: 1, v: "b" }, { id: 2, v: "c" }],
+    });
+
+    const cleared = channels.use_case_context.reducer({ discovery_questions: [question("q1")] }, { discovery_questions: [] });
+    expect(cleared).toEqual({ discovery_questions: [] });
+  });
+
+  it("rejects reducers on unknown paths, upserts without a key and fields of replace slices", async () => {
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const { preflightReferenceValidation } = await import("../schema/graph-compiler.js");
+    const { withGraphRegistry } = await import("../schema/handler-registry.js");
+    const dsl = parseGraphDslFromText(
+      flowYaml("    nope: merge\n    use_case_context.risks: upsert\n    user_context.industry: append")
+    );
+    const issues = withGraphRegistry("forkFlow", () => preflightReferenceValidation(dsl));
+    expect(issues.filter((i) => i.code === "invalid-reducer").map((i) => i.message)).toEqual([
+      'Reducer for "nope" does not target a state field.',
+      'Reducer for "use_case_context.risks" uses upsert without a key.',
+      'Reducer for "user_context.industry" is ignored: slice "user_context" uses replace, not merge or deepMerge.',
+    ]);
+  });
+});
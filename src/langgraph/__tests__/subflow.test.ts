@@ -0,0 +1,135 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "subflow-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const flow = (graphId: string, nodes: string, transitions: string) => `
+schemaVersion: 2
+graph:
+  graphId: ${graphId}
+  version: "1.0"
+  entrypoint: ${graphId === "subChild" ? "mark" : "qualify"}
+stateContractRef: state.CfsStateSchema
+nodes:
+${nodes}
+transitions:
+  static:
+${transitions}
+`;
+
+const CHILD = flow(
+  "subChild",
+  `  - id: mark
+    kind: compute
+    handlerRef: subChild.mark`,
+  `    - { from: mark, to: "__end__" }`
+);
+
+const subflowNode = (flowRef: string, inputs = "{}", outputs = "{}") => `  - id: qualify
+    kind: subflow
+    nodeConfig:
+      subflow: { flowRef: ${flowRef}, inputs: ${inputs}, outputs: ${outputs} }`;
+
+const PARENT = flow(
+  "subParent",
+  subflowNode(
+    "./child.yaml",
+    '{ "user_context.company": "user_context.company_name" }',
+    '{ "readout_context.marker": "use_case_context.marker" }'
+  ),
+  `    - { from: qualify, to: "__end__" }`
+);
+
+async function registerChild() {
+  const { registerHandlerModule } = await import("../schema/graph-handler-modules.js");
+  const { registerHandler } = await import("../schema/handler-registry.js");
+  const { getGraphContext } = await import("../core/config/graph-context.js");
+  registerHandlerModule("subChild", () => {
+    registerHandler("subChild.mark", (s: any) => ({
+      use_case_context: { ...s.use_case_context, marker: `${getGraphContext()?.graphId}:${s.user_context?.company}` },
+    }));
+  });
+}
+
+function write(name: string, yaml: string): string {
+  const file = path.join(dir, name);
+  writeFileSync(file, yaml);
+  return file;
+}
+
+describe("subflow nodes", () => {
+  it("runs the referenced flow as a nested graph with mapped inputs and outputs", async () => {
+    await registerChild();
+    const { loadGraphDsl } = await import("../schema/graph-loader.js");
+    const { compileGraphFromDsl } = await import("../schema/graph-compiler.js");
+    const { createInitialState } = await import("../graph.js");
+    write("child.yaml", CHILD);
+    const parent = loadGraphDsl(write("parent.yaml", PARENT));
+    expect(parent.nodes[0].nodeConfig?.subflow?.flowRef).toBe(path.join(dir, "child.yaml"));
+
+    const { compiled } = compileGraphFromDsl(parent);
+    const initial = createInitialState({ sessionId: "sub-1" });
+    const result = await compiled.invoke({
+      ...initial,
+      user_context: { ...initial.user_context, company_name: "Acme" },
+    });
+
+    expect((result.readout_context as any).marker).toBe("subChild:Acme");
+    // Only the mapped outputs cross the boundary: the child's own writes and mapped inputs stay inside it.
+    expect((result.use_case_context as any).marker).toBeUndefined();
+    expect((result.user_context as any).company).toBeUndefined();
+  });
+
+  it("rejects a subflow node without nodeConfig.subflow", async () => {
+    const { loadGraphDsl } = await import("../schema/graph-loader.js");
+    const bad = flow("subParent", "  - id: qualify\n    kind: subflow", `    - { from: qualify, to: "__end__" }`);
+    expect(() => loadGraphDsl(write("parent.yaml", bad))).toThrow(/nodeConfig\.subflow/);
+  });
+
+  it("accepts subflow nodes in the JSON schema without a handlerRef", async () => {
+    const { readFileSync } = await import("node:fs");
+    const { Validator } = await import("@cfworker/json-schema");
+    const YAML = (await import("yaml")).default;
+    const schema = JSON.parse(readFileSync(new URL("../schema/graphDslJsonSchema.json", import.meta.url), "utf8"));
+    const validator = new Validator(schema, "7", false);
+    const isValid = (yaml: string) => validator.validate(YAML.parse(yaml)).valid;
+
+    expect(isValid(PARENT)).toBe(true);
+    expect(isValid(CHILD)).toBe(true);
+    expect(isValid(flow("subParent", "  - id: qualify\n    kind: subflow", `    - { from: qualify, to: "__end__" }`))).toBe(false);
+    expect(isValid(flow("subChild", "  - id: mark\n    kind: compute", `    - { from: mark, to: "__end__" }`))).toBe(false);
+  });
+
+  it("reports missing flows, bad mappings and cycles in preflight", async () => {
+    await registerChild();
+    const { loadGraphDsl } = await import("../schema/graph-loader.js");
+    const { compileGraphFromDsl, expandGraphDsl, preflightReferenceValidation } = await import(
+      "../schema/graph-compiler.js"
+    );
+    const codesOf = (file: string) => preflightReferenceValidation(expandGraphDsl(loadGraphDsl(file))).map((e) => e.code);
+    write("child.yaml", CHILD);
+
+    const missing = write("missing.yaml", flow("subParent", subflowNode("./nope.yaml"), `    - { from: qualify, to: "__end__" }`));
+    expect(codesOf(missing)).toEqual(["unknown-subflow"]);
+
+    const badMapping = write(
+      "mapping.yaml",
+      flow("subParent", subflowNode("./child.yaml", '{ "nope.x": "user_context.name" }'), `    - { from: qualify, to: "__end__" }`)
+    );
+    expect(codesOf(badMapping)).toEqual(["invalid-subflow-mapping"]);
+
+    const loopA = write("a.yaml", flow("subParent", subflowNode("./b.yaml"), `    - { from: qualify, to: "__end__" }`));
+    write("b.yaml", flow("subOther", subflowNode("./a.yaml"), `    - { from: qualify, to: "__end__" }`));
+    expect(codesOf(loopA)).toContain("subflow-cycle");
+    expect(() => compileGraphFromDsl(loadGraphDsl(loopA))).toThrow(/Subflow cycle/);
+  });
+});
@@ -0,0 +1,111 @@
+import type { TurnStreamEvent } from "../turn-stream.js";
+
+describe("turn streaming", () => {
+  it("emits node start/end and state events and resolves to the same state as invoke", async () => {
+    const { buildCfsGraph, createInitialState, runTurn } = await import("../graph.js");
+    const graphApp = buildCfsGraph();
+    const events: TurnStreamEvent[] = [];
+
+    const streamed = await runTurn(graphApp, createInitialState({ sessionId: "stream-1" }), undefined, {
+      onEvent: (event) => events.push(event),
+    });
+    const invoked = await runTurn(graphApp, createInitialState({ sessionId: "stream-2" }), undefined);
+
+    const started = events.filter((e) => e.type === "node_start").map((e) => (e as { node: string }).node);
+    const ended = events.filter((e) => e.type === "node_end").map((e) => (e as { node: string }).node);
+    expect(started.length).toBeGreaterThan(0);
+    expect(ended).toEqual(started);
+    expect(events.some((e) => e.type === "state")).toBe(true);
+
+    expect(streamed.session_context.last_question_key).toBe(invoked.session_context.last_question_key);
+    expect(streamed.messages.map((m) => m.content)).toEqual(invoked.messages.map((m) => m.content));
+  });
+
+  it("forwards chat model token deltas tagged with the producing node", async () => {
+    const { StateGraph, END } = await import("@langchain/langgraph");
+    const { FakeListChatModel } = await import("@langchain/core/utils/testing");
+    const { streamGraphTurn } = await import("../turn-stream.js");
+
+    const model = new FakeListChatModel({ responses: ["Hi there"] });
+    const graph: any = new StateGraph<any>({
+      channels: { reply: { reducer: (_l: string, r: string) => r, default: () => "" } },
+    } as any);
+    graph.addNode("speak", async () => ({
+      reply: (await model.invoke("hello", { runName: "greeting" })).content,
+    }));
+    graph.setEntryPoint("speak");
+    graph.addEdge("speak", END);
+
+    const events: TurnStreamEvent[] = [];
+    const final: any = await streamGraphTurn(
+      { graphId: "fake", compiled: graph.compile() },
+      {} as any,
+      undefined,
+      (e) => events.push(e)
+    );
+
+    const tokens = events.filter((e): e is Extract<TurnStreamEvent, { type: "token" }> => e.type === "token");
+    expect(tokens.map((t) => t.delta).join("")).toBe("Hi there");
+    expect(tokens.every((t) => t.node === "speak" && t.runName === "greeting")).toBe(true);
+    expect(final.reply).toBe("Hi there");
+  });
+
+  it("streams wrapped models under their node and skips internal runs", async () => {
+    const { StateGraph, END } = await import("@langchain/langgraph");
+    const { FakeListChatModel } = await import("@langchain/core/utils/testing");
+    const { streamGraphTurn } = await import("../turn-stream.js");
+    const { MeteredChatModel } = await import("../core/usage/index.js");
+    const { INTERNAL_RUN_TAGS } = await import("../core/config/model-factory.js");
+
+    const model = new MeteredChatModel(new FakeListChatModel({ responses: ['{"safe":true}', "Hi there"] }), "greeting", "fake");
+    const graph: any = new StateGraph<any>({
+      channels: { reply: { reducer: (_l: string, r: string) => r, default: () => "" } },
+    } as any);
+    graph.addNode("speak", async () => {
+      await model.invoke("check", { runName: "reviewResponse", tags: INTERNAL_RUN_TAGS });
+      return { reply: (await model.invoke("hello", { runName: "greeting" })).content };
+    });
+    graph.setEntryPoint("speak");
+    graph.addEdge("speak", END);
+
+    const events: TurnStreamEvent[] = [];
+    await streamGraphTurn({ graphId: "fake", compiled: graph.compile() }, {} as any, undefined, (e) => events.push(e));
+
+    const tokens = events.filter((e): e is Extract<TurnStreamEvent, { type: "token" }> => e.type === "token");
+    expect(tokens.map((t) => t.delta).join("")).toBe("Hi there");
+    expect(tokens.every((t) => t.node === "speak")).toBe(true);
+  });
+
+  it("does not stream the raw rewrite of a rephrased question", async () => {
+    const { StateGraph, END } = await import("@langchain/langgraph");
+    const { FakeListChatModel } = await import("@langchain/core/utils/testing");
+    const { streamGraphTurn } = await import("../turn-stream.js");
+    const { setModelProvider } = await import("../core/config/model-factory.js");
+    const { rephraseQuestionWithAI } = await import("../core/services/ai/rephrase.js");
+
+    setModelProvider({
+      name: "fake",
+      isAvailable: () => true,
+      createModel: () => new FakeListChatModel({ responses: ["Which team owns your customer data?"] }),
+    });
+    const graph: any = new StateGraph<any>({
+      channels: { reply: { reducer: (_l: string, r: string) => r, default: () => "" } },
+    } as any);
+    graph.addNode("ask", async () => ({
+      reply: await rephraseQuestionWithAI({ baseQuestion: "Who owns the data?", allowAIRephrase: true }),
+    }));
+    graph.setEntryPoint("ask");
+    graph.addEdge("ask", END);
+
+    const events: TurnStreamEvent[] = [];
+    try {
+      const final: any = await streamGraphTurn({ graphId: "fake", compiled: graph.compile() }, {} as any, undefined, (e) =>
+        events.push(e)
+      );
+      expect(final.reply).toBe("Which team owns your customer data?");
+      expect(events.filter((e) => e.type === "token")).toEqual([]);
+    } finally {
+      setModelProvider(null);
+    }
+  });
+});
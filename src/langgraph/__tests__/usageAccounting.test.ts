@@ -0,0 +1,111 @@
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+describe("LLM usage accounting", () => {
+  async function usageModel() {
+    const { BaseChatModel } = await import("@langchain/core/language_models/chat_models");
+    const { AIMessage } = await import("@langchain/core/messages");
+    /** Replies like a vendor client: content plus token usage and the served model name. */
+    class UsageReportingModel extends BaseChatModel {
+      _llmType() {
+        return "usage-reporting";
+      }
+      async _generate() {
+        const message = new AIMessage({
+          content: "ok",
+          usage_metadata: { input_tokens: 1000, output_tokens: 500, total_tokens: 1500 },
+          response_metadata: { model_name: "gpt-4o-2024-08-06" },
+        });
+        return { generations: [{ text: "ok", message }] };
+      }
+    }
+    return new UsageReportingModel({});
+  }
+
+  it("records tokens, latency and estimated cost per runName", async () => {
+    const { MeteredChatModel, UsageMeter, runWithUsageMeter } = await import("../core/usage/index.js");
+    const model = new MeteredChatModel(await usageModel(), "readout", "gpt-4o");
+    const meter = new UsageMeter();
+
+    await runWithUsageMeter(meter, () => model.invoke("hi", { runName: "buildReadoutSection" }));
+
+    expect(meter.entries).toHaveLength(1);
+    expect(meter.entries[0]).toMatchObject({
+      run_name: "buildReadoutSection",
+      model: "gpt-4o-2024-08-06",
+      prompt_tokens: 1000,
+      completion_tokens: 500,
+      total_tokens: 1500,
+    });
+    // gpt-4o: $2.50 / $10 per million input / output tokens.
+    expect(meter.entries[0].cost_usd).toBeCloseTo(0.0075);
+  });
+
+  it("degrades to fallbacks once the session budget is spent", async () => {
+    process.env.OPENAI_API_KEY = "test-key";
+    const { MeteredChatModel, UsageMeter, runWithUsageMeter } = await import("../core/usage/index.js");
+    const { isModelAvailable } = await import("../core/config/model-factory.js");
+    const model = new MeteredChatModel(await usageModel(), "readout", "gpt-4o");
+    const meter = new UsageMeter([], { maxTokensPerSession: 1000 });
+
+    await runWithUsageMeter(meter, async () => {
+      expect(isModelAvailable("readout")).toBe(true);
+      await model.invoke("first");
+      expect(isModelAvailable("readout")).toBe(false);
+      await expect(model.invoke("second")).rejects.toThrow("LLM budget exceeded");
+    });
+    expect(isModelAvailable("readout")).toBe(true);
+  });
+
+  it("counts usage from earlier turns toward the budget", async () => {
+    const { UsageMeter } = await import("../core/usage/index.js");
+    const prior = [
+      { run_name: "reviewResponse", node: null, model: "gpt-4o", prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, latency_ms: 10, cost_usd: 0.6, timestamp: 0 },
+    ];
+    expect(new UsageMeter(prior, { maxCostUsdPerSession: 0.5 }).isOverBudget()).toBe(true);
+    expect(new UsageMeter(prior, { maxCostUsdPerSession: 1 }).isOverBudget()).toBe(false);
+  });
+
+  it("records the background signal orchestrator's usage on the next turn", async () => {
+    const { buildGraphFromSchema, createInitialState, runTurn } = await import("../graph.js");
+    const { setPendingSignal } = await import("../core/agents/signal-store.js");
+    const { getDefaultFlowPath } = await import("../../config/appConfig.js");
+    const entry = { run_name: "signalAssessment", node: null, model: "gpt-4o-mini", prompt_tokens: 300, completion_tokens: 40, total_tokens: 340, latency_ms: 900, cost_usd: 0.0001, timestamp: 1 };
+    const state = createInitialState({ sessionId: "usage-signal" });
+    setPendingSignal("usage-signal", state.relationship_context, [entry]);
+
+    const next = await runTurn(buildGraphFromSchema(getDefaultFlowPath()), state, undefined);
+    expect(next.session_context.llm_usage_log).toEqual([entry]);
+  });
+
+  it("tags entries with the graph node and keeps token streaming", async () => {
+    const { StateGraph, END } = await import("@langchain/langgraph");
+    const { FakeListChatModel } = await import("@langchain/core/utils/testing");
+    const { streamGraphTurn } = await import("../turn-stream.js");
+    const { MeteredChatModel, UsageMeter, runWithUsageMeter } = await import("../core/usage/index.js");
+
+    const model = new MeteredChatModel(new FakeListChatModel({ responses: ["Hi there"] }), "greeting", "fake");
+    const graph: any = new StateGraph<any>({
+      channels: { reply: { reducer: (_l: string, r: string) => r, default: () => "" } },
+    } as any);
+    graph.addNode("speak", async () => ({
+      reply: (await model.invoke("hello", { runName: "greeting" })).content,
+    }));
+    graph.setEntryPoint("speak");
+    graph.addEdge("speak", END);
+
+    const meter = new UsageMeter();
+    const tokens: string[] = [];
+    await runWithUsageMeter(meter, () =>
+      streamGraphTurn({ graphId: "fake", compiled: graph.compile() }, {} as any, undefined, (e) => {
+        if (e.type === "token") tokens.push(e.delta);
+      })
+    );
+
+    expect(tokens.join("")).toBe("Hi there");
+    expect(meter.entries).toEqual([expect.objectContaining({ run_name: "greeting", node: "speak", model: "fake" })]);
+  });
+});
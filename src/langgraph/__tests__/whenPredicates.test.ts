@@ -0,0 +1,128 @@
+import type { CfsState } from "../state.js";
+
+const flowYaml = (when: string) => `
+schemaVersion: 2
+graph:
+  graphId: whenFlow
+  version: "1.0"
+  entrypoint: route
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: route
+    kind: router
+    handlerRef: whenFlow.noop
+  - id: vip
+    kind: compute
+    handlerRef: whenFlow.noop
+transitions:
+  conditional:
+    - { from: route, routerRef: unused, destinations: { vip: vip, end: __end__ } }
+  static:
+    - { from: vip, to: __end__ }
+config:
+  aiPrompts: { test: "prompt" }
+  routingRules:
+    route:
+      - { when: { started: true }, goto: end }
+      - { when: ${when}, goto: vip }
+      - { default: end }
+`;
+
+async function setup() {
+  const { clearRegistry, registerHandler, withGraphRegistry } = await import("../schema/handler-registry.js");
+  clearRegistry();
+  withGraphRegistry("whenFlow", () => registerHandler("whenFlow.noop", () => ({})));
+  return import("../schema/graph-compiler.js");
+}
+
+describe("routing rule when predicates", () => {
+  it("rejects unknown when keys at compile time with node and rule index", async () => {
+    const { compileGraphFromDsl } = await setup();
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const dsl = parseGraphDslFromText(flowYaml("{ awaitng_user: false }"));
+    expect(() => compileGraphFromDsl(dsl)).toThrow(
+      'Routing rule #1 on node "route" uses unknown when predicate "awaitng_user"'
+    );
+  });
+
+  it("routes with custom predicates registered for the flow", async () => {
+    const { compileGraphFromDsl } = await setup();
+    const { registerPredicate, withGraphRegistry } = await import("../schema/handler-registry.js");
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const { createInitialState } = await import("../graph.js");
+    withGraphRegistry("whenFlow", () =>
+      registerPredicate("industry_is", (state, value) => state.user_context.industry === value)
+    );
+
+    const { compiled } = compileGraphFromDsl(parseGraphDslFromText(flowYaml("{ industry_is: Healthcare }")));
+    const base = createInitialState({ sessionId: "w1" });
+    const visited = async (industry: string) => {
+      const input = { ...base, user_context: { ...base.user_context, industry } } as CfsState;
+      const steps = await compiled.stream(input, { streamMode: "updates" });
+      const nodes: string[] = [];
+      for await (const update of steps) nodes.push(...Object.keys(update));
+      return nodes;
+    };
+    expect(await visited("Healthcare")).toEqual(["route", "vip"]);
+    expect(await visited("Retail")).toEqual(["route"]);
+  });
+
+  it("reserves built-in predicate names and fails clauses with unknown keys", async () => {
+    const { registerPredicate } = await import("../schema/handler-registry.js");
+    const { evaluateWhen } = await import("../core/routing/condition-predicates.js");
+    const { createInitialState } = await import("../graph.js");
+    expect(() => registerPredicate("started", () => true)).toThrow('Predicate "started" is built in');
+
+    const state = createInitialState({ sessionId: "w1" });
+    expect(evaluateWhen(state, { awaiting_user: false })).toBe(true);
+    expect(evaluateWhen(state, { awaitng_user: false })).toBe(false);
+    expect(evaluateWhen(state, { custom: 1 }, { custom: (_s, v) => v === 1 })).toBe(true);
+  });
+
+  it("evaluates nested groups, comparisons, lists, regex and signal scores", async () => {
+    const { HumanMessage } = await import("@langchain/core/messages");
+    const { evaluateWhen } = await import("../core/routing/condition-predicates.js");
+    const { createInitialState } = await import("../graph.js");
+    const base = createInitialState({ sessionId: "w2" });
+    const state = {
+      ...base,
+      messages: [new HumanMessage("Yes, let's go")],
+      user_context: { ...base.user_context, industry: "Healthcare" },
+      session_context: { ...base.session_context, primitive_counter: 3 },
+      relationship_context: { ...base.relationship_context, trust_score: 0.8, engagement_score: 0.3 },
+    } as CfsState;
+
+    expect(evaluateWhen(state, { state_path_gte: { path: "session_context.primitive_counter", value: 3 } })).toBe(true);
+    expect(evaluateWhen(state, { state_path_lt: { path: "session_context.primitive_counter", value: 3 } })).toBe(false);
+    expect(evaluateWhen(state, { state_path_in: { path: "user_context.industry", value: ["Retail", "Healthcare"] } })).toBe(true);
+    expect(evaluateWhen(state, { state_path_matches: { path: "user_context.industry", value: "^health" } })).toBe(true);
+    expect(evaluateWhen(state, { last_answer_matches: "^(yes|yep)\\b" })).toBe(true);
+    expect(evaluateWhen(state, { signal_gte: { trust: 0.7 }, signal_lt: { engagement: 0.5 } })).toBe(true);
+    expect(evaluateWhen(state, { signal_gt: { trust: 0.9 } })).toBe(false);
+    expect(
+      evaluateWhen(state, {
+        any: [{ started: true }, { all: [{ signal_gte: { trust: 0.5 } }, { not: { state_path_empty: "user_context.industry" } }] }],
+      })
+    ).toBe(true);
+    expect(evaluateWhen(state, { not: { state_path_in: { path: "user_context.industry", value: ["Healthcare"] } } })).toBe(false);
+  });
+
+  it("reports nested unknown keys and malformed operator values at compile time", async () => {
+    const { compileGraphFromDsl } = await setup();
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const compile = (when: string) => () => compileGraphFromDsl(parseGraphDslFromText(flowYaml(when)));
+    expect(compile("{ any: [{ started: false }, { not: { awaitng_user: true } }] }")).toThrow(
+      'uses unknown when predicate "awaitng_user" (in any[1].not)'
+    );
+    expect(compile("{ last_answer_matches: '(unclosed' }")).toThrow('has an invalid "last_answer_matches" value');
+    expect(compile("{ signal_gte: { confidence: 0.5 } }")).toThrow('"confidence" must be one of engagement');
+    expect(compile("{ state_path_in: { path: user_context.industry, value: Healthcare } }")).toThrow("value must be a list");
+  });
+
+  it("keeps the JSON schema in step with the built-in predicates", async () => {
+    const { readFileSync } = await import("node:fs");
+    const { BUILTIN_PREDICATE_NAMES } = await import("../core/routing/condition-predicates.js");
+    const schema = JSON.parse(readFileSync(new URL("../schema/graphDslJsonSchema.json", import.meta.url), "utf8"));
+    expect(Object.keys(schema.definitions.whenClause.properties).sort()).toEqual([...BUILTIN_PREDICATE_NAMES].sort());
+  });
+});
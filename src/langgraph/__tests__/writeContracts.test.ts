@@ -0,0 +1,99 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { jest } from "@jest/globals";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "write-contracts-"));
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const flowYaml = (enforceWrites: string) => `
+schemaVersion: 2
+graph:
+  graphId: writesFlow
+  version: "1.0"
+  entrypoint: classify
+stateContractRef: state.CfsStateSchema
+nodes:
+  - id: classify
+    kind: compute
+    handlerRef: writesFlow.classify
+    writes: [user_context.industry]
+  - id: show
+    kind: question
+    nodeConfig:
+      display: { statePath: user_context.industry }
+transitions:
+  static:
+    - { from: classify, to: show }
+    - { from: show, to: "__end__" }
+config:
+  aiPrompts: { base: "prompt" }
+validation:
+  enforceWrites: ${enforceWrites}
+`;
+
+async function buildFlow(enforceWrites: string, extraPath = "user_context.persona_role") {
+  const { registerHandlerModule } = await import("../schema/graph-handler-modules.js");
+  const { registerHandler } = await import("../schema/handler-registry.js");
+  const { buildGraphFromSchema } = await import("../graph.js");
+  const { buildNestedPatch } = await import("../core/helpers/path.js");
+  registerHandlerModule("writesFlow", () => {
+    registerHandler("writesFlow.classify", (s) => {
+      const withIndustry = { ...s, ...buildNestedPatch(s, "user_context.industry", "retail") };
+      return { ...buildNestedPatch(withIndustry, extraPath, "cfo"), session_context: s.session_context };
+    });
+  });
+  const file = path.join(dir, "flow.yaml");
+  writeFileSync(file, flowYaml(enforceWrites));
+  return buildGraphFromSchema(file);
+}
+
+describe("write contracts", () => {
+  it("warns with the node ID on undeclared writes and keeps the update", async () => {
+    const graphApp = await buildFlow("warn");
+    const { createInitialState, runTurn } = await import("../graph.js");
+    const result = await runTurn(graphApp, createInitialState({ sessionId: "w-1" }));
+
+    expect(result.user_context).toMatchObject({ industry: "retail", persona_role: "cfo" });
+    expect(console.warn).toHaveBeenCalledWith(
+      '[write-contract] Node "classify" wrote undeclared state path(s) user_context.persona_role; declared writes: user_context.industry.'
+    );
+  });
+
+  it("fails the turn in error mode and passes declared writes", async () => {
+    const { createInitialState, runTurn } = await import("../graph.js");
+    const strict = await buildFlow("error");
+    await expect(runTurn(strict, createInitialState({ sessionId: "w-2" }))).rejects.toThrow(
+      /Node "classify" wrote undeclared state path\(s\) user_context\.persona_role/
+    );
+
+    const declared = await buildFlow("error", "user_context.industry");
+    const result = await runTurn(declared, createInitialState({ sessionId: "w-3" }));
+    expect(result.user_context).toMatchObject({ industry: "cfo" });
+    expect(String(result.messages.at(-1)?.content)).toBe("cfo");
+  });
+
+  it("reports which nodes write each slice", async () => {
+    const { parseGraphDslFromText } = await import("../schema/graph-loader.js");
+    const { writeOwnershipReport } = await import("../schema/write-contracts.js");
+    const report = writeOwnershipReport(parseGraphDslFromText(flowYaml("off")));
+
+    expect(report).toEqual({
+      graphId: "writesFlow",
+      slices: {
+        messages: [{ nodeId: "show", paths: ["messages"], inferred: true }],
+        user_context: [{ nodeId: "classify", paths: ["user_context.industry"], inferred: false }],
+      },
+      undeclared: [],
+    });
+  });
+});
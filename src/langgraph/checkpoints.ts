@@ -0,0 +1,99 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { MemorySaver, type BaseCheckpointSaver } from "@langchain/langgraph-checkpoint";
+import { CfsStateSchema, type CfsState } from "./state.js";
+import type { CompiledGraph } from "./schema/graph-compiler.js";
+
+export type { BaseCheckpointSaver } from "@langchain/langgraph-checkpoint";
+
+/** One entry in a thread's checkpoint history (newest first). */
+export type ThreadCheckpoint = {
+  checkpointId: string;
+  parentCheckpointId: string | null;
+  createdAt: string | null;
+  /** LangGraph superstep; -1 is the input checkpoint of a turn. */
+  step: number;
+  source: string | null;
+  /** Nodes that would run next if the thread were resumed from here. */
+  next: string[];
+  flowStep: string | null;
+  lastQuestionKey: string | null;
+  messageCount: number;
+};
+
+/** Default checkpointer: process-local, one history per `thread_id`. */
+export function createCheckpointer(): BaseCheckpointSaver {
+  return new MemorySaver();
+}
+
+/** Runnable config addressing a session's thread, optionally pinned to a checkpoint. */
+export function threadConfig(sessionId: string, checkpointId?: string): RunnableConfig {
+  return {
+    configurable: {
+      thread_id: sessionId,
+      ...(checkpointId ? { checkpoint_id: checkpointId } : {}),
+    },
+  };
+}
+
+function requireCheckpointer(graphApp: CompiledGraph): void {
+  if (!graphApp.checkpointer) {
+    throw new Error(`Graph "${graphApp.graphId}" was compiled without a checkpointer`);
+  }
+}
+
+/**
+ * State of a session's thread at its latest checkpoint, or at `checkpointId`
+ * when given. Returns null when the thread (or checkpoint) does not exist.
+ */
+export async function getThreadState(
+  graphApp: CompiledGraph,
+  sessionId: string,
+  checkpointId?: string
+): Promise<CfsState | null> {
+  requireCheckpointer(graphApp);
+  const snapshot = await graphApp.compiled.getState(threadConfig(sessionId, checkpointId));
+  if (!snapshot?.createdAt) return null;
+  return (graphApp.stateSchema ?? CfsStateSchema).parse(snapshot.values);
+}
+
+/** Checkpoint history for a session's thread, newest first. */
+export async function getThreadHistory(
+  graphApp: CompiledGraph,
+  sessionId: string,
+  options: { limit?: number } = {}
+): Promise<ThreadCheckpoint[]> {
+  requireCheckpointer(graphApp);
+  const history: ThreadCheckpoint[] = [];
+  for await (const snapshot of graphApp.compiled.getStateHistory(threadConfig(sessionId), options)) {
+    const values = (snapshot.values ?? {}) as Partial<CfsState>;
+    history.push({
+      checkpointId: snapshot.config?.configurable?.checkpoint_id,
+      parentCheckpointId: snapshot.parentConfig?.configurable?.checkpoint_id ?? null,
+      createdAt: snapshot.createdAt ?? null,
+      step: snapshot.metadata?.step ?? -1,
+      source: snapshot.metadata?.source ?? null,
+      next: [...(snapshot.next ?? [])],
+      flowStep: values.session_context?.step ?? null,
+      lastQuestionKey: values.session_context?.last_question_key ?? null,
+      messageCount: values.messages?.length ?? 0,
+    });
+  }
+  return history;
+}
+
+/**
+ * Drop every checkpoint recorded for a session's thread. Uses the saver's own
+ * `deleteThread` when it has one; MemorySaver (0.0.x) is cleared directly.
+ */
+export async function deleteThread(graphApp: CompiledGraph, sessionId: string): Promise<void> {
+  const saver = graphApp.checkpointer as (BaseCheckpointSaver & { deleteThread?: (id: string) => Promise<void> }) | undefined;
+  if (!saver) return;
+  if (typeof saver.deleteThread === "function") {
+    await saver.deleteThread(sessionId);
+  } else if (saver instanceof MemorySaver) {
+    delete saver.storage[sessionId];
+    for (const key of Object.keys(saver.writes)) {
+      if (JSON.parse(key)[0] === sessionId) delete saver.writes[key];
+    }
+  }
+}
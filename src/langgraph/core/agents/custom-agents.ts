@@ -0,0 +1,98 @@
+import type {
+  CustomSignalDimension,
+  SignalAction,
+  SignalAgentResult,
+  SignalContext,
+  SignalEvent,
+  SignalTurnRecord,
+} from "./signal-types.js";
+import { COMPOSITE_WEIGHTS, EMA_ALPHA } from "./signal-defaults.js";
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, Number.isFinite(n) ? n : 0.5));
+
+/**
+ * Scores every custom dimension for this turn. An agent that throws or does
+ * not answer within `ttlMs` is left out; the others still count.
+ */
+export async function runCustomAgents(
+  ctx: SignalContext,
+  dimensions: CustomSignalDimension[],
+  ttlMs: number
+): Promise<SignalAgentResult[]> {
+  const results = await Promise.all(
+    dimensions.map(async ({ dimension, agent }): Promise<SignalAgentResult | null> => {
+      const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), ttlMs - 50).unref?.());
+      const scored = await Promise.race([Promise.resolve().then(() => agent.score(ctx)), timeout]).catch(() => null);
+      if (!scored) return null;
+      return {
+        dimension,
+        score: clamp01(scored.score),
+        confidence: clamp01(scored.confidence),
+        source: "heuristic",
+        timestamp: Date.now(),
+      };
+    })
+  );
+  return results.filter((r): r is SignalAgentResult => r !== null);
+}
+
+/** EMA-smoothed custom scores, the same way the built-in dimensions are smoothed. */
+export function smoothCustomScores(previous: Record<string, number>, results: SignalAgentResult[]): Record<string, number> {
+  const next = { ...previous };
+  for (const result of results) {
+    const alpha = EMA_ALPHA * result.confidence;
+    next[result.dimension] = clamp01(alpha * result.score + (1 - alpha) * (previous[result.dimension] ?? 0.5));
+  }
+  return next;
+}
+
+/**
+ * Overall score: the built-in composite with each custom dimension folded in
+ * by its weight. Custom weights are relative to the built-in ones, which sum
+ * to 1, so the result stays between 0 and 1. Missing custom scores count as 0.5.
+ */
+export function compositeScore(
+  scores: Record<keyof typeof COMPOSITE_WEIGHTS, number>,
+  dimensions: Array<Pick<CustomSignalDimension, "dimension" | "weight">> = [],
+  customScores: Record<string, number> = {}
+): number {
+  const builtin = (Object.keys(COMPOSITE_WEIGHTS) as Array<keyof typeof COMPOSITE_WEIGHTS>).reduce(
+    (sum, dimension) => sum + scores[dimension] * COMPOSITE_WEIGHTS[dimension],
+    0
+  );
+  const customWeight = dimensions.reduce((sum, c) => sum + c.weight, 0);
+  const weighted = dimensions.reduce((sum, c) => sum + c.weight * (customScores[c.dimension] ?? 0.5), 0);
+  return clamp01((builtin + weighted) / (1 + customWeight));
+}
+
+/**
+ * Events each custom agent detects from its dimension's history (which ends
+ * with the current turn), plus the actions the flow maps those events to.
+ */
+export function detectCustomEvents(
+  history: SignalTurnRecord[],
+  dimensions: CustomSignalDimension[],
+  timestamp: number
+): { events: SignalEvent[]; actions: SignalAction[] } {
+  const events: SignalEvent[] = [];
+  const actions: SignalAction[] = [];
+  for (const { dimension, agent, actions: mapped } of dimensions) {
+    const scores = history.map((r) => r.custom?.[dimension]).filter((s): s is number => typeof s === "number");
+    if (!agent.detectEvents || scores.length === 0) continue;
+    let detected: ReturnType<NonNullable<typeof agent.detectEvents>> = [];
+    try {
+      detected = agent.detectEvents(scores);
+      // A detector that returns anything but a list of events is skipped like one that throws.
+      if (!Array.isArray(detected) || !detected.every((event) => typeof event?.type === "string")) continue;
+    } catch {
+      continue;
+    }
+    for (const event of detected) {
+      events.push({ type: event.type, timestamp, details: { dimension, ...event.details } });
+      for (const action of mapped[event.type] ?? []) {
+        actions.push({ ...action, reason: `${event.type} detected`, timestamp });
+      }
+    }
+  }
+  return { events, actions };
+}
@@ -1,19 +1,23 @@
 import type { SignalAgentResult } from "./signal-types.js";
 import type { SignalContext } from "./signal-types.js";
-import { ENGAGEMENT_WEIGHTS } from "./signal-defaults.js";
 import { extractEngagementFeatures } from "./extractors.js";
+import { DEFAULT_EXTRACTOR_CONFIG, type ExtractorConfig } from "./extractor-config.js";
 import { computeConfidence } from "./confidence.js";
 
 /**
  * Heuristic-only engagement agent. No LLM calls.
  */
-export async function runEngagementAgent(ctx: SignalContext): Promise<SignalAgentResult> {
-  const features = extractEngagementFeatures(ctx);
+export async function runEngagementAgent(
+  ctx: SignalContext,
+  config: ExtractorConfig = DEFAULT_EXTRACTOR_CONFIG
+): Promise<SignalAgentResult> {
+  const features = extractEngagementFeatures(ctx, config);
+  const weights = config.weights.engagement;
   const score =
-    features.followUpRatio * ENGAGEMENT_WEIGHTS.followUpRatio +
-    features.elaborationDepth * ENGAGEMENT_WEIGHTS.elaborationDepth +
-    features.backChanneling * ENGAGEMENT_WEIGHTS.backChanneling +
-    features.topicContinuity * ENGAGEMENT_WEIGHTS.topicContinuity;
+    features.followUpRatio * weights.followUpRatio +
+    features.elaborationDepth * weights.elaborationDepth +
+    features.backChanneling * weights.backChanneling +
+    features.topicContinuity * weights.topicContinuity;
   const clamped = Math.max(0, Math.min(1, score));
   const confidence = computeConfidence(
     { followUpRatio: features.followUpRatio, elaborationDepth: features.elaborationDepth, backChanneling: features.backChanneling, topicContinuity: features.topicContinuity },
@@ -0,0 +1,122 @@
+import * as z from "zod";
+import { SENTIMENT_LEXICON } from "../helpers/sentiment-lexicon.js";
+import { ENGAGEMENT_WEIGHTS, INTENT_WEIGHTS, SENTIMENT_WEIGHTS, TRUST_WEIGHTS } from "./signal-defaults.js";
+
+/** Named regex patterns the heuristic feature extractors count matches of. */
+export const EXTRACTOR_PATTERN_NAMES = [
+  "followUp",
+  "backChannel",
+  "intensifier",
+  "pivot",
+  "futureOriented",
+  "collaborativePronouns",
+  "vulnerability",
+  "specificity",
+  "consistency",
+  "cooperation",
+  "rushing",
+  "deflection",
+  "challenge",
+  "confusion",
+] as const;
+
+export type ExtractorPatternName = (typeof EXTRACTOR_PATTERN_NAMES)[number];
+
+/**
+ * Everything the heuristic signal agents can be tuned with: extractor
+ * patterns, the sentiment lexicon and per-agent feature weights.
+ */
+export type ExtractorConfig = {
+  patterns: Record<ExtractorPatternName, RegExp>;
+  lexicon: Record<string, number>;
+  weights: {
+    engagement: typeof ENGAGEMENT_WEIGHTS;
+    sentiment: typeof SENTIMENT_WEIGHTS;
+    trust: typeof TRUST_WEIGHTS;
+    intent: typeof INTENT_WEIGHTS;
+  };
+};
+
+export const DEFAULT_EXTRACTOR_CONFIG: ExtractorConfig = {
+  patterns: {
+    followUp: /\b(what next|how does|can you explain|tell me more|why is that|could you clarify)\b|\?/gi,
+    backChannel: /\b(i see|makes sense|got it|understood|okay|sure|right)\b/gi,
+    intensifier: /\b(very|extremely|exceptionally|really|absolutely|incredibly)\b/gi,
+    pivot: /\b(but|however|though|although)\b/gi,
+    futureOriented: /\b(we will|when we implement|going to|plan to|will help)\b/gi,
+    collaborativePronouns: /\b(we|us|our|together)\b/gi,
+    vulnerability: /\b(we failed|lesson learned|mistake|challenge|struggled)\b/gi,
+    specificity: /\b(\d+%|\d+\.\d+|\d+ users|\d+ teams)\b|\b(specific|concrete|exactly|precisely)\b/gi,
+    consistency: /\b(agree|align|makes sense|exactly right)\b/gi,
+    cooperation: /\b(we're looking|we need|we want|our team|together|let's|we should)\b/gi,
+    rushing: /\b(whatever|sure whatever|that's fine|fine|ok|okay|whatever works)\b/gi,
+    deflection: /\b(team decision|someone else|i'd have to check|that's more of a|not my area)\b/gi,
+    challenge: /\b(how is this different|what about|how does that|why would|compared to)\b/gi,
+    confusion: /\b(not sure what|don't understand|could you clarify|what do you mean|i'm confused)\b/gi,
+  },
+  lexicon: SENTIMENT_LEXICON,
+  weights: {
+    engagement: ENGAGEMENT_WEIGHTS,
+    sentiment: SENTIMENT_WEIGHTS,
+    trust: TRUST_WEIGHTS,
+    intent: INTENT_WEIGHTS,
+  },
+};
+
+const weightOverrides = <T extends Record<string, number>>(defaults: T) =>
+  z
+    .object(Object.fromEntries(Object.keys(defaults).map((key) => [key, z.number().min(0).max(1).optional()])))
+    .strict()
+    .optional();
+
+/**
+ * Changes to the default extractor config, e.g. from a YAML file:
+ * patterns are regex sources (matched case-insensitively), lexicon entries
+ * score words from -5 to 5, weights replace individual feature weights.
+ */
+export const ExtractorOverridesSchema = z
+  .object({
+    patterns: z
+      .object(Object.fromEntries(EXTRACTOR_PATTERN_NAMES.map((name) => [name, z.string().min(1).optional()])))
+      .strict()
+      .default({}),
+    lexicon: z.record(z.string(), z.number().min(-5).max(5)).default({}),
+    weights: z
+      .object({
+        engagement: weightOverrides(ENGAGEMENT_WEIGHTS),
+        sentiment: weightOverrides(SENTIMENT_WEIGHTS),
+        trust: weightOverrides(TRUST_WEIGHTS),
+        intent: weightOverrides(INTENT_WEIGHTS),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type ExtractorOverrides = z.input<typeof ExtractorOverridesSchema>;
+
+/** The default config with `overrides` applied. Throws on unknown keys or invalid patterns. */
+export function resolveExtractorConfig(overrides: unknown = {}): ExtractorConfig {
+  const parsed = ExtractorOverridesSchema.parse(overrides ?? {});
+  const patterns = { ...DEFAULT_EXTRACTOR_CONFIG.patterns };
+  for (const [name, source] of Object.entries(parsed.patterns) as Array<[ExtractorPatternName, string | undefined]>) {
+    if (source === undefined) continue;
+    try {
+      patterns[name] = new RegExp(source, "gi");
+    } catch (err) {
+      throw new Error(`Invalid extractor pattern "${name}": ${(err as Error).message}`);
+    }
+  }
+  const weights = DEFAULT_EXTRACTOR_CONFIG.weights;
+  const merged = <K extends keyof typeof weights>(agent: K) => ({ ...weights[agent], ...parsed.weights[agent] }) as (typeof weights)[K];
+  return {
+    patterns,
+    lexicon: { ...DEFAULT_EXTRACTOR_CONFIG.lexicon, ...parsed.lexicon },
+    weights: {
+      engagement: merged("engagement"),
+      sentiment: merged("sentiment"),
+      trust: merged("trust"),
+      intent: merged("intent"),
+    },
+  };
+}
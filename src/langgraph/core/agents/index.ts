@@ -4,8 +4,12 @@ export type {
   SignalTurnRecord,
   SignalOrchestratorResult,
   SignalContext,
+  SignalScore,
+  CustomSignalAgent,
+  CustomSignalDimension,
 } from "./signal-types.js";
 export { buildSignalContext } from "./signal-context.js";
+export { applySignalPolicy, newSignalActions, type SignalPolicy } from "./signal-policy.js";
 export {
   COMPOSITE_WEIGHTS,
   EMA_ALPHA,
@@ -1,21 +1,25 @@
 import type { SignalAgentResult } from "./signal-types.js";
 import type { SignalContext } from "./signal-types.js";
-import { INTENT_WEIGHTS } from "./signal-defaults.js";
 import { extractIntentFeatures } from "./extractors.js";
+import { DEFAULT_EXTRACTOR_CONFIG, type ExtractorConfig } from "./extractor-config.js";
 import { computeConfidence } from "./confidence.js";
 
 /**
  * Heuristic-only intent agent. No LLM calls.
  * Scores cooperative vs. disengaged intent.
  */
-export async function runIntentAgent(ctx: SignalContext): Promise<SignalAgentResult> {
-  const features = extractIntentFeatures(ctx);
+export async function runIntentAgent(
+  ctx: SignalContext,
+  config: ExtractorConfig = DEFAULT_EXTRACTOR_CONFIG
+): Promise<SignalAgentResult> {
+  const features = extractIntentFeatures(ctx, config);
+  const weights = config.weights.intent;
   const score =
-    features.cooperationSignal * INTENT_WEIGHTS.cooperationSignal +
-    (1 - features.rushingSignal) * INTENT_WEIGHTS.rushingSignal +
-    (1 - features.deflectionSignal) * INTENT_WEIGHTS.deflectionSignal +
-    features.challengeSignal * INTENT_WEIGHTS.challengeSignal +
-    (1 - features.confusionSignal) * INTENT_WEIGHTS.confusionSignal;
+    features.cooperationSignal * weights.cooperationSignal +
+    (1 - features.rushingSignal) * weights.rushingSignal +
+    (1 - features.deflectionSignal) * weights.deflectionSignal +
+    features.challengeSignal * weights.challengeSignal +
+    (1 - features.confusionSignal) * weights.confusionSignal;
   const clamped = Math.max(0, Math.min(1, score));
   const confidence = computeConfidence(
     { cooperationSignal: features.cooperationSignal, rushingSignal: features.rushingSignal, deflectionSignal: features.deflectionSignal, challengeSignal: features.challengeSignal, confusionSignal: features.confusionSignal },
@@ -2,7 +2,7 @@ import * as z from "zod";
 import { HumanMessage } from "@langchain/core/messages";
 import type { SignalContext } from "./signal-types.js";
 import type { SignalAgentResult } from "./signal-types.js";
-import { getModel } from "../config/model-factory.js";
+import { INTERNAL_RUN_TAGS, getModel } from "../config/model-factory.js";
 
 const LLMResponseSchema = z.object({
   engagement: z.number().min(0).max(1),
@@ -25,7 +25,7 @@ Question purpose: ${ctx.questionPurpose ?? "unknown"}
 
 Return JSON only: {"engagement":0.0-1.0,"sentiment":0.0-1.0,"trust":0.0-1.0,"intent":0.0-1.0}`;
 
-    const response = await model.invoke([new HumanMessage(prompt)], { runName: "llmSignalAssessment" });
+    const response = await model.invoke([new HumanMessage(prompt)], { runName: "llmSignalAssessment", tags: INTERNAL_RUN_TAGS });
     const content = typeof response.content === "string" ? response.content : String(response.content ?? "");
     const json = content.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
     const parsed = JSON.parse(json);
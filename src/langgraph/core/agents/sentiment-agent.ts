@@ -1,20 +1,24 @@
 import type { SignalAgentResult } from "./signal-types.js";
 import type { SignalContext } from "./signal-types.js";
-import { SENTIMENT_WEIGHTS } from "./signal-defaults.js";
 import { extractSentimentFeatures } from "./extractors.js";
+import { DEFAULT_EXTRACTOR_CONFIG, type ExtractorConfig } from "./extractor-config.js";
 import { computeConfidence } from "./confidence.js";
 
 /**
  * Heuristic-only sentiment agent. Uses existing detectSentiment().
  * No LLM calls.
  */
-export async function runSentimentAgent(ctx: SignalContext): Promise<SignalAgentResult> {
-  const features = extractSentimentFeatures(ctx);
+export async function runSentimentAgent(
+  ctx: SignalContext,
+  config: ExtractorConfig = DEFAULT_EXTRACTOR_CONFIG
+): Promise<SignalAgentResult> {
+  const features = extractSentimentFeatures(ctx, config);
+  const weights = config.weights.sentiment;
   const score =
-    features.baseValence * SENTIMENT_WEIGHTS.baseValence +
-    features.intensifierMagnitude * SENTIMENT_WEIGHTS.intensifierMagnitude +
-    features.pivotClause * SENTIMENT_WEIGHTS.pivotClause +
-    features.futureOrientation * SENTIMENT_WEIGHTS.futureOrientation;
+    features.baseValence * weights.baseValence +
+    features.intensifierMagnitude * weights.intensifierMagnitude +
+    features.pivotClause * weights.pivotClause +
+    features.futureOrientation * weights.futureOrientation;
   const clamped = Math.max(0, Math.min(1, score));
   const confidence = computeConfidence(
     { baseValence: features.baseValence, intensifierMagnitude: features.intensifierMagnitude, pivotClause: features.pivotClause, futureOrientation: features.futureOrientation },
@@ -0,0 +1,189 @@
+import * as z from "zod";
+import type { SignalContext } from "./signal-types.js";
+import { BUILTIN_SIGNAL_DIMENSIONS } from "./signal-types.js";
+import type { ExtractorConfig } from "./extractor-config.js";
+import { runEngagementAgent } from "./engagement-agent.js";
+import { runSentimentAgent } from "./sentiment-agent.js";
+import { runTrustAgent } from "./trust-agent.js";
+import { runIntentAgent } from "./intent-agent.js";
+
+type Dimension = (typeof BUILTIN_SIGNAL_DIMENSIONS)[number];
+
+export const SIGNAL_LABELS = ["low", "neutral", "high"] as const;
+export type SignalLabel = (typeof SIGNAL_LABELS)[number];
+
+/** Scores below `low` read as "low", above `high` as "high", otherwise "neutral". */
+export const LABEL_THRESHOLDS = { low: 0.4, high: 0.6 };
+
+/**
+ * One line of a labeled-utterance dataset (JSONL): the user's message, the
+ * context the agents see, and the expected level per dimension. Unlabeled
+ * dimensions are not scored for that utterance.
+ */
+export const LabeledUtteranceSchema = z
+  .object({
+    id: z.string().min(1),
+    text: z.string().min(1),
+    lastBotMessage: z.string().nullable().default(null),
+    questionPurpose: z.enum(["confirm", "select", "collect"]).nullable().default(null),
+    labels: z
+      .object(Object.fromEntries(BUILTIN_SIGNAL_DIMENSIONS.map((d) => [d, z.enum(SIGNAL_LABELS).optional()])))
+      .strict()
+      .refine((labels) => Object.keys(labels).length > 0, "at least one dimension must be labeled"),
+  })
+  .strict();
+
+export type LabeledUtterance = z.infer<typeof LabeledUtteranceSchema>;
+
+/** Parses JSONL dataset text; blank lines are skipped, errors name the line. */
+export function parseSignalDataset(text: string): LabeledUtterance[] {
+  return text.split("\n").flatMap((line, i) => {
+    if (!line.trim()) return [];
+    try {
+      return [LabeledUtteranceSchema.parse(JSON.parse(line))];
+    } catch (err) {
+      const detail = err instanceof z.ZodError ? err.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") : (err as Error).message;
+      throw new Error(`Dataset line ${i + 1}: ${detail}`);
+    }
+  });
+}
+
+export type SignalPrediction = {
+  id: string;
+  dimension: Dimension;
+  label: SignalLabel;
+  predicted: SignalLabel;
+  score: number;
+  confidence: number;
+};
+
+export type DimensionReport = {
+  examples: number;
+  accuracy: number;
+  classes: Record<SignalLabel, { precision: number; recall: number; support: number }>;
+  /** Expected calibration error of `confidence` as a predictor of a correct label, over 5 bins. */
+  calibration: { ece: number; bins: Array<{ from: number; to: number; count: number; meanConfidence: number; accuracy: number }> };
+};
+
+export type SignalEvalReport = {
+  examples: number;
+  dimensions: Partial<Record<Dimension, DimensionReport>>;
+  misses: SignalPrediction[];
+};
+
+const AGENTS: Record<Dimension, (ctx: SignalContext, config: ExtractorConfig) => ReturnType<typeof runEngagementAgent>> = {
+  engagement: runEngagementAgent,
+  sentiment: runSentimentAgent,
+  trust: runTrustAgent,
+  intent: runIntentAgent,
+};
+
+const CALIBRATION_BINS = 5;
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+const ratio = (n: number, d: number) => (d === 0 ? 0 : round(n / d));
+
+export function labelForScore(score: number): SignalLabel {
+  if (score < LABEL_THRESHOLDS.low) return "low";
+  if (score > LABEL_THRESHOLDS.high) return "high";
+  return "neutral";
+}
+
+/** Runs every labeled dimension's agent over the dataset with `config`. */
+export async function predictSignals(dataset: LabeledUtterance[], config: ExtractorConfig): Promise<SignalPrediction[]> {
+  const predictions: SignalPrediction[] = [];
+  for (const utterance of dataset) {
+    const ctx: SignalContext = {
+      userText: utterance.text,
+      lastBotMessage: utterance.lastBotMessage,
+      questionKey: null,
+      questionPurpose: utterance.questionPurpose,
+      priorPairs: [],
+    };
+    for (const dimension of BUILTIN_SIGNAL_DIMENSIONS) {
+      const label = utterance.labels[dimension];
+      if (!label) continue;
+      const { score, confidence } = await AGENTS[dimension](ctx, config);
+      predictions.push({ id: utterance.id, dimension, label, predicted: labelForScore(score), score: round(score), confidence: round(confidence) });
+    }
+  }
+  return predictions;
+}
+
+function dimensionReport(predictions: SignalPrediction[]): DimensionReport {
+  const correct = (p: SignalPrediction) => p.label === p.predicted;
+  const classes = Object.fromEntries(
+    SIGNAL_LABELS.map((label) => {
+      const truePositives = predictions.filter((p) => p.predicted === label && correct(p)).length;
+      const predicted = predictions.filter((p) => p.predicted === label).length;
+      const support = predictions.filter((p) => p.label === label).length;
+      return [label, { precision: ratio(truePositives, predicted), recall: ratio(truePositives, support), support }];
+    })
+  ) as DimensionReport["classes"];
+
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => {
+    const from = i / CALIBRATION_BINS;
+    const to = (i + 1) / CALIBRATION_BINS;
+    const members = predictions.filter((p) => Math.min(CALIBRATION_BINS - 1, Math.floor(p.confidence * CALIBRATION_BINS)) === i);
+    const meanConfidence = members.reduce((sum, p) => sum + p.confidence, 0) / (members.length || 1);
+    return { from, to, count: members.length, meanConfidence: round(meanConfidence), accuracy: ratio(members.filter(correct).length, members.length) };
+  }).filter((bin) => bin.count > 0);
+  const ece = bins.reduce((sum, bin) => sum + (bin.count / predictions.length) * Math.abs(bin.accuracy - bin.meanConfidence), 0);
+
+  return {
+    examples: predictions.length,
+    accuracy: ratio(predictions.filter(correct).length, predictions.length),
+    classes,
+    calibration: { ece: round(ece), bins },
+  };
+}
+
+/** Precision/recall per label and confidence calibration for each labeled dimension. */
+export function summarizePredictions(predictions: SignalPrediction[], examples: number): SignalEvalReport {
+  const dimensions: SignalEvalReport["dimensions"] = {};
+  for (const dimension of BUILTIN_SIGNAL_DIMENSIONS) {
+    const scored = predictions.filter((p) => p.dimension === dimension);
+    if (scored.length > 0) dimensions[dimension] = dimensionReport(scored);
+  }
+  return { examples, dimensions, misses: predictions.filter((p) => p.label !== p.predicted) };
+}
+
+export async function evaluateSignalExtractors(dataset: LabeledUtterance[], config: ExtractorConfig): Promise<SignalEvalReport> {
+  return summarizePredictions(await predictSignals(dataset, config), dataset.length);
+}
+
+export type SignalEvalComparison = {
+  baseline: Omit<SignalEvalReport, "misses">;
+  candidate: Omit<SignalEvalReport, "misses">;
+  /** Candidate minus baseline; positive accuracy and negative ece deltas are improvements. */
+  delta: Partial<Record<Dimension, { accuracy: number; ece: number }>>;
+  /** Utterances whose predicted label differs between the two configs. */
+  changed: Array<Pick<SignalPrediction, "id" | "dimension" | "label"> & { baseline: SignalLabel; candidate: SignalLabel }>;
+};
+
+/** Evaluates two extractor configs on the same dataset and diffs the results. */
+export async function compareSignalExtractors(
+  dataset: LabeledUtterance[],
+  baselineConfig: ExtractorConfig,
+  candidateConfig: ExtractorConfig
+): Promise<SignalEvalComparison> {
+  const before = await predictSignals(dataset, baselineConfig);
+  const after = await predictSignals(dataset, candidateConfig);
+  const baseline = { examples: dataset.length, dimensions: summarizePredictions(before, dataset.length).dimensions };
+  const candidate = { examples: dataset.length, dimensions: summarizePredictions(after, dataset.length).dimensions };
+
+  const delta: SignalEvalComparison["delta"] = {};
+  for (const [dimension, report] of Object.entries(candidate.dimensions) as Array<[Dimension, DimensionReport]>) {
+    const base = baseline.dimensions[dimension]!;
+    delta[dimension] = {
+      accuracy: round(report.accuracy - base.accuracy),
+      ece: round(report.calibration.ece - base.calibration.ece),
+    };
+  }
+  const changed = before.flatMap((b, i) =>
+    b.predicted === after[i].predicted
+      ? []
+      : [{ id: b.id, dimension: b.dimension, label: b.label, baseline: b.predicted, candidate: after[i].predicted }]
+  );
+  return { baseline, candidate, delta, changed };
+}
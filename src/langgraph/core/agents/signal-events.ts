@@ -68,7 +68,7 @@ export function suggestSignalActions(events: SignalEvent[]): SignalAction[] {
     for (const c of configs) {
       if (!seen.has(c.type)) {
         seen.add(c.type);
-        actions.push({ type: c.type, priority: c.priority, reason: `${e.type} detected` });
+        actions.push({ type: c.type, priority: c.priority, reason: `${e.type} detected`, timestamp: e.timestamp });
       }
     }
   }
@@ -1,7 +1,6 @@
 import type { CfsState } from "../../state.js";
-import type { SignalAgentResult, SignalOrchestratorResult, SignalTurnRecord } from "./signal-types.js";
+import type { CustomSignalDimension, SignalAgentResult, SignalOrchestratorResult, SignalTurnRecord } from "./signal-types.js";
 import {
-  COMPOSITE_WEIGHTS,
   EMA_ALPHA,
   EVENTS_LIMIT,
   HISTORY_LIMIT,
@@ -14,8 +13,15 @@ import { runTrustAgent } from "./trust-agent.js";
 import { runIntentAgent } from "./intent-agent.js";
 import { detectSignalEvents, suggestSignalActions } from "./signal-events.js";
 import { runLlmSignalAgent } from "./llm-signal-agent.js";
+import { compositeScore, detectCustomEvents, runCustomAgents, smoothCustomScores } from "./custom-agents.js";
 
-export type SignalAgentConfig = { enabled: boolean; ttlMs: number; llmEnabled?: boolean };
+export type SignalAgentConfig = {
+  enabled: boolean;
+  ttlMs: number;
+  llmEnabled?: boolean;
+  /** The flow's custom dimensions, agents resolved at compile time. */
+  custom?: CustomSignalDimension[];
+};
 
 /**
  * Run all signal agents in parallel, enforce TTL, aggregate results with EMA.
@@ -41,7 +47,8 @@ export async function runSignalOrchestrator(
     const runHeuristics = (): Promise<SignalAgentResult[]> =>
       Promise.all([runEngagementAgent(ctx), runSentimentAgent(ctx), runTrustAgent(ctx), runIntentAgent(ctx)]);
 
-    const heuristicResults = await runHeuristics();
+    const custom = config.custom ?? [];
+    const [heuristicResults, customResults] = await Promise.all([runHeuristics(), runCustomAgents(ctx, custom, ttlMs)]);
     const llmResults = llmEnabled
       ? await Promise.race([
           runLlmSignalAgent(ctx),
@@ -69,11 +76,13 @@ export async function runSignalOrchestrator(
     const trust_score = effectiveAlpha * trust + (1 - effectiveAlpha) * prevTrust;
     const intent_score = effectiveAlpha * intent + (1 - effectiveAlpha) * prevIntent;
 
-    const overall_conversation_score =
-      engagement_score * COMPOSITE_WEIGHTS.engagement +
-      sentiment_score * COMPOSITE_WEIGHTS.sentiment +
-      trust_score * COMPOSITE_WEIGHTS.trust +
-      intent_score * COMPOSITE_WEIGHTS.intent;
+    const custom_scores = smoothCustomScores(rc.custom_scores ?? {}, customResults);
+    const overall_conversation_score = compositeScore(
+      { engagement: engagement_score, sentiment: sentiment_score, trust: trust_score, intent: intent_score },
+      custom,
+      custom_scores
+    );
+    const rawCustom = Object.fromEntries(customResults.map((r) => [r.dimension, r.score]));
 
     const turn_count = (typeof rc.turn_count === "number" ? rc.turn_count : 0) + 1;
     const timestamp = Date.now();
@@ -87,14 +96,22 @@ export async function runSignalOrchestrator(
       intent,
       confidence: avgConfidence,
       source: "heuristic",
+      step: state.session_context?.step ?? null,
+      question_key: state.session_context?.last_question_key ?? null,
+      // This turn's scores weighed like the live overall score; agents that did not answer count as smoothed.
+      overall: compositeScore({ engagement, sentiment, trust, intent }, custom, { ...custom_scores, ...rawCustom }),
+      ...(customResults.length > 0 ? { custom: rawCustom } : {}),
     };
 
     const prevHistory = Array.isArray(rc.signal_history) ? rc.signal_history : [];
     const signal_history = [...prevHistory, record].slice(-HISTORY_LIMIT);
 
     const currentScores = { engagement, sentiment, trust, intent };
-    const currentEvents = detectSignalEvents(signal_history, currentScores);
-    const currentActions = suggestSignalActions(currentEvents);
+    const customSignals = detectCustomEvents(signal_history, custom, timestamp);
+    const currentEvents = [...detectSignalEvents(signal_history, currentScores), ...customSignals.events];
+    const currentActions = [...suggestSignalActions(currentEvents), ...customSignals.actions].filter(
+      (action, i, all) => all.findIndex((a) => a.type === action.type) === i
+    );
 
     const prevEvents = Array.isArray(rc.signal_events) ? rc.signal_events : [];
     const prevActions = Array.isArray(rc.signal_actions) ? rc.signal_actions : [];
@@ -106,7 +123,8 @@ export async function runSignalOrchestrator(
       sentiment_score: Math.max(0, Math.min(1, sentiment_score)),
       trust_score: Math.max(0, Math.min(1, trust_score)),
       intent_score: Math.max(0, Math.min(1, intent_score)),
-      overall_conversation_score: Math.max(0, Math.min(1, overall_conversation_score)),
+      overall_conversation_score,
+      ...(custom.length > 0 ? { custom_scores } : {}),
       turn_count,
       signal_history,
       signal_events,
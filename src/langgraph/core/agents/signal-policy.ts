@@ -0,0 +1,74 @@
+import type { CfsState } from "../../state.js";
+import type { SignalBehavior } from "../../schema/graph-dsl-types.js";
+import type { SignalAction } from "./signal-types.js";
+import { acknowledgeEmotion } from "../primitives/interaction/acknowledge-emotion.js";
+import { pushAI } from "../helpers/messaging.js";
+import { mergeStatePatch } from "../helpers/state.js";
+
+export type SignalPolicy = Record<string, SignalBehavior>;
+
+const PRIORITY_RANK: Record<SignalAction["priority"], number> = { low: 0, medium: 1, high: 2 };
+
+/** Actions suggested since the policy last ran; untimestamped (legacy) actions are never replayed. */
+export function newSignalActions(state: CfsState): SignalAction[] {
+  const since = state.relationship_context.signal_actions_applied_at ?? 0;
+  return state.relationship_context.signal_actions.filter((action) => (action.timestamp ?? 0) > since);
+}
+
+/** One behaviour for the turn: later actions win, question caps take the tightest. */
+function combineBehaviors(behaviors: SignalBehavior[]): Omit<SignalBehavior, "minPriority"> {
+  const caps = behaviors.map((b) => b.maxRemainingQuestions).filter((n): n is number => n != null);
+  return {
+    overlay: behaviors.map((b) => b.overlay).filter(Boolean).at(-1),
+    maxRemainingQuestions: caps.length > 0 ? Math.min(...caps) : undefined,
+    acknowledgeEmotion: behaviors.map((b) => b.acknowledgeEmotion).filter(Boolean).at(-1),
+    offerReadout: behaviors.map((b) => b.offerReadout).find(Boolean),
+  };
+}
+
+function limitQuestions(state: CfsState, maxRemaining: number): CfsState {
+  const ctx = state.session_context;
+  // The question being answered this turn still counts as asked.
+  const limit = (ctx.awaiting_user ? ctx.step_question_index + 1 : 0) + maxRemaining;
+  const question_limit = ctx.question_limit != null ? Math.min(ctx.question_limit, limit) : limit;
+  return { ...state, session_context: { ...ctx, question_limit } };
+}
+
+/**
+ * Applies the flow's `signalPolicy` to the actions the signal orchestrator
+ * suggested since the last turn. Runs before the graph, so the overlay,
+ * question limit and any inserted message shape this turn's reply. Applied
+ * action types are recorded in `reason_trace` as `signal_policy:<type>`.
+ */
+export function applySignalPolicy(state: CfsState, policy: SignalPolicy): CfsState {
+  const actions = newSignalActions(state);
+  if (actions.length === 0) return state;
+
+  const matched = actions.filter((action) => {
+    const behavior = policy[action.type];
+    return behavior && PRIORITY_RANK[action.priority] >= PRIORITY_RANK[behavior.minPriority];
+  });
+  const behavior = combineBehaviors(matched.map((action) => policy[action.type]));
+
+  let next = state;
+  if (behavior.overlay) next = { ...next, overlay_active: behavior.overlay };
+  if (behavior.maxRemainingQuestions != null) next = limitQuestions(next, behavior.maxRemainingQuestions);
+  if (behavior.acknowledgeEmotion) {
+    next = mergeStatePatch(next, acknowledgeEmotion.run(next, { sentiment: behavior.acknowledgeEmotion }));
+  }
+  const offerReadout = behavior.offerReadout && !next.session_context.early_readout_offered;
+  if (offerReadout) next = mergeStatePatch(next, pushAI(next, behavior.offerReadout!));
+
+  return {
+    ...next,
+    relationship_context: {
+      ...next.relationship_context,
+      signal_actions_applied_at: Math.max(...actions.map((action) => action.timestamp ?? 0)),
+    },
+    session_context: {
+      ...next.session_context,
+      early_readout_offered: next.session_context.early_readout_offered || Boolean(offerReadout),
+      reason_trace: [...next.session_context.reason_trace, ...matched.map((action) => `signal_policy:${action.type}`)],
+    },
+  };
+}
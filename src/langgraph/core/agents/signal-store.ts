@@ -1,8 +1,15 @@
+import type { LlmUsageEntry } from "../../slices/llm-usage.js";
 import type { SignalOrchestratorResult } from "./signal-types.js";
 
 const MAX_ENTRIES = 1000;
 
-const store = new Map<string, SignalOrchestratorResult>();
+/** An orchestrator result and the LLM usage it took to produce it. */
+export type PendingSignal = {
+  result: SignalOrchestratorResult;
+  usage: LlmUsageEntry[];
+};
+
+const store = new Map<string, PendingSignal>();
 
 function evictIfNeeded(): void {
   if (store.size >= MAX_ENTRIES) {
@@ -11,23 +18,36 @@ function evictIfNeeded(): void {
   }
 }
 
+/**
+ * Key a session's pending signal under `scope` (a hosted app's session
+ * namespace), so equal session ids in different apps never share an entry.
+ */
+export function pendingSignalKey(scope: string | undefined, sessionId: string): string {
+  return scope ? `${scope}/${sessionId}` : sessionId;
+}
+
 /**
  * Session-scoped pending signal store for deferred merge.
  * Results from turn N are read and merged at the start of turn N+1.
  */
 export function getPendingSignal(sessionId: string): SignalOrchestratorResult | null {
-  const result = store.get(sessionId) ?? null;
-  if (result) store.delete(sessionId);
-  return result;
+  return takePendingSignal(sessionId)?.result ?? null;
+}
+
+/** Like getPendingSignal, with the usage the next turn should record. */
+export function takePendingSignal(sessionId: string): PendingSignal | null {
+  const pending = store.get(sessionId) ?? null;
+  if (pending) store.delete(sessionId);
+  return pending;
 }
 
 /**
  * Store a completed orchestrator result for the given session.
  * Called when the orchestrator finishes (fire-and-forget).
  */
-export function setPendingSignal(sessionId: string, result: SignalOrchestratorResult): void {
+export function setPendingSignal(sessionId: string, result: SignalOrchestratorResult, usage: LlmUsageEntry[] = []): void {
   evictIfNeeded();
-  store.set(sessionId, result);
+  store.set(sessionId, { result, usage });
 }
 
 /**
@@ -9,9 +9,11 @@ export interface SignalContext {
   priorPairs: Array<{ bot: string; user: string }>;
 }
 
-/** Single dimension result from one agent (engagement, sentiment, trust, or intent). */
+export const BUILTIN_SIGNAL_DIMENSIONS = ["engagement", "sentiment", "trust", "intent"] as const;
+
+/** Single dimension result from one agent: a built-in dimension or one contributed by a custom agent. */
 export const SignalAgentResultSchema = z.object({
-  dimension: z.enum(["engagement", "sentiment", "trust", "intent"]),
+  dimension: z.string().min(1),
   score: z.number().min(0).max(1),
   confidence: z.number().min(0).max(1),
   source: z.enum(["heuristic", "llm"]),
@@ -29,6 +31,13 @@ export const SignalTurnRecordSchema = z.object({
   intent: z.number().min(0).max(1),
   confidence: z.number().min(0).max(1),
   source: z.literal("heuristic"),
+  /** Step and question the user was answering; absent on records from before signal analytics. */
+  step: z.string().nullable().optional(),
+  question_key: z.string().nullable().optional(),
+  /** This turn's overall score, custom dimensions included; absent on records from before custom agents. */
+  overall: z.number().min(0).max(1).optional(),
+  /** Raw scores of custom dimensions this turn. */
+  custom: z.record(z.string(), z.number().min(0).max(1)).optional(),
 });
 export type SignalTurnRecord = z.infer<typeof SignalTurnRecordSchema>;
 
@@ -43,6 +52,8 @@ export const SignalActionSchema = z.object({
   type: z.string(),
   priority: z.enum(["low", "medium", "high"]),
   reason: z.string(),
+  /** When the triggering event was detected; absent on actions recorded before signal policies. */
+  timestamp: z.number().optional(),
 });
 export type SignalAction = z.infer<typeof SignalActionSchema>;
 
@@ -53,6 +64,8 @@ export const SignalOrchestratorResultSchema = z.object({
   trust_score: z.number().min(0).max(1),
   intent_score: z.number().min(0).max(1),
   overall_conversation_score: z.number().min(0).max(1),
+  /** Smoothed custom dimension scores; absent when the flow has no custom agents. */
+  custom_scores: z.record(z.string(), z.number().min(0).max(1)).optional(),
   turn_count: z.number().int().min(0),
   signal_history: z.array(SignalTurnRecordSchema),
   signal_events: z.array(SignalEventSchema),
@@ -60,3 +73,26 @@ export const SignalOrchestratorResultSchema = z.object({
   last_signal_timestamp: z.number().nullable(),
 });
 export type SignalOrchestratorResult = z.infer<typeof SignalOrchestratorResultSchema>;
+
+/** What a custom agent reports for its dimension on one turn. */
+export type SignalScore = { score: number; confidence: number };
+
+/**
+ * A signal agent contributed by a flow (see `registerSignalAgent`).
+ * `detectEvents` receives this dimension's raw scores, oldest first, ending
+ * with the current turn.
+ */
+export type CustomSignalAgent = {
+  score: (ctx: SignalContext) => SignalScore | Promise<SignalScore>;
+  detectEvents?: (scores: number[]) => Array<Pick<SignalEvent, "type"> & Partial<Pick<SignalEvent, "details">>>;
+};
+
+/** A custom dimension as configured by the flow, with its agent resolved. */
+export type CustomSignalDimension = {
+  dimension: string;
+  agent: CustomSignalAgent;
+  /** Share of overall_conversation_score, relative to COMPOSITE_WEIGHTS. */
+  weight: number;
+  /** Actions suggested for each event type the agent detects. */
+  actions: Record<string, Array<Pick<SignalAction, "type" | "priority">>>;
+};
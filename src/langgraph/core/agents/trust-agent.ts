@@ -1,19 +1,23 @@
 import type { SignalAgentResult } from "./signal-types.js";
 import type { SignalContext } from "./signal-types.js";
-import { TRUST_WEIGHTS } from "./signal-defaults.js";
 import { extractTrustFeatures } from "./extractors.js";
+import { DEFAULT_EXTRACTOR_CONFIG, type ExtractorConfig } from "./extractor-config.js";
 import { computeConfidence } from "./confidence.js";
 
 /**
  * Heuristic-only trust agent. No LLM calls.
  */
-export async function runTrustAgent(ctx: SignalContext): Promise<SignalAgentResult> {
-  const features = extractTrustFeatures(ctx);
+export async function runTrustAgent(
+  ctx: SignalContext,
+  config: ExtractorConfig = DEFAULT_EXTRACTOR_CONFIG
+): Promise<SignalAgentResult> {
+  const features = extractTrustFeatures(ctx, config);
+  const weights = config.weights.trust;
   const score =
-    features.pronounShift * TRUST_WEIGHTS.pronounShift +
-    features.vulnerabilityTransparency * TRUST_WEIGHTS.vulnerabilityTransparency +
-    features.specificityDetail * TRUST_WEIGHTS.specificityDetail +
-    features.consistencyAlignment * TRUST_WEIGHTS.consistencyAlignment;
+    features.pronounShift * weights.pronounShift +
+    features.vulnerabilityTransparency * weights.vulnerabilityTransparency +
+    features.specificityDetail * weights.specificityDetail +
+    features.consistencyAlignment * weights.consistencyAlignment;
   const clamped = Math.max(0, Math.min(1, score));
   const confidence = computeConfidence(
     { pronounShift: features.pronounShift, vulnerabilityTransparency: features.vulnerabilityTransparency, specificityDetail: features.specificityDetail, consistencyAlignment: features.consistencyAlignment },
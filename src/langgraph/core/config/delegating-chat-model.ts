@@ -0,0 +1,37 @@
+import { BaseChatModel, type BaseChatModelCallOptions } from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import { CallbackManager, type CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+
+export interface DelegatingCallOptions extends BaseChatModelCallOptions {
+  callerRunName?: string;
+}
+
+/**
+ * Base for chat models that wrap other models (fixtures, metering). The
+ * callback layer consumes invoke()'s `runName` before _generate runs, so it is
+ * carried through as `callerRunName`.
+ */
+export abstract class DelegatingChatModel extends BaseChatModel<DelegatingCallOptions> {
+  override invoke(input: BaseLanguageModelInput, options?: DelegatingCallOptions) {
+    return super.invoke(input, { ...options, callerRunName: options?.runName });
+  }
+}
+
+/**
+ * Callbacks for a wrapped model's call, nested under the wrapper's run so token
+ * streaming and tracing still see it. LLM run managers have no getChild(), so
+ * this mirrors it: the wrapped run inherits the wrapper's tags and metadata
+ * (`langgraph_node`, "nostream").
+ */
+export function childCallbacks(runManager?: CallbackManagerForLLMRun): CallbackManager | undefined {
+  if (!runManager) return undefined;
+  const { inheritableTags, inheritableMetadata } = runManager as unknown as {
+    inheritableTags: string[];
+    inheritableMetadata: Record<string, unknown>;
+  };
+  const manager = new CallbackManager(runManager.runId);
+  manager.setHandlers(runManager.handlers);
+  manager.addTags(inheritableTags ?? []);
+  manager.addMetadata(inheritableMetadata ?? {});
+  return manager;
+}
@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { GraphMessagingConfig } from "../../state.js";
+import type { ModelConfig } from "./model-factory.js";
+
+/**
+ * Config a compiled graph carries into every invocation. Lookups such as
+ * requireGraphMessagingConfig(), configString() and getModel() read it from
+ * the async context, so graphs running concurrently never see each other's
+ * prompts, strings or model settings.
+ */
+export type GraphRuntimeContext = {
+  graphId: string;
+  messaging: GraphMessagingConfig | null;
+  models: Record<string, ModelConfig>;
+};
+
+const storage = new AsyncLocalStorage<GraphRuntimeContext>();
+
+/** Run `fn` (and everything it awaits) with `context` as the current graph context. */
+export function runWithGraphContext<T>(context: GraphRuntimeContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/** Context of the graph invocation currently executing, if any. */
+export function getGraphContext(): GraphRuntimeContext | undefined {
+  return storage.getStore();
+}
@@ -1 +1,2 @@
 export * from "./messaging.js";
+export * from "./graph-context.js";
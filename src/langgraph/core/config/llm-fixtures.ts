@@ -0,0 +1,90 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, type BaseMessage, type MessageContent } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+import { DelegatingChatModel } from "./delegating-chat-model.js";
+import type { ModelProvider } from "./model-factory.js";
+
+export type FixtureMode = "record" | "replay";
+
+/** One recorded prompt→response pair, stored at `<dir>/<runName>/<promptHash>.json`. */
+export type LlmFixture = {
+  runName: string;
+  promptHash: string;
+  messages: Array<{ role: string; content: MessageContent }>;
+  response: MessageContent;
+};
+
+const toPromptMessages = (messages: BaseMessage[]): LlmFixture["messages"] =>
+  messages.map((m) => ({ role: m.getType(), content: m.content }));
+
+/** Stable hash of the prompt; any change to system or user text yields a new fixture. */
+export function promptHash(messages: BaseMessage[]): string {
+  return createHash("sha256").update(JSON.stringify(toPromptMessages(messages))).digest("hex").slice(0, 16);
+}
+
+export function fixturePath(dir: string, runName: string, hash: string): string {
+  return path.join(dir, runName.replace(/[^\w.-]/g, "_"), `${hash}.json`);
+}
+
+/**
+ * Chat model that records responses from `inner` to fixture files, or replays
+ * them without network. Fixtures are keyed by the `runName` passed to invoke()
+ * (the model alias when none is given) and a hash of the prompt.
+ */
+export class FixtureChatModel extends DelegatingChatModel {
+  constructor(
+    private readonly mode: FixtureMode,
+    private readonly dir: string,
+    private readonly alias: string,
+    private readonly inner?: BaseChatModel
+  ) {
+    super({});
+  }
+
+  _llmType(): string {
+    return `fixture-${this.mode}`;
+  }
+
+  async _generate(messages: BaseMessage[], options: this["ParsedCallOptions"]): Promise<ChatResult> {
+    const runName = options.callerRunName ?? this.alias;
+    const hash = promptHash(messages);
+    const file = fixturePath(this.dir, runName, hash);
+    const content = this.mode === "record" ? await this.record(file, runName, hash, messages) : await replay(file, runName, hash);
+    return { generations: [{ text: typeof content === "string" ? content : "", message: new AIMessage({ content }) }] };
+  }
+
+  private async record(file: string, runName: string, hash: string, messages: BaseMessage[]): Promise<MessageContent> {
+    if (!this.inner) throw new Error(`Recording "${runName}" requires an underlying model.`);
+    const response = (await this.inner.invoke(messages)).content;
+    const fixture: LlmFixture = { runName, promptHash: hash, messages: toPromptMessages(messages), response };
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+    return response;
+  }
+}
+
+async function replay(file: string, runName: string, hash: string): Promise<MessageContent> {
+  let raw: string;
+  try {
+    raw = await readFile(file, "utf8");
+  } catch {
+    throw new Error(`No LLM fixture for runName "${runName}" (prompt ${hash}). Record it with LLM_MODE=record.`);
+  }
+  return (JSON.parse(raw) as LlmFixture).response;
+}
+
+/**
+ * Provider serving FixtureChatModels from `dir`. Recording wraps models from
+ * `base` and needs it to be available; replay never touches the network.
+ */
+export function createFixtureProvider(mode: FixtureMode, dir: string, base: ModelProvider): ModelProvider {
+  return {
+    name: `${mode}:${dir}`,
+    isAvailable: (config) => mode === "replay" || base.isAvailable(config),
+    createModel: (alias, config) =>
+      new FixtureChatModel(mode, dir, alias, mode === "record" ? base.createModel(alias, config) : undefined),
+  };
+}
@@ -1,7 +1,10 @@
 import type { GraphMessagingConfig } from "../../state.js";
+import { getGraphContext } from "./graph-context.js";
+
+/** Graph whose config is used outside any graph context (legacy single-flow callers and tests). */
+const DEFAULT_GRAPH_ID = "cfs";
 
 const configByGraphId = new Map<string, GraphMessagingConfig>();
-let activeGraphId: string | null = null;
 
 /**
  * Store messaging config for a graph. Call during graph compilation.
@@ -13,45 +16,29 @@ export function setGraphMessagingConfig(graphIdOrConfig: string | GraphMessaging
     if (!config) throw new Error("config is required when graphId is provided");
     configByGraphId.set(graphIdOrConfig, config);
   } else {
-    configByGraphId.set("cfs", graphIdOrConfig);
-    activeGraphId = "cfs";
+    configByGraphId.set(DEFAULT_GRAPH_ID, graphIdOrConfig);
   }
 }
 
-/**
- * Set the active graph ID for the current execution context.
- * Used by runTurn before invoking the graph so requireGraphMessagingConfig() (no-arg) resolves correctly.
- */
-export function setActiveGraphId(graphId: string): void {
-  activeGraphId = graphId;
-}
-
-/**
- * Get the currently active graph ID, if any.
- */
-export function getActiveGraphId(): string | null {
-  return activeGraphId;
-}
-
 export function clearGraphMessagingConfig(): void {
   configByGraphId.clear();
-  activeGraphId = null;
 }
 
 /**
- * Retrieve messaging config. With no arg, uses the active graph ID (set by runTurn).
+ * Retrieve messaging config. With no arg, uses the config of the graph
+ * invocation in progress (see runWithGraphContext), falling back to the
+ * default "cfs" graph outside any invocation.
  * With graphId arg, retrieves config for that graph directly.
  */
 export function requireGraphMessagingConfig(graphId?: string): GraphMessagingConfig {
-  const id = graphId ?? activeGraphId;
-  if (!id) {
-    throw new Error(
-      "Graph messaging config not set. Call setGraphMessagingConfig(graphId, config) during compilation and setActiveGraphId(graphId) before runTurn."
-    );
-  }
+  const context = graphId ? undefined : getGraphContext();
+  if (context?.messaging) return context.messaging;
+  const id = graphId ?? context?.graphId ?? DEFAULT_GRAPH_ID;
   const config = configByGraphId.get(id);
   if (!config) {
-    throw new Error(`No messaging config found for graphId: ${id}. Ensure the graph was compiled with config.`);
+    throw new Error(
+      `No messaging config found for graphId: ${id}. Ensure the graph was compiled with config, or call setGraphMessagingConfig(graphId, config).`
+    );
   }
   return config;
 }
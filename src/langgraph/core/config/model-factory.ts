@@ -1,9 +1,34 @@
-import { ChatOpenAI } from "@langchain/openai";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { getGraphContext } from "./graph-context.js";
+import { createFixtureProvider } from "./llm-fixtures.js";
+import { createVendorModel, hasCredentials } from "./model-vendors.js";
+import { MeteredChatModel } from "../usage/metered-chat-model.js";
+import { isUsageBudgetExceeded } from "../usage/usage-meter.js";
 
-export type ModelConfig = {
+export type LlmVendor = "openai" | "openai-compatible" | "anthropic" | "azure";
+
+/** One vendor endpoint an alias can call. */
+export type ModelTarget = {
+  /** Defaults to "openai". */
+  provider?: LlmVendor;
   model: string;
   temperature: number;
   maxRetries: number;
+  /** Server URL for OpenAI-compatible servers; endpoint override for Azure and Anthropic. */
+  baseUrl?: string;
+  /** Env var holding the API key, when not the vendor's default. */
+  apiKeyEnv?: string;
+  /** Azure only. */
+  apiVersion?: string;
+  /** Azure only. */
+  deployment?: string;
+  /** Abandon the call (and move to the next fallback) after this many milliseconds. */
+  timeoutMs?: number;
+};
+
+export type ModelConfig = ModelTarget & {
+  /** Tried in order when the primary target errors or times out. */
+  fallbacks?: ModelTarget[];
 };
 
 const defaultConfigs: Record<string, ModelConfig> = {
@@ -15,52 +40,113 @@ const defaultConfigs: Record<string, ModelConfig> = {
   signalAssessment: { model: "gpt-3.5-turbo", temperature: 0.2, maxRetries: 1 },
 };
 
+export type ChatModel = BaseChatModel;
+
+/**
+ * Tags for model calls whose output never reaches the user as-is (JSON,
+ * labels, rewrites before review); streamed turns do not forward their tokens.
+ */
+export const INTERNAL_RUN_TAGS = ["nostream"];
+
+/** Source of chat models for getModel(). */
+export type ModelProvider = {
+  name: string;
+  /** False when `config` cannot be served (e.g. no API key); AI paths then use their deterministic fallbacks. */
+  isAvailable(config: ModelConfig): boolean;
+  createModel(alias: string, config: ModelConfig): ChatModel;
+};
+
+/** Calls the vendor named by each config's `provider`. */
+export const liveProvider: ModelProvider = {
+  name: "live",
+  isAvailable: (config) => hasCredentials(config) || (config.fallbacks ?? []).some(hasCredentials),
+  createModel: createVendorModel,
+};
+
+const DEFAULT_FIXTURES_DIR = "fixtures/llm";
+
+/**
+ * Provider selected by LLM_MODE: "live" (default), "record" (call the vendors
+ * and save prompt→response fixtures) or "replay" (serve fixtures offline).
+ * Fixtures live under LLM_FIXTURES_DIR (default fixtures/llm).
+ */
+export function createModelProviderFromEnv(env: NodeJS.ProcessEnv): ModelProvider {
+  const mode = env.LLM_MODE ?? "live";
+  if (mode === "live") return liveProvider;
+  if (mode === "record" || mode === "replay") {
+    return createFixtureProvider(mode, env.LLM_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR, liveProvider);
+  }
+  throw new Error(`Unknown LLM_MODE "${mode}". Expected live, record or replay.`);
+}
+
+let providerOverride: ModelProvider | null = null;
+
+/** Use `provider` instead of the LLM_MODE one; pass null to restore it. Clears cached instances. */
+export function setModelProvider(provider: ModelProvider | null): void {
+  providerOverride = provider;
+  clearModelCache();
+}
+
+export function getModelProvider(): ModelProvider {
+  return providerOverride ?? createModelProviderFromEnv(process.env);
+}
+
 const overrides: Record<string, ModelConfig> = {};
-const cache: Record<string, ChatOpenAI> = {};
+const cache: Record<string, ChatModel> = {};
+
+/** Instances are cached per provider and resolved config so graphs mapping one alias to different models never share one. */
+function cacheKey(alias: string, provider: ModelProvider, config: ModelConfig): string {
+  return `${alias}|${provider.name}|${JSON.stringify(config)}`;
+}
+
+/** Config for `alias`: the current graph context's models, then overrides, then defaultConfigs. */
+function resolveModelConfig(alias: string): ModelConfig | undefined {
+  return getGraphContext()?.models[alias] ?? overrides[alias] ?? defaultConfigs[alias];
+}
 
 /**
- * Register a custom model configuration for a given alias.
- * Calling this clears any cached instance so the next `getModel()` picks up the change.
+ * Whether getModel(alias) can produce a model; AI helpers check this before
+ * calling one. False once the session's LLM budget is used up.
+ */
+export function isModelAvailable(alias: string): boolean {
+  const config = resolveModelConfig(alias);
+  return Boolean(config) && !isUsageBudgetExceeded() && getModelProvider().isAvailable(config!);
+}
+
+/**
+ * Register a process-wide model configuration for a given alias.
+ * Compiled graphs carry their own `config.models` in the graph context, which
+ * takes precedence. Calling this clears cached instances for the alias.
  */
 export function setModelConfig(alias: string, config: ModelConfig): void {
   overrides[alias] = config;
-  delete cache[alias];
+  for (const key of Object.keys(cache)) {
+    if (key.startsWith(`${alias}|`)) delete cache[key];
+  }
 }
 
 /**
- * Return a cached ChatOpenAI instance for the given alias.
- * Looks up the alias in overrides first, then defaultConfigs.
+ * Return a cached chat model from the active provider for the given alias
+ * (see resolveModelConfig for lookup order). Calls are metered into the
+ * current turn's UsageMeter.
  * Throws if no configuration exists and no explicit config is provided.
  *
  * @param alias   - Logical name (e.g. "knowYourCustomer", "readout").
  * @param config  - Optional one-off config; does NOT get cached.
  */
-export function getModel(alias: string, config?: ModelConfig): ChatOpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error(`OPENAI_API_KEY is required to create model "${alias}".`);
-  }
-
-  if (config) {
-    return new ChatOpenAI({
-      model: config.model,
-      temperature: config.temperature,
-      maxRetries: config.maxRetries,
-    });
-  }
-
-  if (cache[alias]) return cache[alias];
+export function getModel(alias: string, config?: ModelConfig): ChatModel {
+  const provider = getModelProvider();
+  const metered = (c: ModelConfig) => new MeteredChatModel(provider.createModel(alias, c), alias, c.model);
+  if (config) return metered(config);
 
-  const resolved = overrides[alias] ?? defaultConfigs[alias];
+  const resolved = resolveModelConfig(alias);
   if (!resolved) {
     throw new Error(`No model configuration found for alias "${alias}". Call setModelConfig() first or pass an explicit config.`);
   }
 
-  cache[alias] = new ChatOpenAI({
-    model: resolved.model,
-    temperature: resolved.temperature,
-    maxRetries: resolved.maxRetries,
-  });
-  return cache[alias];
+  const key = cacheKey(alias, provider, resolved);
+  cache[key] ??= metered(resolved);
+  return cache[key];
 }
 
 /**
@@ -0,0 +1,114 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import { AzureChatOpenAI, ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { CallbackManagerForLLMRun, Callbacks } from "@langchain/core/callbacks/manager";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+import { childCallbacks } from "./delegating-chat-model.js";
+import type { LlmVendor, ModelConfig, ModelTarget } from "./model-factory.js";
+
+/** Env var holding each vendor's API key unless a target names its own via `apiKeyEnv`. */
+const DEFAULT_KEY_ENV: Record<LlmVendor, string | null> = {
+  openai: "OPENAI_API_KEY",
+  "openai-compatible": null,
+  anthropic: "ANTHROPIC_API_KEY",
+  azure: "AZURE_OPENAI_API_KEY",
+};
+
+const keyEnvFor = (target: ModelTarget): string | null => target.apiKeyEnv ?? DEFAULT_KEY_ENV[target.provider ?? "openai"];
+
+/** Whether the target's API key is configured. Local OpenAI-compatible servers need none. */
+export function hasCredentials(target: ModelTarget): boolean {
+  const env = keyEnvFor(target);
+  return !env || Boolean(process.env[env]);
+}
+
+function createTargetModel(alias: string, target: ModelTarget): BaseChatModel {
+  const keyEnv = keyEnvFor(target);
+  const apiKey = keyEnv ? process.env[keyEnv] : undefined;
+  if (keyEnv && !apiKey) {
+    throw new Error(`${keyEnv} is required to create model "${alias}".`);
+  }
+  const common = { model: target.model, temperature: target.temperature, maxRetries: target.maxRetries };
+
+  switch (target.provider ?? "openai") {
+    case "openai":
+      return new ChatOpenAI({ ...common, apiKey });
+    case "openai-compatible":
+      // Local servers usually ignore the key, but the client refuses to start without one.
+      return new ChatOpenAI({ ...common, apiKey: apiKey ?? "unused", configuration: { baseURL: target.baseUrl } });
+    case "azure":
+      return new AzureChatOpenAI({
+        ...common,
+        azureOpenAIApiKey: apiKey,
+        azureOpenAIApiDeploymentName: target.deployment,
+        azureOpenAIApiVersion: target.apiVersion,
+        azureOpenAIEndpoint: target.baseUrl,
+      });
+    case "anthropic":
+      return new ChatAnthropic({ ...common, apiKey, anthropicApiUrl: target.baseUrl });
+  }
+}
+
+type ChainEntry = { model: BaseChatModel; timeoutMs?: number };
+
+/** Not every client honours the `timeout` call option, so abort and race explicitly. */
+function invokeWithTimeout(
+  model: BaseChatModel,
+  messages: BaseMessage[],
+  { signal, callbacks }: { signal?: AbortSignal; callbacks?: Callbacks },
+  timeoutMs?: number
+) {
+  if (timeoutMs === undefined) return model.invoke(messages, { signal, callbacks });
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const timedOut = new Promise<never>((_, reject) => {
+    timeout.addEventListener("abort", () => reject(new Error(`Model call timed out after ${timeoutMs}ms`)));
+  });
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+  return Promise.race([model.invoke(messages, { signal: combined, callbacks }), timedOut]);
+}
+
+/** Tries each model in order, moving on when one errors or exceeds its timeout. */
+export class FallbackChatModel extends BaseChatModel {
+  constructor(private readonly chain: ChainEntry[]) {
+    super({});
+  }
+
+  _llmType(): string {
+    return "fallback";
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    let lastError: unknown;
+    for (const { model, timeoutMs } of this.chain) {
+      try {
+        const callbacks = childCallbacks(runManager);
+        const message = await invokeWithTimeout(model, messages, { signal: options.signal, callbacks }, timeoutMs);
+        const text = typeof message.content === "string" ? message.content : "";
+        return { generations: [{ text, message }] };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Build the chat model for a resolved alias config: the primary target followed
+ * by its fallbacks, skipping any without credentials. A lone target without a
+ * timeout is returned unwrapped.
+ */
+export function createVendorModel(alias: string, config: ModelConfig): BaseChatModel {
+  const { fallbacks = [], ...primary } = config;
+  const targets = [primary, ...fallbacks].filter(hasCredentials);
+  if (!targets.length) return createTargetModel(alias, primary);
+  if (targets.length === 1 && targets[0].timeoutMs === undefined) return createTargetModel(alias, targets[0]);
+  return new FallbackChatModel(
+    targets.map((target) => ({ model: createTargetModel(alias, target), timeoutMs: target.timeoutMs }))
+  );
+}
@@ -1,21 +1,30 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { requireGraphMessagingConfig } from "../config/messaging.js";
+import { INTERNAL_RUN_TAGS, isModelAvailable } from "../config/model-factory.js";
 import { getSanitizerModel } from "../services/ai/models.js";
+import { overlayInstruction } from "../helpers/overlay.js";
+import type { OverlayName } from "../../state.js";
 
 export async function reviewResponseWithAI(
   text: string,
-  options?: { forbidFirstPerson?: boolean }
+  options?: { forbidFirstPerson?: boolean; overlay?: OverlayName | null }
 ): Promise<string> {
   const original = text ?? "";
   if (!original.trim()) return original;
-  if (!process.env.OPENAI_API_KEY) return original;
+  if (!isModelAvailable("sanitizer")) return original;
   const model = getSanitizerModel();
   const { aiPrompts } = requireGraphMessagingConfig();
-  const system = options?.forbidFirstPerson
-    ? `${aiPrompts.reviewResponse} Rewrite any first-person references to second-person addressing the user. Avoid I, me, my, we, our.`
-    : aiPrompts.reviewResponse;
+  const system = [
+    aiPrompts.reviewResponse,
+    options?.forbidFirstPerson
+      ? "Rewrite any first-person references to second-person addressing the user. Avoid I, me, my, we, our."
+      : "",
+    overlayInstruction(options?.overlay),
+  ]
+    .filter(Boolean)
+    .join(" ");
   try {
-    const resp = await model.invoke([new SystemMessage(system), new HumanMessage(original)], { runName: "reviewResponse" });
+    const resp = await model.invoke([new SystemMessage(system), new HumanMessage(original)], { runName: "reviewResponse", tags: INTERNAL_RUN_TAGS });
     const cleaned = (resp.content as string | undefined)?.trim();
     return cleaned && cleaned.length > 0 ? cleaned : original;
   } catch {
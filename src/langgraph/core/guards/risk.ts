@@ -1,6 +1,7 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import type { CfsState } from "../../state.js";
 import { requireGraphMessagingConfig } from "../config/messaging.js";
+import { INTERNAL_RUN_TAGS, isModelAvailable } from "../config/model-factory.js";
 import { getSanitizerModel, traceRiskAssessmentRun } from "../services/ai/models.js";
 
 declare global {
@@ -53,7 +54,7 @@ export async function assessRiskWithAI(params: {
       risk_domain,
     };
   }
-  if (!process.env.OPENAI_API_KEY) return fallback;
+  if (!isModelAvailable("sanitizer")) return fallback;
   const model = getSanitizerModel();
   const { aiPrompts } = requireGraphMessagingConfig();
   const system = aiPrompts.assessRisk;
@@ -82,7 +83,7 @@ export async function assessRiskWithAI(params: {
         timeframe: params.timeframe ?? null,
         use_case_count: useCases.length,
       },
-      () => model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "assessRisk" })
+      () => model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "assessRisk", tags: INTERNAL_RUN_TAGS })
     );
     const raw = (resp.content as string | undefined)?.trim() ?? "";
     const parsed = JSON.parse(raw);
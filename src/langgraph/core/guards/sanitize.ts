@@ -1,18 +1,19 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { requireGraphMessagingConfig } from "../config/messaging.js";
+import { INTERNAL_RUN_TAGS, isModelAvailable } from "../config/model-factory.js";
 import { getSanitizerModel } from "../services/ai/models.js";
 
 export async function sanitizeUserInput(
   kind: "name" | "role" | "industry" | "goal" | "timeframe",
   text: string
 ): Promise<string> {
-  if (!process.env.OPENAI_API_KEY) return text;
+  if (!isModelAvailable("sanitizer")) return text;
   const model = getSanitizerModel();
   const { aiPrompts } = requireGraphMessagingConfig();
   const system = aiPrompts.sanitizeUserInput;
   const resp = await model.invoke(
     [new SystemMessage(system), new HumanMessage(`kind=${kind}; text="${text}"`)],
-    { runName: "sanitizeUserInput" }
+    { runName: "sanitizeUserInput", tags: INTERNAL_RUN_TAGS }
   );
   const cleaned = (resp.content as string | undefined)?.trim();
   return cleaned && cleaned.length > 0 ? cleaned : text;
@@ -0,0 +1,31 @@
+import type { CfsState, OverlayName } from "../../state.js";
+
+/** How each overlay should sound; fed to the AI rephrase and review prompts. */
+export const OVERLAY_TONES: Record<OverlayName, string> = {
+  SeniorSE_Curious: "curious and technically grounded, asking to understand",
+  SeniorSE_Challenging: "direct and constructively challenging, testing assumptions",
+  CTO_Consultative: "strategic and consultative, focused on outcomes",
+  Mentor_Supportive: "patient and supportive, reassuring without pressure",
+  Coach_Affirmative: "encouraging and affirmative, building on progress",
+};
+
+/** Prompt sentence describing the active overlay, or "" when none is set. */
+export function overlayInstruction(overlay?: OverlayName | null): string {
+  return overlay ? `Overlay: ${overlay} (${OVERLAY_TONES[overlay]}).` : "";
+}
+
+/**
+ * Switches `overlay_active` to the overlay the flow's `overlayRules` select
+ * for this state and records the switch in `transition_log` as
+ * `overlay:<from>-><to>`. Unchanged when no rule matches.
+ */
+export function applyOverlayRules(state: CfsState, selectOverlay: (state: CfsState) => OverlayName | null): CfsState {
+  const overlay = selectOverlay(state);
+  if (!overlay || overlay === state.overlay_active) return state;
+  const ctx = state.session_context;
+  return {
+    ...state,
+    overlay_active: overlay,
+    session_context: { ...ctx, transition_log: [...ctx.transition_log, `overlay:${state.overlay_active}->${overlay}`] },
+  };
+}
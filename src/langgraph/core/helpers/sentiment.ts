@@ -9,7 +9,7 @@ const NEGATION_WORDS = new Set([
 /**
  * Compute continuous valence from -1 to +1 using lexicon and negation handling.
  */
-export function computeValence(text: string): number {
+export function computeValence(text: string, lexicon: Record<string, number> = SENTIMENT_LEXICON): number {
   const lower = text.toLowerCase().trim();
   if (!lower) return 0;
 
@@ -23,7 +23,7 @@ export function computeValence(text: string): number {
       negateNext = 2;
       continue;
     }
-    const raw = SENTIMENT_LEXICON[token];
+    const raw = lexicon[token];
     if (raw !== undefined) {
       const score = negateNext > 0 ? -raw : raw;
       scores.push(Math.max(-5, Math.min(5, score)));
@@ -1,10 +1,10 @@
-import type { ChatOpenAI } from "@langchain/openai";
+import type { ChatModel } from "../../config/model-factory.js";
 import type { CfsState } from "../../../state.js";
 import { AsyncPrimitive } from "../base.js";
 import { invokeChatModelWithFallback } from "../../services/ai/invoke.js";
 
 export type DocStyleQaParams = {
-  model: ChatOpenAI;
+  model: ChatModel;
   fullDraft: string;
   sectionOutputs: Record<string, string>;
   sectionKeys: string[];
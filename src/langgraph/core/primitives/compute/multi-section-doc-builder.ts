@@ -1,4 +1,4 @@
-import type { ChatOpenAI } from "@langchain/openai";
+import type { ChatModel } from "../../config/model-factory.js";
 import type { CfsState } from "../../../state.js";
 import { AsyncPrimitive } from "../base.js";
 import { mergeStatePatch } from "../../helpers/state.js";
@@ -12,7 +12,7 @@ export type SectionBuildParams = {
 };
 
 export type MultiSectionDocBuilderParams = {
-  model: ChatOpenAI | null;
+  model: ChatModel | null;
   sectionKeys: string[];
   buildSectionParams: (sectionKey: string, context: Record<string, unknown>) => SectionBuildParams;
   context: Record<string, unknown>;
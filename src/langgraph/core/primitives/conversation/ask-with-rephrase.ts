@@ -50,6 +50,7 @@ export class AskWithRephrasePrimitive extends AsyncPrimitive {
         allowAIRephrase: true,
         actorRole: rephraseContext.actorRole ?? "SAAS Enterprise Account Executive",
         tone: rephraseContext.tone ?? "conversational, curious",
+        overlay: state.overlay_active,
       });
       question = rephrased ?? baseQuestion;
     }
@@ -21,6 +21,7 @@ export type QuestionnaireLoopParams = {
 /**
  * Loop through a questionnaire: present questions one at a time, capture answers,
  * optionally assess risk per answer, advance index, and complete when done.
+ * Stops early at `session_context.question_limit` (set by the signal policy).
  */
 export class QuestionnaireLoopPrimitive extends AsyncPrimitive {
   readonly name = "QuestionnaireLoop" as const;
@@ -49,7 +50,8 @@ export class QuestionnaireLoopPrimitive extends AsyncPrimitive {
       risk: (q as any)?.risk ?? null,
       risk_domain: (q as any)?.risk_domain ?? null,
     })).filter((q) => q.question);
-    const total = questionItems.length;
+    const limit = state.session_context.question_limit;
+    const total = limit != null ? Math.min(questionItems.length, Math.max(limit, 1)) : questionItems.length;
 
     if (total === 0) {
       const out: Partial<CfsState> = {
@@ -120,6 +122,7 @@ export class QuestionnaireLoopPrimitive extends AsyncPrimitive {
           step_question_index: 0,
           awaiting_user: false,
           last_question_key: null,
+          question_limit: null,
         }),
       };
       if (reasonTraceComplete) {
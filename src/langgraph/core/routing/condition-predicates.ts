@@ -4,10 +4,100 @@ import { lastHumanMessage } from "../helpers/messaging.js";
 
 export type WhenClause = Record<string, unknown>;
 
-const BUILTIN_PREDICATES: Record<
-  string,
-  (state: CfsState, value: unknown) => boolean
-> = {
+/** Tests one `when` key against state; `value` is the key's YAML value. */
+export type WhenPredicate = (state: CfsState, value: unknown) => boolean;
+
+type PathValue = { path: string; value: unknown; flags?: string };
+
+const isPathValue = (v: unknown): v is PathValue =>
+  v != null && typeof v === "object" && "path" in v && "value" in v && typeof (v as PathValue).path === "string";
+
+const isClause = (v: unknown): v is WhenClause => v != null && typeof v === "object" && !Array.isArray(v);
+
+type Comparison = "gt" | "gte" | "lt" | "lte";
+
+function compare(actual: unknown, op: Comparison, expected: unknown): boolean {
+  if (typeof actual !== "number" || typeof expected !== "number") return false;
+  switch (op) {
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+  }
+}
+
+/** Patterns are strings; `flags` defaults to case-insensitive. */
+const toRegExp = (pattern: unknown, flags = "i"): RegExp | null =>
+  typeof pattern === "string" ? new RegExp(pattern, flags) : null;
+
+function evalStatePath(state: CfsState, path: string, op: string, expected: unknown, flags?: string): boolean {
+  const val = getByPath(state, path);
+  switch (op) {
+    case "empty":
+      return val == null || val === "" || (Array.isArray(val) && val.length === 0);
+    case "not_empty":
+      if (val == null) return false;
+      if (typeof val === "string") return val.length > 0;
+      if (Array.isArray(val)) return val.length > 0;
+      return true;
+    case "equals":
+      return val === expected;
+    case "not_equals":
+      return val !== expected;
+    case "length_gt": {
+      const arr = Array.isArray(val) ? val : typeof val === "string" ? val : null;
+      const n = typeof expected === "number" ? expected : Number(expected);
+      return arr != null && arr.length > n;
+    }
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+      return compare(val, op, expected);
+    case "in":
+      return Array.isArray(expected) && expected.includes(val);
+    case "matches": {
+      const re = toRegExp(expected, flags);
+      return re !== null && typeof val === "string" && re.test(val);
+    }
+    default:
+      return false;
+  }
+}
+
+/** Relationship signal scores addressable from `signal_*` predicates. */
+const SIGNAL_SCORES = {
+  engagement: "engagement_score",
+  sentiment: "sentiment_score",
+  trust: "trust_score",
+  intent: "intent_score",
+  overall: "overall_conversation_score",
+} as const;
+
+/**
+ * `signal_gte: { trust: 0.6, engagement: 0.5 }` — every listed score must pass.
+ * Other names read the flow's custom dimensions (`relationship_context.custom_scores`).
+ */
+const signalPredicate =
+  (op: Comparison): WhenPredicate =>
+  (s, v) =>
+    isClause(v) &&
+    Object.entries(v).every(([dimension, threshold]) => {
+      const field = SIGNAL_SCORES[dimension as keyof typeof SIGNAL_SCORES];
+      const score = field !== undefined ? s.relationship_context?.[field] : s.relationship_context?.custom_scores?.[dimension];
+      return compare(score, op, threshold);
+    });
+
+const pathPredicate =
+  (op: string): WhenPredicate =>
+  (s, v) =>
+    isPathValue(v) && evalStatePath(s, v.path, op, v.value, v.flags);
+
+const BUILTIN_PREDICATES: Record<string, WhenPredicate> = {
   awaiting_user: (s, v) => (s.session_context?.awaiting_user ?? false) === v,
   started: (s, v) => (s.session_context?.started ?? false) === v,
   last_question_key: (s, v) => (s.session_context?.last_question_key ?? null) === v,
@@ -29,62 +119,127 @@ const BUILTIN_PREDICATES: Record<
     const content = (lastHumanMessage(s)?.content?.toString() ?? "").trim().toLowerCase();
     return typeof v === "string" && content === v.toLowerCase();
   },
+  last_answer_matches: (s, v) => {
+    const re = toRegExp(v);
+    return re !== null && re.test((lastHumanMessage(s)?.content?.toString() ?? "").trim());
+  },
+  state_path_empty: (s, v) => typeof v === "string" && evalStatePath(s, v, "empty", undefined),
+  state_path_not_empty: (s, v) => typeof v === "string" && evalStatePath(s, v, "not_empty", undefined),
+  state_path_equals: pathPredicate("equals"),
+  state_path_not_equals: pathPredicate("not_equals"),
+  state_path_length_gt: pathPredicate("length_gt"),
+  state_path_gt: pathPredicate("gt"),
+  state_path_gte: pathPredicate("gte"),
+  state_path_lt: pathPredicate("lt"),
+  state_path_lte: pathPredicate("lte"),
+  state_path_in: pathPredicate("in"),
+  state_path_matches: pathPredicate("matches"),
+  signal_gt: signalPredicate("gt"),
+  signal_gte: signalPredicate("gte"),
+  signal_lt: signalPredicate("lt"),
+  signal_lte: signalPredicate("lte"),
 };
 
-function evalStatePath(state: CfsState, path: string, op: string, expected: unknown): boolean {
-  const val = getByPath(state, path);
-  switch (op) {
-    case "empty":
-      return val == null || val === "" || (Array.isArray(val) && val.length === 0);
-    case "not_empty":
-      if (val == null) return false;
-      if (typeof val === "string") return val.length > 0;
-      if (Array.isArray(val)) return val.length > 0;
-      return true;
-    case "equals":
-      return val === expected;
-    case "not_equals":
-      return val !== expected;
-    case "length_gt": {
-      const arr = Array.isArray(val) ? val : typeof val === "string" ? val : null;
-      const n = typeof expected === "number" ? expected : Number(expected);
-      return arr != null && arr.length > n;
-    }
-    default:
-      return false;
-  }
+/** Group keys whose values are nested clauses: `all`/`any` take a list, `not` a single clause. */
+const COMBINATORS = ["all", "any", "not"] as const;
+
+const isCombinator = (name: string): name is (typeof COMBINATORS)[number] =>
+  (COMBINATORS as readonly string[]).includes(name);
+
+export const BUILTIN_PREDICATE_NAMES: readonly string[] = [...COMBINATORS, ...Object.keys(BUILTIN_PREDICATES)];
+
+export function isBuiltinPredicate(name: string): boolean {
+  return isCombinator(name) || Object.prototype.hasOwnProperty.call(BUILTIN_PREDICATES, name);
 }
 
-export function evaluateWhen(state: CfsState, when: WhenClause): boolean {
+/**
+ * True when every key of `when` holds. `all`/`any`/`not` nest clauses; other
+ * keys resolve to built-in predicates, then to `custom` ones. An unknown key
+ * fails the clause rather than being skipped (the compiler rejects them at
+ * load time).
+ */
+export function evaluateWhen(
+  state: CfsState,
+  when: WhenClause,
+  custom: Record<string, WhenPredicate> = {}
+): boolean {
+  const holds = (clause: unknown) => isClause(clause) && evaluateWhen(state, clause, custom);
   for (const [key, value] of Object.entries(when)) {
-    const builtin = BUILTIN_PREDICATES[key];
-    if (builtin) {
-      if (!builtin(state, value)) return false;
+    if (key === "all" || key === "any") {
+      if (!Array.isArray(value) || value.length === 0) return false;
+      if (key === "all" ? !value.every(holds) : !value.some(holds)) return false;
       continue;
     }
-    if (key === "state_path_empty" && typeof value === "string") {
-      if (!evalStatePath(state, value, "empty", undefined)) return false;
+    if (key === "not") {
+      if (!isClause(value) || holds(value)) return false;
       continue;
     }
-    if (key === "state_path_not_empty" && typeof value === "string") {
-      if (!evalStatePath(state, value, "not_empty", undefined)) return false;
-      continue;
-    }
-    if (key === "state_path_equals" && value && typeof value === "object" && "path" in value && "value" in value) {
-      const { path, value: v } = value as { path: string; value: unknown };
-      if (!evalStatePath(state, path, "equals", v)) return false;
-      continue;
-    }
-    if (key === "state_path_not_equals" && value && typeof value === "object" && "path" in value && "value" in value) {
-      const { path, value: v } = value as { path: string; value: unknown };
-      if (!evalStatePath(state, path, "not_equals", v)) return false;
-      continue;
+    const predicate = isBuiltinPredicate(key) ? BUILTIN_PREDICATES[key] : custom[key];
+    if (!predicate || !predicate(state, value)) return false;
+  }
+  return true;
+}
+
+export type WhenClauseIssue = { code: "unknown-when-predicate" | "invalid-when-value"; key: string; message: string };
+
+/** What a flow adds to the built-in predicates. */
+export type WhenClauseScope = {
+  /** Whether a non-built-in key is a registered predicate. */
+  isCustom: (key: string) => boolean;
+  /** Custom signal dimensions `signal_*` predicates may name besides the built-in scores. */
+  signalDimensions?: string[];
+};
+
+/** Value checks for built-ins whose mistakes would otherwise only show up as a rule that never matches. */
+function invalidValue(key: string, value: unknown, signalDimensions: string[]): string | null {
+  const regexError = (pattern: unknown, flags?: string) => {
+    if (typeof pattern !== "string") return "pattern must be a string";
+    try {
+      new RegExp(pattern, flags);
+      return null;
+    } catch (err) {
+      return (err as Error).message;
     }
-    if (key === "state_path_length_gt" && value && typeof value === "object" && "path" in value && "value" in value) {
-      const { path, value: v } = value as { path: string; value: number };
-      if (!evalStatePath(state, path, "length_gt", v)) return false;
-      continue;
+  };
+  if (key === "last_answer_matches") return regexError(value);
+  if (key.startsWith("signal_")) {
+    if (!isClause(value) || Object.keys(value).length === 0) return "expected { <dimension>: <number> }";
+    const dimensions = [...Object.keys(SIGNAL_SCORES), ...signalDimensions];
+    const bad = Object.entries(value).find(([d, n]) => !dimensions.includes(d) || typeof n !== "number");
+    return bad ? `"${bad[0]}" must be one of ${dimensions.join(", ")} with a numeric threshold` : null;
+  }
+  if (/^state_path_(gt|gte|lt|lte|in|matches)$/.test(key)) {
+    if (!isPathValue(value)) return "expected { path, value }";
+    if (key === "state_path_in") return Array.isArray(value.value) ? null : "value must be a list";
+    if (key === "state_path_matches") return regexError(value.value, value.flags);
+    return typeof value.value === "number" ? null : "value must be a number";
+  }
+  return null;
+}
+
+/** Every unknown key or malformed value in `when`, recursing into groups. */
+export function whenClauseIssues(when: WhenClause, scope: WhenClauseScope, at = ""): WhenClauseIssue[] {
+  const where = at ? ` (in ${at})` : "";
+  const issues: WhenClauseIssue[] = [];
+  const invalid = (key: string, detail: string) =>
+    issues.push({ code: "invalid-when-value", key, message: `has an invalid "${key}" value${where}: ${detail}` });
+
+  for (const [key, value] of Object.entries(when)) {
+    if (key === "all" || key === "any") {
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isClause)) {
+        invalid(key, "expected a non-empty list of clauses");
+        continue;
+      }
+      value.forEach((clause, i) => issues.push(...whenClauseIssues(clause, scope, `${at}${at ? "." : ""}${key}[${i}]`)));
+    } else if (key === "not") {
+      if (isClause(value)) issues.push(...whenClauseIssues(value, scope, `${at}${at ? "." : ""}not`));
+      else invalid(key, "expected a clause");
+    } else if (isBuiltinPredicate(key)) {
+      const detail = invalidValue(key, value, scope.signalDimensions ?? []);
+      if (detail) invalid(key, detail);
+    } else if (!scope.isCustom(key)) {
+      issues.push({ code: "unknown-when-predicate", key, message: `uses unknown when predicate "${key}"${where}` });
     }
   }
-  return true;
+  return issues;
 }
@@ -1,5 +1,5 @@
 import type { CfsState } from "../../state.js";
-import { evaluateWhen } from "./condition-predicates.js";
+import { evaluateWhen, type WhenPredicate } from "./condition-predicates.js";
 
 export type RoutingRule = {
   when?: Record<string, unknown>;
@@ -7,13 +7,15 @@ export type RoutingRule = {
   default?: string;
 };
 
+/** First matching rule's `goto`, else the first `default`, else "end". `predicates` supplies custom `when` keys. */
 export function evaluateRoutingRules(
   rules: RoutingRule[],
-  state: CfsState
+  state: CfsState,
+  predicates: Record<string, WhenPredicate> = {}
 ): string {
   for (const rule of rules) {
     if (rule.when && Object.keys(rule.when).length > 0) {
-      if (evaluateWhen(state, rule.when) && rule.goto) return rule.goto;
+      if (evaluateWhen(state, rule.when, predicates) && rule.goto) return rule.goto;
     } else if (rule.default !== undefined) {
       return rule.default;
     }
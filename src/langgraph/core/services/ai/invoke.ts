@@ -1,8 +1,8 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
-import type { ChatOpenAI } from "@langchain/openai";
+import type { ChatModel } from "../../config/model-factory.js";
 
 export async function invokeChatModelWithFallback(
-  model: ChatOpenAI,
+  model: ChatModel,
   system: string,
   user: string,
   options: { runName: string; fallback?: string }
@@ -1,11 +1,10 @@
 import { traceAsGroup } from "@langchain/core/callbacks/manager";
-import { ChatOpenAI } from "@langchain/openai";
-import { getModel } from "../../config/model-factory.js";
+import { getModel, type ChatModel } from "../../config/model-factory.js";
 import { isLangSmithEnabled } from "../../helpers/tracing.js";
 
-export const getSanitizerModel = (): ChatOpenAI => getModel("sanitizer");
+export const getSanitizerModel = (): ChatModel => getModel("sanitizer");
 
-export const getRiskAssessmentModel = (): ChatOpenAI => getModel("riskAssessment");
+export const getRiskAssessmentModel = (): ChatModel => getModel("riskAssessment");
 
 export async function traceRiskAssessmentRun<T>(
   inputs: Record<string, unknown>,
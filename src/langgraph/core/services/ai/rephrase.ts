@@ -1,5 +1,8 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { INTERNAL_RUN_TAGS, isModelAvailable } from "../../config/model-factory.js";
 import { getSanitizerModel } from "./models.js";
+import { overlayInstruction } from "../../helpers/overlay.js";
+import type { OverlayName } from "../../../state.js";
 
 declare global {
   var __rephraseQuestionOverride: string | null | undefined;
@@ -13,13 +16,15 @@ export async function rephraseQuestionWithAI(params: {
   allowAIRephrase?: boolean;
   actorRole?: string;
   tone?: string;
+  /** Active overlay; its tone is added to the prompt. */
+  overlay?: OverlayName | null;
 }): Promise<string | null> {
   if (globalThis.__rephraseQuestionOverride !== undefined) {
     return globalThis.__rephraseQuestionOverride;
   }
   const allow = params.allowAIRephrase ?? false;
   if (!allow) return null;
-  if (!process.env.OPENAI_API_KEY) return null;
+  if (!isModelAvailable("sanitizer")) return null;
 
   const model = getSanitizerModel();
   const actorRole = params.actorRole ?? "SAAS Enterprise Account Executive";
@@ -32,13 +37,19 @@ export async function rephraseQuestionWithAI(params: {
   const system = [
     `Role: ${actorRole}.`,
     `Tone: ${tone}.`,
+    overlayInstruction(params.overlay),
     "Rewrite the base question as a single, concise question.",
     "Infuse the provided context naturally if relevant.",
     "Preserve the original intent; do not add new questions.",
     "Return only the rewritten question text.",
-  ].join(" ");
+  ]
+    .filter(Boolean)
+    .join(" ");
   const user = `Base question: "${params.baseQuestion}"\nContext: ${JSON.stringify(context)}`;
-  const resp = await model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "rephraseQuestion" });
+  const resp = await model.invoke([new SystemMessage(system), new HumanMessage(user)], {
+    runName: "rephraseQuestion",
+    tags: INTERNAL_RUN_TAGS,
+  });
   const text = (resp.content as string | undefined)?.trim();
   return text && text.length > 0 ? text : null;
 }
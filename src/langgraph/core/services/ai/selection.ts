@@ -1,5 +1,6 @@
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { requireGraphMessagingConfig } from "../../config/messaging.js";
+import { INTERNAL_RUN_TAGS, isModelAvailable } from "../../config/model-factory.js";
 import { getSanitizerModel, getRiskAssessmentModel } from "./models.js";
 
 export async function selectPersonaGroup(params: {
@@ -31,7 +32,7 @@ export async function selectPersonaGroup(params: {
     return best;
   };
 
-  if (!process.env.OPENAI_API_KEY) {
+  if (!isModelAvailable("riskAssessment")) {
     return { persona_group: pickClosestGroup(params.role, params.snippets, fallbackGroups), confidence: 0.2 };
   }
   const model = getRiskAssessmentModel();
@@ -46,7 +47,7 @@ export async function selectPersonaGroup(params: {
     .join("\n");
   let resp;
   try {
-    resp = await model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "selectPersonaGroup" });
+    resp = await model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "selectPersonaGroup", tags: INTERNAL_RUN_TAGS });
   } catch {
     const fallback = pickClosestGroup(params.role, params.snippets, fallbackGroups);
     return { persona_group: fallback, confidence: 0.2 };
@@ -74,7 +75,7 @@ export async function selectMarketSegment(params: {
   const fallbackSegment = "Cross-Industry / General";
   const segments = params.segments.filter((s) => typeof s.segment_name === "string" && s.segment_name.trim());
   if (!segments.length) return { segment_name: fallbackSegment, confidence: 0.1 };
-  if (!process.env.OPENAI_API_KEY) {
+  if (!isModelAvailable("sanitizer")) {
     const haystack = [params.industry, ...params.snippets].join(" ").toLowerCase();
     const tokens = new Set(haystack.split(/[^a-z0-9]+/).filter(Boolean));
     const scoreSegment = (segment: { segment_name: string; scope_profile?: string | null }) => {
@@ -106,7 +107,7 @@ export async function selectMarketSegment(params: {
   ]
     .filter(Boolean)
     .join("\n");
-  const resp = await model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "selectMarketSegment" });
+  const resp = await model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "selectMarketSegment", tags: INTERNAL_RUN_TAGS });
   try {
     const parsed = JSON.parse((resp.content as string) ?? "{}");
     const candidate = typeof parsed.segment_name === "string" ? parsed.segment_name : null;
@@ -130,7 +131,7 @@ export async function selectOutcomeName(params: {
 }): Promise<string | null> {
   const outcomes = params.outcomes.filter((o) => typeof o === "string" && o.trim());
   if (!outcomes.length) return null;
-  if (!process.env.OPENAI_API_KEY) return outcomes[0] ?? null;
+  if (!isModelAvailable("sanitizer")) return outcomes[0] ?? null;
   const model = getSanitizerModel();
   const { aiPrompts } = requireGraphMessagingConfig();
   const system = aiPrompts.selectOutcomeName;
@@ -143,7 +144,7 @@ export async function selectOutcomeName(params: {
   ]
     .filter(Boolean)
     .join("\n");
-  const resp = await model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "selectOutcomeName" });
+  const resp = await model.invoke([new SystemMessage(system), new HumanMessage(user)], { runName: "selectOutcomeName", tags: INTERNAL_RUN_TAGS });
   const candidate = (resp.content as string) ?? "";
   const normalize = (value: string) => value.trim().toLowerCase();
   const allowed = new Set(outcomes.map(normalize));
@@ -3,6 +3,7 @@ import { lastHumanMessage, pushAI } from "../../infra.js";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { ChatOpenAI } from "@langchain/openai";
 import { FirecrawlService, type FirecrawlSearchItem } from "./firecrawl.js";
+import { INTERNAL_RUN_TAGS } from "../config/model-factory.js";
 
 export type InternetSearchResult = {
   title: string;
@@ -72,7 +73,7 @@ export async function isIndustryVague(industry: string): Promise<boolean> {
   const model = getInternetModel();
   const resp = await model.invoke(
     [new SystemMessage(INDUSTRY_VAGUE_PROMPT), new HumanMessage(`industry: "${industry}"`)],
-    { runName: "assessIndustryVagueness" }
+    { runName: "assessIndustryVagueness", tags: INTERNAL_RUN_TAGS }
   );
   try {
     const parsed = JSON.parse((resp.content as string) ?? "{}");
@@ -93,7 +94,7 @@ export async function extractSubIndustries(industry: string, results: InternetSe
     .join("\n");
   const resp = await model.invoke(
     [new SystemMessage(SUB_INDUSTRY_PROMPT), new HumanMessage(`industry: "${industry}"\nresults:\n${condensed}`)],
-    { runName: "extractSubIndustries" }
+    { runName: "extractSubIndustries", tags: INTERNAL_RUN_TAGS }
   );
   try {
     const parsed = JSON.parse((resp.content as string) ?? "{}");
@@ -0,0 +1,13 @@
+export { MeteredChatModel } from "./metered-chat-model.js";
+export { estimateCostUsd, findModelPrice, setModelPrice, type ModelPrice } from "./pricing.js";
+export {
+  UsageMeter,
+  getUsageMeter,
+  groupUsage,
+  isOverBudget,
+  isUsageBudgetExceeded,
+  runWithUsageMeter,
+  summarizeUsage,
+  type LlmBudget,
+  type UsageTotals,
+} from "./usage-meter.js";
@@ -0,0 +1,68 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+import { AsyncLocalStorageProviderSingleton } from "@langchain/core/singletons";
+import { DelegatingChatModel, childCallbacks } from "../config/delegating-chat-model.js";
+import { LlmUsageEntrySchema } from "../../slices/llm-usage.js";
+import { estimateCostUsd } from "./pricing.js";
+import { getUsageMeter } from "./usage-meter.js";
+
+/** Graph node running the current invocation, from LangGraph's runnable config. */
+function currentNode(): string | null {
+  const config = AsyncLocalStorageProviderSingleton.getRunnableConfig();
+  return (config?.metadata?.langgraph_node as string | undefined) ?? null;
+}
+
+/**
+ * Records tokens, latency and estimated cost of every call into the active
+ * UsageMeter, and refuses calls once the session is over budget.
+ */
+export class MeteredChatModel extends DelegatingChatModel {
+  constructor(
+    private readonly inner: BaseChatModel,
+    private readonly alias: string,
+    private readonly modelName: string
+  ) {
+    super({});
+  }
+
+  _llmType(): string {
+    return "metered";
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    const meter = getUsageMeter();
+    if (meter?.isOverBudget()) {
+      throw new Error(`LLM budget exceeded for this session; model "${this.alias}" is unavailable.`);
+    }
+    const runName = options.callerRunName ?? this.alias;
+    const t0 = Date.now();
+    // Child callbacks keep token streaming and tracing working for the wrapped model.
+    const message = await this.inner.invoke(messages, { signal: options.signal, runName, callbacks: childCallbacks(runManager) });
+
+    const usage = message.usage_metadata;
+    const model = (message.response_metadata?.model_name ?? message.response_metadata?.model ?? this.modelName) as string;
+    const promptTokens = usage?.input_tokens ?? 0;
+    const completionTokens = usage?.output_tokens ?? 0;
+    meter?.record(
+      LlmUsageEntrySchema.parse({
+        run_name: runName,
+        node: currentNode(),
+        model,
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: usage?.total_tokens ?? promptTokens + completionTokens,
+        latency_ms: Date.now() - t0,
+        cost_usd: estimateCostUsd(model, promptTokens, completionTokens),
+        timestamp: t0,
+      })
+    );
+    const text = typeof message.content === "string" ? message.content : "";
+    return { generations: [{ text, message }] };
+  }
+}
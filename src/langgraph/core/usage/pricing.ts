@@ -0,0 +1,34 @@
+/** USD per million tokens. */
+export type ModelPrice = { input: number; output: number };
+
+/** List prices matched by longest model-name prefix, so dated snapshots ("gpt-4o-2024-08-06") price like their family. */
+const prices: Record<string, ModelPrice> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+};
+
+/** Add or replace the price of a model family (e.g. a self-hosted model billed internally). */
+export function setModelPrice(modelPrefix: string, price: ModelPrice): void {
+  prices[modelPrefix] = price;
+}
+
+export function findModelPrice(model: string): ModelPrice | null {
+  const match = Object.keys(prices)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+/** Estimated cost in USD; 0 for models without a known price. */
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const price = findModelPrice(model);
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,84 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { LlmUsageEntry } from "../../slices/llm-usage.js";
+
+/** Per-session ceilings; once reached, AI helpers take their deterministic fallbacks. */
+export type LlmBudget = {
+  maxTokensPerSession?: number;
+  maxCostUsdPerSession?: number;
+};
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+};
+
+export function summarizeUsage(entries: LlmUsageEntry[]): UsageTotals {
+  return entries.reduce<UsageTotals>(
+    (acc, e) => ({
+      calls: acc.calls + 1,
+      promptTokens: acc.promptTokens + e.prompt_tokens,
+      completionTokens: acc.completionTokens + e.completion_tokens,
+      totalTokens: acc.totalTokens + e.total_tokens,
+      costUsd: acc.costUsd + e.cost_usd,
+      latencyMs: acc.latencyMs + e.latency_ms,
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: 0 }
+  );
+}
+
+/** Totals per run name, node or model. Entries without a node are grouped under "(none)". */
+export function groupUsage(entries: LlmUsageEntry[], key: "run_name" | "node" | "model"): Record<string, UsageTotals> {
+  const groups = new Map<string, LlmUsageEntry[]>();
+  for (const entry of entries) {
+    const name = entry[key] ?? "(none)";
+    groups.set(name, [...(groups.get(name) ?? []), entry]);
+  }
+  return Object.fromEntries([...groups].map(([name, group]) => [name, summarizeUsage(group)]));
+}
+
+export function isOverBudget(entries: LlmUsageEntry[], budget: LlmBudget | null | undefined): boolean {
+  if (!budget) return false;
+  const totals = summarizeUsage(entries);
+  return (
+    (budget.maxTokensPerSession !== undefined && totals.totalTokens >= budget.maxTokensPerSession) ||
+    (budget.maxCostUsdPerSession !== undefined && totals.costUsd >= budget.maxCostUsdPerSession)
+  );
+}
+
+/**
+ * Collects the model invocations of one turn. `prior` is the session's usage
+ * so far, which counts toward the budget but is not re-recorded.
+ */
+export class UsageMeter {
+  readonly entries: LlmUsageEntry[] = [];
+
+  constructor(private readonly prior: LlmUsageEntry[] = [], readonly budget: LlmBudget | null = null) {}
+
+  record(entry: LlmUsageEntry): void {
+    this.entries.push(entry);
+  }
+
+  isOverBudget(): boolean {
+    return isOverBudget([...this.prior, ...this.entries], this.budget);
+  }
+}
+
+const storage = new AsyncLocalStorage<UsageMeter>();
+
+/** Run `fn` (and everything it awaits) recording model usage into `meter`. */
+export function runWithUsageMeter<T>(meter: UsageMeter, fn: () => T): T {
+  return storage.run(meter, fn);
+}
+
+export function getUsageMeter(): UsageMeter | undefined {
+  return storage.getStore();
+}
+
+/** True when the current turn's session has used up its budget. */
+export function isUsageBudgetExceeded(): boolean {
+  return getUsageMeter()?.isOverBudget() ?? false;
+}
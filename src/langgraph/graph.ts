@@ -1,27 +1,40 @@
 import { AIMessage, HumanMessage } from "@langchain/core/messages";
 import { CfsStateSchema, type CfsState, type GraphMessagingConfig, type MessageType } from "./state.js";
 import { createInitialState, requireGraphMessagingConfig, prependClarificationAcknowledgement } from "./infra.js";
-import { runSignalOrchestrator } from "./core/agents/index.js";
-import { getPendingSignal, setPendingSignal } from "./core/agents/signal-store.js";
+import { applySignalPolicy, runSignalOrchestrator } from "./core/agents/index.js";
+import { pendingSignalKey, setPendingSignal, takePendingSignal } from "./core/agents/signal-store.js";
 import { reviewResponseWithAI } from "./core/guards/review.js";
+import { applyOverlayRules } from "./core/helpers/overlay.js";
 import { registerHandlersForGraph } from "./schema/graph-handler-modules.js";
 import { loadGraphDsl } from "./schema/graph-loader.js";
 import { compileGraphFromDsl } from "./schema/graph-compiler.js";
-import type { CompiledGraph } from "./schema/graph-compiler.js";
-import { setActiveGraphId } from "./core/config/messaging.js";
+import type { CompiledGraph, CompileOptions } from "./schema/graph-compiler.js";
+import { getThreadState, threadConfig } from "./checkpoints.js";
+import { streamGraphTurn, type TurnEventListener } from "./turn-stream.js";
+import { runWithGraphContext, type GraphRuntimeContext } from "./core/config/graph-context.js";
+import { UsageMeter, getUsageMeter, runWithUsageMeter, type LlmBudget } from "./core/usage/index.js";
 import { getDefaultFlowPath } from "../config/appConfig.js";
 
 export type { CfsState } from "./state.js";
-export type { CompiledGraph } from "./schema/graph-compiler.js";
+export type { CompiledGraph, CompileOptions } from "./schema/graph-compiler.js";
+export {
+  createCheckpointer,
+  deleteThread,
+  getThreadState,
+  getThreadHistory,
+  threadConfig,
+  type ThreadCheckpoint,
+} from "./checkpoints.js";
+export type { TurnStreamEvent, TurnEventListener } from "./turn-stream.js";
 export { CfsStateSchema } from "./state.js";
 export { createInitialState } from "./infra.js";
 
 const DEFAULT_CFS_YAML = getDefaultFlowPath();
 
-export function buildGraphFromSchema(yamlPath: string): CompiledGraph {
+export function buildGraphFromSchema(yamlPath: string, options: CompileOptions = {}): CompiledGraph {
   const dsl = loadGraphDsl(yamlPath);
   registerHandlersForGraph(dsl.graph.graphId);
-  return compileGraphFromDsl(dsl);
+  return compileGraphFromDsl(dsl, options);
 }
 
 export function buildCfsGraph(): CompiledGraph {
@@ -38,8 +51,90 @@ function findLastAIIndex(messages: unknown[], startFrom: number): number {
   return -1;
 }
 
-export async function runTurn(graphApp: CompiledGraph, state: CfsState, userText?: string): Promise<CfsState> {
-  const nextState: CfsState = CfsStateSchema.parse({
+export type RunTurnOptions = {
+  /**
+   * Resume from this checkpoint of the session's thread instead of `state`
+   * (time-travel). The new turn forks the thread; later checkpoints are kept
+   * in history. Requires a graph compiled with a checkpointer.
+   */
+  checkpointId?: string;
+  /** Receive node start/end, token delta and state events while the graph runs. */
+  onEvent?: TurnEventListener;
+  /** Session LLM budget; once spent, AI helpers use their deterministic fallbacks. */
+  budget?: LlmBudget | null;
+  /** Namespace of the deferred signal store; hosted apps pass their session namespace. */
+  signalScope?: string;
+};
+
+/** State schema for a compiled graph: CfsStateSchema plus the flow's declared stateExtensions. */
+export function stateSchemaOf(graphApp: CompiledGraph) {
+  return graphApp.stateSchema ?? CfsStateSchema;
+}
+
+/** Graph context for a compiled graph; hand-built wrappers fall back to config registered by graphId. */
+export function graphContextOf(graphApp: CompiledGraph): GraphRuntimeContext {
+  return graphApp.context ?? { graphId: graphApp.graphId, messaging: null, models: {} };
+}
+
+/**
+ * Run one conversational turn. Everything the turn does — nodes, routers,
+ * post-processing and the background signal orchestrator — sees this graph's
+ * config through the graph context, so graphs can run concurrently.
+ */
+export function runTurn(
+  graphApp: CompiledGraph,
+  state: CfsState,
+  userText?: string,
+  options: RunTurnOptions = {}
+): Promise<CfsState> {
+  return runWithGraphContext(graphContextOf(graphApp), () => runTurnInContext(graphApp, state, userText, options));
+}
+
+async function runTurnInContext(
+  graphApp: CompiledGraph,
+  state: CfsState,
+  userText: string | undefined,
+  options: RunTurnOptions
+): Promise<CfsState> {
+  const sessionId = state.session_context.session_id;
+  if (options.checkpointId) {
+    const restored = await getThreadState(graphApp, sessionId, options.checkpointId);
+    if (!restored) {
+      throw new Error(`Checkpoint "${options.checkpointId}" not found for session "${sessionId}"`);
+    }
+    state = restored;
+  }
+
+  const meter = new UsageMeter(state.session_context.llm_usage_log, options.budget ?? null);
+  const turn = await runWithUsageMeter(meter, () => executeTurn(graphApp, state, userText, options));
+  if (!turn.rewritten && meter.entries.length === 0) return turn.state;
+
+  const finalState = stateSchemaOf(graphApp).parse({
+    ...turn.state,
+    session_context: {
+      ...turn.state.session_context,
+      llm_usage_log: [...turn.state.session_context.llm_usage_log, ...meter.entries],
+    },
+  });
+  if (graphApp.checkpointer) {
+    // Keep the thread's head in sync with what the user actually saw and what the turn cost.
+    await graphApp.compiled.updateState(threadConfig(sessionId), {
+      messages: finalState.messages,
+      session_context: finalState.session_context,
+    });
+  }
+  return finalState;
+}
+
+/** Invoke the graph and post-process its reply. `rewritten` is set when the last AI message was changed. */
+async function executeTurn(
+  graphApp: CompiledGraph,
+  state: CfsState,
+  userText: string | undefined,
+  options: RunTurnOptions
+): Promise<{ state: CfsState; rewritten: boolean }> {
+  const stateSchema = stateSchemaOf(graphApp);
+  const nextState: CfsState = stateSchema.parse({
     ...state,
     session_context: { ...state.session_context },
     messages: userText ? [...state.messages, new HumanMessage(userText)] : state.messages,
@@ -47,31 +142,38 @@ export async function runTurn(graphApp: CompiledGraph, state: CfsState, userText
   const inputLen = nextState.messages.length;
   const wasClarifier = nextState.session_context.step_clarifier_used === true;
 
-  setActiveGraphId(graphApp.graphId);
-
   let config: GraphMessagingConfig | null = null;
   try { config = requireGraphMessagingConfig(); } catch { /* not set yet */ }
   const signalConfig = config?.signalAgents;
   const sessionId = nextState.session_context.session_id;
-
-  const pendingSignal = getPendingSignal(sessionId);
-  const stateWithPriorSignals = pendingSignal
-    ? CfsStateSchema.parse({ ...nextState, relationship_context: { ...nextState.relationship_context, ...pendingSignal } })
+  const signalKey = pendingSignalKey(options.signalScope, sessionId);
+
+  const pending = takePendingSignal(signalKey);
+  const pendingSignal = pending?.result;
+  // The previous turn's orchestrator finished after that turn was saved; its calls count from this turn.
+  for (const entry of pending?.usage ?? []) getUsageMeter()?.record(entry);
+  const withSignals = pendingSignal
+    ? stateSchema.parse({ ...nextState, relationship_context: { ...nextState.relationship_context, ...pendingSignal } })
     : nextState;
+  // Pick the overlay and act on the previous turn's signal actions before the graph builds this turn's reply.
+  const withOverlay = config?.selectOverlay ? applyOverlayRules(withSignals, config.selectOverlay) : withSignals;
+  const stateWithPriorSignals = config?.signalPolicy ? applySignalPolicy(withOverlay, config.signalPolicy) : withOverlay;
 
   if (signalConfig?.enabled && userText?.trim()) {
-    runSignalOrchestrator(userText, stateWithPriorSignals, signalConfig)
-      .then((result) => { if (result) setPendingSignal(sessionId, result); })
+    const signalMeter = new UsageMeter(nextState.session_context.llm_usage_log, options.budget ?? null);
+    runWithUsageMeter(signalMeter, () => runSignalOrchestrator(userText, stateWithPriorSignals, signalConfig))
+      .then((result) => { if (result) setPendingSignal(signalKey, result, signalMeter.entries); })
       .catch(() => { /* no-op; next turn proceeds without this signal */ });
   }
 
-  const result = await graphApp.compiled.invoke(stateWithPriorSignals);
-  const finalParsed = CfsStateSchema.parse(result);
+  const invokeConfig = graphApp.checkpointer ? threadConfig(sessionId, options.checkpointId) : undefined;
+  const result = options.onEvent
+    ? await streamGraphTurn(graphApp, stateWithPriorSignals, invokeConfig, options.onEvent)
+    : await graphApp.compiled.invoke(stateWithPriorSignals, invokeConfig);
+  const finalParsed = stateSchema.parse(result);
 
   const lastNewIdx = findLastAIIndex(finalParsed.messages, inputLen);
-  if (lastNewIdx < 0) return finalParsed;
-
-  if (!config) return finalParsed;
+  if (lastNewIdx < 0 || !config) return { state: finalParsed, rewritten: false };
 
   const lastNewAI = finalParsed.messages[lastNewIdx] as AIMessage;
   let text = lastNewAI.content?.toString() ?? "";
@@ -83,14 +185,12 @@ export async function runTurn(graphApp: CompiledGraph, state: CfsState, userText
   }
 
   if (policy?.allowAIRephrase && text) {
-    text = await reviewResponseWithAI(text, { forbidFirstPerson: policy.forbidFirstPerson });
+    text = await reviewResponseWithAI(text, { forbidFirstPerson: policy.forbidFirstPerson, overlay: finalParsed.overlay_active });
   }
 
-  if (text !== (lastNewAI.content?.toString() ?? "")) {
-    const updated = [...finalParsed.messages];
-    updated[lastNewIdx] = new AIMessage({ content: text, additional_kwargs: lastNewAI.additional_kwargs });
-    return CfsStateSchema.parse({ ...finalParsed, messages: updated });
-  }
+  if (text === (lastNewAI.content?.toString() ?? "")) return { state: finalParsed, rewritten: false };
 
-  return finalParsed;
+  const updated = [...finalParsed.messages];
+  updated[lastNewIdx] = new AIMessage({ content: text, additional_kwargs: lastNewAI.additional_kwargs });
+  return { state: stateSchema.parse({ ...finalParsed, messages: updated }), rewritten: true };
 }
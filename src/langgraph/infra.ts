@@ -30,6 +30,7 @@ export {
   computeFlowProgress,
 } from "./core/helpers/state.js";
 export type { StepProgressStatus, StepProgress, FlowProgress } from "./core/helpers/state.js";
+export { replaceItems } from "./state/reducers.js";
 
 /**
  * Path-based state access and mutation.
@@ -77,7 +78,7 @@ export {
  * Model factory for obtaining LLM instances by alias.
  */
 // --- Model Factory ---
-export { getModel } from "./core/config/model-factory.js";
+export { getModel, isModelAvailable, type ChatModel } from "./core/config/model-factory.js";
 
 /**
  * High-level interaction primitives that handle question presentation,
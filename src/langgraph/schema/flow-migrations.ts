@@ -0,0 +1,84 @@
+import type { CfsState } from "../state.js";
+import type { FlowMigration, GraphDsl } from "./graph-dsl-types.js";
+import { buildNestedPatch, getByPath } from "../core/helpers/path.js";
+
+/**
+ * Migrations leading from `from` to `to`, in order, or null when the DSL has
+ * no chain between them. Same version yields an empty chain.
+ */
+export function findMigrationPath(migrations: FlowMigration[], from: string, to: string): FlowMigration[] | null {
+  const path: FlowMigration[] = [];
+  const seen = new Set<string>();
+  let version = from;
+  while (version !== to) {
+    if (seen.has(version)) return null;
+    seen.add(version);
+    const step = migrations.find((m) => m.from === version);
+    if (!step) return null;
+    path.push(step);
+    version = step.to;
+  }
+  return path;
+}
+
+function renameKeys<T>(record: Record<string, T> | undefined, renames: Record<string, string>): Record<string, T> | undefined {
+  if (!record) return record;
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [renames[key] ?? key, value]));
+}
+
+/** One migration step: renames question keys and moves state path values (old path is cleared). */
+export function applyFlowMigration(state: CfsState, migration: FlowMigration): CfsState {
+  let result = state;
+  for (const [from, to] of Object.entries(migration.statePaths)) {
+    const value = getByPath(result, from);
+    if (value === undefined) continue;
+    result = { ...result, ...buildNestedPatch(result, from, undefined) };
+    result = { ...result, ...buildNestedPatch(result, to, value) };
+  }
+
+  const ctx = result.session_context;
+  const renames = migration.questionKeys;
+  const lastKey = ctx.last_question_key;
+  return {
+    ...result,
+    session_context: {
+      ...ctx,
+      last_question_key: lastKey != null ? (renames[lastKey] ?? lastKey) : lastKey,
+      suggested_options: renameKeys(ctx.suggested_options, renames),
+      graph_version: migration.to,
+    },
+  };
+}
+
+/**
+ * Upgrades a session to `toVersion` with the DSL's migrations. Returns null
+ * when no chain leads there from the session's stamped version.
+ */
+export function migrateSessionState(state: CfsState, migrations: FlowMigration[], toVersion: string): CfsState | null {
+  const fromVersion = state.session_context.graph_version;
+  if (fromVersion == null) return null;
+  const path = findMigrationPath(migrations, fromVersion, toVersion);
+  return path ? path.reduce(applyFlowMigration, state) : null;
+}
+
+/**
+ * Migration steps must chain to `graph.version` and move paths between known
+ * top-level state fields.
+ */
+export function migrationIssues(dsl: GraphDsl, allowedFields: Set<string>): Array<{ code: string; message: string }> {
+  const migrations = dsl.migrations ?? [];
+  const issues: Array<{ code: string; message: string }> = [];
+  const fail = (i: number, detail: string) =>
+    issues.push({ code: "invalid-migration", message: `Migration #${i} (${migrations[i].from} -> ${migrations[i].to}) ${detail}` });
+
+  migrations.forEach((m, i) => {
+    if (migrations.findIndex((other) => other.from === m.from) !== i) fail(i, `repeats from-version "${m.from}".`);
+    if (!findMigrationPath(migrations, m.from, dsl.graph.version)) {
+      fail(i, `does not lead to graph.version "${dsl.graph.version}".`);
+    }
+    for (const path of Object.entries(m.statePaths).flat()) {
+      if (!allowedFields.has(path.split(".")[0])) fail(i, `moves state path "${path}" which is not a state field.`);
+    }
+  });
+  return issues;
+}
@@ -1,12 +1,37 @@
 import { StateGraph, END } from "@langchain/langgraph";
+import type * as z from "zod";
+import type { BaseCheckpointSaver } from "@langchain/langgraph-checkpoint";
 import type { CfsState, GraphMessagingConfig, MessageType } from "../state.js";
-import type { GraphDsl, NodeDef } from "./graph-dsl-types.js";
-import { resolveHandler, resolveRouter, resolveConfig, resolveConfigFn } from "./handler-registry.js";
+import type { FlowMigration, GraphDsl, NodeDef, SubflowNodeConfig } from "./graph-dsl-types.js";
+import {
+  resolveHandler,
+  resolveRouter,
+  resolveConfig,
+  resolveConfigFn,
+  resolvePredicate,
+  resolveSignalAgent,
+  getRegisteredPredicateIds,
+  withGraphRegistry,
+} from "./handler-registry.js";
 import { createGenericHandler } from "./generic-handlers.js";
-import { evaluateRoutingRules } from "../core/routing/routing-engine.js";
+import { createSubflowHandler, loadSubflowDsl, withSubflowGuard } from "./subflow.js";
+import { expandGraphDsl, inferReadsWrites } from "./graph-expansions.js";
+import { migrationIssues } from "./flow-migrations.js";
+import { enforceWriteContract, type WriteContractMode } from "./write-contracts.js";
+import { evaluateRoutingRules, type RoutingRule } from "../core/routing/routing-engine.js";
+import {
+  BUILTIN_PREDICATE_NAMES,
+  evaluateWhen,
+  isBuiltinPredicate,
+  whenClauseIssues,
+  type WhenPredicate,
+} from "../core/routing/condition-predicates.js";
+import { BUILTIN_SIGNAL_DIMENSIONS } from "../core/agents/signal-types.js";
 import { setGraphMessagingConfig } from "../core/config/messaging.js";
-import { setModelConfig } from "../core/config/model-factory.js";
+import type { GraphRuntimeContext } from "../core/config/graph-context.js";
 import { interpolate } from "../core/helpers/template.js";
+import { resolveStateSchema, stateExtensionNames } from "../state/build-state-schema.js";
+import { reducerIssues, stateChannels, withStateDelta } from "../state/reducers.js";
 
 const SUPPORTED_STATE_CONTRACTS = ["state.CfsStateSchema"];
 
@@ -23,54 +48,6 @@ const BASE_STATE_FIELDS = new Set([
   "readout_context",
 ]);
 
-/**
- * Shared channel definitions derived from the canonical CfsState Zod contract.
- * All graphs using CfsState share these reducers. `session_context` uses
- * shallow-merge; every other slice uses last-write-wins replacement.
- */
-const CFS_STATE_CHANNELS = {
-  messages: {
-    reducer: (_left: any[] = [], right: any[] = []) => right ?? _left,
-    default: () => [] as any[],
-  },
-  session_context: {
-    reducer: (left: any = {}, right: any = {}) => ({ ...left, ...(right ?? {}) }),
-    default: () => ({} as any),
-  },
-  overlay_active: {
-    reducer: (_left: any, right: any) => right ?? _left,
-    default: () => undefined as any,
-  },
-  user_context: {
-    reducer: (_left: any, right: any) => right ?? _left,
-    default: () => ({} as any),
-  },
-  use_case_context: {
-    reducer: (_left: any, right: any) => right ?? _left,
-    default: () => ({} as any),
-  },
-  relationship_context: {
-    reducer: (_left: any, right: any) => right ?? _left,
-    default: () => ({} as any),
-  },
-  context_weave_index: {
-    reducer: (_left: any, right: any) => right ?? _left,
-    default: () => ({} as any),
-  },
-  vector_context: {
-    reducer: (_left: any, right: any) => right ?? _left,
-    default: () => ({} as any),
-  },
-  internet_search_context: {
-    reducer: (_left: any, right: any) => right ?? _left,
-    default: () => ({} as any),
-  },
-  readout_context: {
-    reducer: (_left: any, right: any) => right ?? _left,
-    default: () => ({} as any),
-  },
-};
-
 /**
  * The compiled graph type. Uses `any` to stay compatible with the legacy
  * `buildStep1Graph` return type and the `runTurn` parameter signature.
@@ -79,318 +56,38 @@ const CFS_STATE_CHANNELS = {
 export type CompileResult = any;
 
 /**
- * Wrapper around a compiled graph that carries the graphId for scoped config lookup.
+ * Wrapper around a compiled graph that carries the graphId and the config
+ * runTurn installs as the graph context for each invocation.
  */
 export interface CompiledGraph {
   graphId: string;
+  /** `graph.version` of the compiled DSL; absent on hand-built wrappers. */
+  version?: string;
+  /** The DSL's `migrations`, for upgrading sessions stamped with an older version. */
+  migrations?: FlowMigration[];
+  /** CfsStateSchema plus the flow's declared state slices; runTurn parses state with it. */
+  stateSchema?: z.ZodType<CfsState, z.ZodTypeDef, unknown>;
   compiled: CompileResult;
+  /** Messaging config and model aliases for this graph; absent on hand-built wrappers. */
+  context?: GraphRuntimeContext;
+  /** Present when compiled with a checkpointer; runTurn then keys threads by session_id. */
+  checkpointer?: BaseCheckpointSaver;
 }
 
-/**
- * Expand autoIngest configurations in the DSL. For each question node with
- * autoIngest, generates a synthetic ingest node, routing rules, static
- * transitions, and ingest field mappings. Returns a new DSL — does not mutate.
- */
-export function expandAutoIngest(dsl: GraphDsl): GraphDsl {
-  const existingNodeIds = new Set(dsl.nodes.map((n) => n.id));
-  const existingIngestKeys = new Set<string>();
-  for (const node of dsl.nodes) {
-    if (node.kind === "ingest" && node.nodeConfig?.ingest) {
-      const questionKey = findQuestionKeyForIngest(dsl, node.id);
-      if (questionKey) existingIngestKeys.add(questionKey);
-    }
-  }
-
-  const newNodes: NodeDef[] = [];
-  const newStaticTransitions: GraphDsl["transitions"]["static"] = [];
-  const newRoutingRules: Record<string, GraphDsl["config"]["routingRules"][string]> = {};
-  const newIngestFieldMappings: Record<string, { targetField: string; sanitizeAs?: string; captureObjective?: boolean }> = {};
-
-  for (const node of dsl.nodes) {
-    const ai = node.nodeConfig?.question?.autoIngest;
-    if (!ai) continue;
-    const questionKey = node.nodeConfig!.question!.questionKey;
-
-    if (existingIngestKeys.has(questionKey)) continue;
-
-    const syntheticId = `${node.id}_ingest`;
-    if (existingNodeIds.has(syntheticId)) continue;
-
-    const ingestNode: NodeDef = {
-      id: syntheticId,
-      kind: "ingest",
-      handlerRef: undefined,
-      helperRefs: [],
-      reads: ["messages", "session_context"],
-      writes: ["user_context", "session_context"],
-      nodeConfig: {
-        ingest: ai.affirmativeCheck ? { affirmativeCheckConfig: ai.affirmativeCheck } : {},
-      },
-    };
-    newNodes.push(ingestNode);
-    existingNodeIds.add(syntheticId);
-
-    const transitionTarget = ai.then ?? "__end__";
-    newStaticTransitions.push({ from: syntheticId, to: transitionTarget });
-
-    const awaitingRule = {
-      when: { awaiting_user: true, last_question_key: questionKey },
-      goto: syntheticId,
-    };
-
-    const routerNodes = findRouterNodesForQuestion(dsl, node.id);
-    for (const routerFrom of routerNodes) {
-      if (!newRoutingRules[routerFrom]) {
-        newRoutingRules[routerFrom] = [];
-      }
-      newRoutingRules[routerFrom].push(awaitingRule);
-    }
-
-    newIngestFieldMappings[questionKey] = {
-      targetField: ai.saveTo,
-      ...(ai.sanitizeAs ? { sanitizeAs: ai.sanitizeAs } : {}),
-      ...(ai.captureObjective ? { captureObjective: ai.captureObjective } : {}),
-    };
-  }
-
-  if (newNodes.length === 0) return dsl;
-
-  const mergedRoutingRules = { ...(dsl.config?.routingRules ?? {}) };
-  for (const [routerFrom, rules] of Object.entries(newRoutingRules)) {
-    const existing = mergedRoutingRules[routerFrom] ?? [];
-    const existingGotos = new Set(existing.map((r) => r.goto).filter(Boolean));
-    const filtered = rules.filter((r) => !r.goto || !existingGotos.has(r.goto));
-    mergedRoutingRules[routerFrom] = [...filtered, ...existing];
-  }
-
-  const mergedIngestFieldMappings = {
-    ...(dsl.config?.ingestFieldMappings ?? {}),
-    ...newIngestFieldMappings,
-  };
-
-  const mergedConditional = dsl.transitions.conditional.map((ct) => {
-    const autoRules = newRoutingRules[ct.from];
-    if (!autoRules) return ct;
-    const hadDests = ct.destinations && Object.keys(ct.destinations).length > 0;
-    const newDests = hadDests ? { ...ct.destinations! } : undefined;
-    if (hadDests) {
-      for (const rule of autoRules) {
-        if (rule.goto && !newDests![rule.goto]) {
-          const targetNode = rule.goto;
-          if (existingNodeIds.has(targetNode) || targetNode === "__end__") {
-            newDests![targetNode] = targetNode === "__end__" ? "__end__" : targetNode;
-          }
-        }
-      }
-      return { ...ct, destinations: newDests };
-    }
-    return ct;
-  });
-
-  return {
-    ...dsl,
-    nodes: [...dsl.nodes, ...newNodes],
-    transitions: {
-      static: [...dsl.transitions.static, ...newStaticTransitions],
-      conditional: mergedConditional,
-    },
-    config: {
-      ...dsl.config,
-      routingRules: mergedRoutingRules,
-      ingestFieldMappings: mergedIngestFieldMappings,
-    },
-  } as GraphDsl;
-}
-
-function findQuestionKeyForIngest(dsl: GraphDsl, ingestNodeId: string): string | null {
-  const routingRules = dsl.config?.routingRules ?? {};
-  for (const rules of Object.values(routingRules)) {
-    for (const rule of rules) {
-      if (rule.goto === ingestNodeId && rule.when?.last_question_key) {
-        return rule.when.last_question_key as string;
-      }
-    }
-  }
-  return null;
-}
-
-function findRouterNodesForQuestion(dsl: GraphDsl, questionNodeId: string): string[] {
-  const routers: string[] = [];
-  for (const ct of dsl.transitions.conditional) {
-    const destinations = Object.values(ct.destinations ?? {});
-    if (destinations.includes(questionNodeId)) {
-      routers.push(ct.from);
-    }
-  }
-  if (routers.length === 0) {
-    for (const ct of dsl.transitions.conditional) {
-      routers.push(ct.from);
-    }
-  }
-  return [...new Set(routers)];
-}
-
-type RoutingRuleEntry = NonNullable<GraphDsl["config"]>["routingRules"][string][number];
-
-/**
- * Expands awaitingDispatch shorthand into explicit when/goto rules.
- * Each awaitingDispatch entry becomes { when: { awaiting_user: true, last_question_key: KEY }, goto: TARGET }.
- * Skips keys already present in existing when clauses. Inserts expanded rules before the default rule.
- */
-export function expandAwaitingDispatch(dsl: GraphDsl): GraphDsl {
-  const routingRules = dsl.config?.routingRules ?? {};
-  const expanded: typeof routingRules = {};
-
-  for (const [routerFrom, rules] of Object.entries(routingRules)) {
-    const existingKeys = new Set<string>();
-    for (const r of rules) {
-      if (r.when?.last_question_key) {
-        existingKeys.add(String(r.when.last_question_key));
-      }
-    }
-
-    const newRules: RoutingRuleEntry[] = [];
-    for (const r of rules) {
-      const ad = (r as RoutingRuleEntry & { awaitingDispatch?: Record<string, string> }).awaitingDispatch;
-      if (ad) {
-        for (const [key, target] of Object.entries(ad)) {
-          if (existingKeys.has(key)) continue;
-          newRules.push({
-            when: { awaiting_user: true, last_question_key: key },
-            goto: target,
-          });
-          existingKeys.add(key);
-        }
-        continue;
-      }
-      newRules.push(r);
-    }
-
-    expanded[routerFrom] = newRules;
-  }
-
-  if (Object.keys(expanded).length === 0) return dsl;
-  return {
-    ...dsl,
-    config: {
-      ...dsl.config,
-      routingRules: expanded,
-    },
-  } as GraphDsl;
-}
-
-/**
- * Auto-generates destinations for conditional transitions when missing.
- * Derives from routing rules: union of rule.goto, rule.default, plus { end: "__end__" }.
- * Throws if destinations is missing and no routingRules exist for the from node.
- */
-export function expandDestinations(dsl: GraphDsl): GraphDsl {
-  const nodeIds = new Set(dsl.nodes.map((n) => n.id));
-  const routingRules = dsl.config?.routingRules ?? {};
-
-  const conditional = dsl.transitions.conditional.map((ct) => {
-    if (ct.destinations && Object.keys(ct.destinations).length > 0) {
-      return ct;
-    }
-    const rules = routingRules[ct.from];
-    if (!rules || rules.length === 0) {
-      throw new Error(
-        `Conditional transition for node "${ct.from}" has no destinations and no routing rules to derive them from.`
-      );
-    }
-    const dests: Record<string, string> = { end: "__end__" };
-    const toEnd = (v: string) => (v === "__end__" || v === "end" ? "__end__" : v);
-    for (const r of rules) {
-      if (r.goto) dests[r.goto] = toEnd(r.goto);
-      if (r.default) dests[r.default] = toEnd(r.default);
-    }
-    for (const [k, v] of Object.entries(dests)) {
-      if (v !== "__end__" && !nodeIds.has(v)) delete dests[k];
-    }
-    return { ...ct, destinations: dests };
-  });
-
-  return {
-    ...dsl,
-    transitions: {
-      ...dsl.transitions,
-      conditional,
-    },
-  } as GraphDsl;
-}
-
-/**
- * Adds default static transitions for nodes that don't have one.
- * Nodes of kind question, ingest, compute, or integration that don't appear as from
- * in any static transition get { from: nodeId, to: "__end__" }.
- * Router and terminal nodes are skipped.
- */
-export function expandDefaultTransitions(dsl: GraphDsl): GraphDsl {
-  const staticFrom = new Set(dsl.transitions.static.map((s) => s.from));
-  const nodeKindMap = new Map(dsl.nodes.map((n) => [n.id, n.kind]));
-  const skipKinds = new Set(["router", "terminal"]);
-
-  const add: Array<{ from: string; to: string }> = [];
-  for (const node of dsl.nodes) {
-    if (skipKinds.has(node.kind)) continue;
-    if (staticFrom.has(node.id)) continue;
-    const kind = node.kind as string;
-    if (["question", "ingest", "compute", "integration"].includes(kind)) {
-      add.push({ from: node.id, to: "__end__" });
-    }
-  }
-
-  if (add.length === 0) return dsl;
-  return {
-    ...dsl,
-    transitions: {
-      ...dsl.transitions,
-      static: [...dsl.transitions.static, ...add],
-    },
-  } as GraphDsl;
-}
-
-/**
- * Infer reads/writes from a node's kind and nodeConfig when not explicitly provided.
- * Returns { reads, writes } arrays. If the node has explicit reads/writes, returns those.
- */
-export function inferReadsWrites(node: NodeDef): { reads: string[]; writes: string[] } {
-  if ((node.reads && node.reads.length > 0) || (node.writes && node.writes.length > 0)) {
-    return { reads: node.reads ?? [], writes: node.writes ?? [] };
-  }
-
-  if (node.kind === "router") {
-    return { reads: ["session_context"], writes: [] };
-  }
-
-  const nc = node.nodeConfig;
-  if (!nc) return { reads: [], writes: [] };
-
-  if (nc.question) {
-    return { reads: ["session_context"], writes: ["messages", "session_context"] };
-  }
-  if (nc.greeting) {
-    return { reads: [], writes: ["messages", "session_context"] };
-  }
-  if (nc.ingest) {
-    return { reads: ["messages", "session_context"], writes: ["user_context", "session_context"] };
-  }
-  if (nc.display) {
-    const rootSlice = nc.display.statePath.split(".")[0];
-    return { reads: [rootSlice], writes: ["messages"] };
-  }
-  if (nc.aiCompute) {
-    const outputRoot = nc.aiCompute.outputPath.split(".")[0];
-    const inputRoots = Object.values(nc.aiCompute.inputOverrides ?? {}).map((p) => p.split(".")[0]);
-    return { reads: [...new Set(inputRoots)], writes: [outputRoot, "session_context"] };
-  }
-  if (nc.vectorSelect) {
-    const outputRoot = nc.vectorSelect.outputPath.split(".")[0];
-    return { reads: ["session_context"], writes: [outputRoot, "session_context"] };
-  }
-
-  return { reads: [], writes: [] };
-}
+export {
+  expandAutoIngest,
+  expandAwaitingDispatch,
+  expandDefaultTransitions,
+  expandDestinations,
+  expandGraphDsl,
+  inferReadsWrites,
+} from "./graph-expansions.js";
+
+export type CompileOptions = {
+  checkpointer?: BaseCheckpointSaver;
+  /** Overrides `validation.enforceWrites` (e.g. strict in tests, off in production). */
+  enforceWrites?: WriteContractMode;
+};
 
 /**
  * Build an adjacency list from transitions. Each node maps to the set of
@@ -417,6 +114,11 @@ function buildAdjacencyList(dsl: GraphDsl): Map<string, Set<string>> {
   return adj;
 }
 
+/** Top-level state fields a graph may reference: the shared contract plus its stateExtensions. */
+function allowedStateFields(dsl: GraphDsl): Set<string> {
+  return new Set([...BASE_STATE_FIELDS, ...stateExtensionNames(dsl)]);
+}
+
 /**
  * Warnings emitted by preflight routing validation. Exported for testing.
  */
@@ -575,8 +277,7 @@ export function preflightRoutingValidation(dsl: GraphDsl): PreflightWarning[] {
   }
 
   // 6. State extensions — warn on undeclared state fields in reads/writes (skip nodes with empty arrays)
-  const declaredExtensions = new Set(dsl.graph.stateExtensions ?? []);
-  const allowedFields = new Set([...BASE_STATE_FIELDS, ...declaredExtensions]);
+  const allowedFields = allowedStateFields(dsl);
   for (const node of dsl.nodes) {
     const reads = node.reads ?? [];
     const writes = node.writes ?? [];
@@ -595,13 +296,30 @@ export function preflightRoutingValidation(dsl: GraphDsl): PreflightWarning[] {
   return warnings;
 }
 
+/** Runs `fn`, returning the message it throws (registry lookups throw on unknown refs). */
+function thrownMessage(fn: () => unknown): string | null {
+  try {
+    fn();
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
 /**
  * Validates a parsed GraphDsl against the handler/router/config registries
- * and the known state contracts. Throws on any unresolvable reference.
+ * and the known state contracts. Returns every unresolvable reference; any
+ * one of them makes the graph uncompilable.
  */
-function preflight(dsl: GraphDsl): void {
+export function preflightReferenceValidation(dsl: GraphDsl): PreflightWarning[] {
+  const errors: PreflightWarning[] = [];
+  const fail = (code: string, message: string | null) => {
+    if (message) errors.push({ code, message });
+  };
+
   if (!SUPPORTED_STATE_CONTRACTS.includes(dsl.stateContractRef)) {
-    throw new Error(
+    fail(
+      "unknown-state-contract",
       `Unknown stateContractRef "${dsl.stateContractRef}". ` +
       `Supported: ${SUPPORTED_STATE_CONTRACTS.join(", ")}`
     );
@@ -610,50 +328,152 @@ function preflight(dsl: GraphDsl): void {
   const nodeIds = new Set(dsl.nodes.map((n) => n.id));
 
   if (!nodeIds.has(dsl.graph.entrypoint)) {
-    throw new Error(`Entrypoint "${dsl.graph.entrypoint}" is not a declared node.`);
+    fail("unknown-entrypoint", `Entrypoint "${dsl.graph.entrypoint}" is not a declared node.`);
   }
 
   for (const node of dsl.nodes) {
     if (node.handlerRef) {
-      resolveHandler(node.handlerRef);
+      fail("unregistered-handler", thrownMessage(() => resolveHandler(node.handlerRef!)));
     } else if (!node.nodeConfig) {
-      throw new Error(`Node "${node.id}" has neither handlerRef nor nodeConfig.`);
+      fail("missing-handler", `Node "${node.id}" has neither handlerRef nor nodeConfig.`);
     }
   }
 
   const routingRules = dsl.config?.routingRules ?? {};
   for (const ct of dsl.transitions.conditional) {
     if (!nodeIds.has(ct.from)) {
-      throw new Error(`Conditional transition "from" node "${ct.from}" is not declared.`);
+      fail("unknown-node", `Conditional transition "from" node "${ct.from}" is not declared.`);
     }
     const rules = routingRules[ct.from];
     if (!rules || rules.length === 0) {
-      resolveRouter(ct.routerRef);
+      fail("unregistered-router", thrownMessage(() => resolveRouter(ct.routerRef)));
     }
     const dests = ct.destinations ?? {};
     for (const dest of Object.values(dests)) {
       if (dest !== "__end__" && !nodeIds.has(dest)) {
-        throw new Error(`Conditional destination "${dest}" is not a declared node.`);
+        fail("unknown-node", `Conditional destination "${dest}" is not a declared node.`);
       }
     }
   }
 
+  const whenScope = {
+    isCustom: (key: string) => !thrownMessage(() => resolvePredicate(key)),
+    signalDimensions: Object.keys(dsl.config.signalAgents?.custom ?? {}),
+  };
+  for (const [nodeId, rules] of Object.entries(routingRules)) {
+    rules.forEach((rule, index) => {
+      for (const issue of whenClauseIssues(rule.when ?? {}, whenScope)) {
+        const known =
+          issue.code === "unknown-when-predicate"
+            ? `. Known: ${[...BUILTIN_PREDICATE_NAMES, ...getRegisteredPredicateIds()].join(", ")}`
+            : "";
+        fail(issue.code, `Routing rule #${index} on node "${nodeId}" ${issue.message}${known}`);
+      }
+    });
+  }
+  (dsl.config.overlayRules ?? []).forEach((rule, index) => {
+    for (const issue of whenClauseIssues(rule.when, whenScope)) {
+      fail(issue.code, `Overlay rule #${index} ${issue.message}`);
+    }
+  });
+
+  for (const [dimension, agent] of Object.entries(dsl.config.signalAgents?.custom ?? {})) {
+    if ([...BUILTIN_SIGNAL_DIMENSIONS, "overall"].includes(dimension)) {
+      fail("invalid-signal-agent", `Custom signal dimension "${dimension}" is built in.`);
+    }
+    fail("unregistered-signal-agent", thrownMessage(() => resolveSignalAgent(agent.agentRef)));
+  }
+
   for (const st of dsl.transitions.static) {
     if (!nodeIds.has(st.from)) {
-      throw new Error(`Static transition "from" node "${st.from}" is not declared.`);
+      fail("unknown-node", `Static transition "from" node "${st.from}" is not declared.`);
     }
     if (st.to !== "__end__" && !nodeIds.has(st.to)) {
-      throw new Error(`Static transition "to" node "${st.to}" is not declared.`);
+      fail("unknown-node", `Static transition "to" node "${st.to}" is not declared.`);
     }
   }
 
   if (dsl.runtimeConfigRefs.initConfigRef) {
-    resolveConfig(dsl.runtimeConfigRefs.initConfigRef);
+    fail("unregistered-config", thrownMessage(() => resolveConfig(dsl.runtimeConfigRefs.initConfigRef!)));
+  }
+
+  for (const node of dsl.nodes) {
+    if (node.nodeConfig?.subflow) errors.push(...subflowReferenceValidation(dsl, node));
   }
 
-  // Non-fatal routing validations
-  const routingWarnings = preflightRoutingValidation(dsl);
-  for (const w of routingWarnings) {
+  const extensionNames = stateExtensionNames(dsl);
+  extensionNames.forEach((name, i) => {
+    if (BASE_STATE_FIELDS.has(name) || extensionNames.indexOf(name) !== i) {
+      fail("invalid-state-extension", `State extension "${name}" is already a state field.`);
+    }
+  });
+
+  errors.push(...migrationIssues(dsl, allowedStateFields(dsl)));
+  errors.push(...reducerIssues(dsl, allowedStateFields(dsl)));
+  return errors;
+}
+
+/**
+ * Checks across a subflow boundary: the child loads, shares the parent's
+ * state contract, its mappings name known state fields on each side, and its
+ * own references resolve (recursively, within its registry scope).
+ */
+function subflowReferenceValidation(dsl: GraphDsl, node: NodeDef): PreflightWarning[] {
+  const config = node.nodeConfig!.subflow!;
+  const at = `Subflow node "${node.id}"`;
+  let child: GraphDsl;
+  try {
+    child = loadSubflowDsl(config);
+  } catch (err) {
+    return [{ code: "unknown-subflow", message: `${at} cannot load "${config.flowRef}": ${(err as Error).message}` }];
+  }
+
+  const errors: PreflightWarning[] = [];
+  if (child.stateContractRef !== dsl.stateContractRef) {
+    errors.push({
+      code: "subflow-contract-mismatch",
+      message: `${at} uses stateContractRef "${child.stateContractRef}" but the parent uses "${dsl.stateContractRef}".`,
+    });
+  }
+
+  const checkPaths = (paths: string[], side: GraphDsl, label: string) => {
+    const allowed = allowedStateFields(side);
+    for (const path of paths) {
+      if (!allowed.has(path.split(".")[0])) {
+        errors.push({
+          code: "invalid-subflow-mapping",
+          message: `${at} maps ${label} path "${path}" which is not a state field of graph "${side.graph.graphId}".`,
+        });
+      }
+    }
+  };
+  checkPaths(Object.keys(config.inputs), child, "input");
+  checkPaths(Object.values(config.inputs), dsl, "input source");
+  checkPaths(Object.keys(config.outputs), dsl, "output");
+  checkPaths(Object.values(config.outputs), child, "output source");
+
+  const childErrors = thrownMessage(() =>
+    withSubflowGuard(config.flowRef, () =>
+      withGraphRegistry(child.graph.graphId, () => {
+        for (const e of preflightReferenceValidation(expandGraphDsl(child))) {
+          errors.push({ code: e.code, message: `${at} (${child.graph.graphId}): ${e.message}` });
+        }
+      })
+    )
+  );
+  if (childErrors) errors.push({ code: "subflow-cycle", message: `${at}: ${childErrors}` });
+  return errors;
+}
+
+/**
+ * Throws on the first unresolvable reference, then logs the non-fatal
+ * routing warnings.
+ */
+function preflight(dsl: GraphDsl): void {
+  const [firstError] = preflightReferenceValidation(dsl);
+  if (firstError) throw new Error(firstError.message);
+
+  for (const w of preflightRoutingValidation(dsl)) {
     console.warn(w.message);
   }
 }
@@ -679,6 +499,13 @@ export function buildGraphMessagingConfigFromDsl(dsl: GraphDsl): GraphMessagingC
       ? resolveConfigFn(refs.overlayPrefixRef)
       : () => "";
 
+  const overlayRules = cfg.overlayRules ?? [];
+  const overlayPredicates = resolveCustomPredicates(overlayRules);
+  const selectOverlay =
+    overlayRules.length > 0
+      ? (state: CfsState) => overlayRules.find((rule) => evaluateWhen(state, rule.when, overlayPredicates))?.overlay ?? null
+      : undefined;
+
   const exampleGeneratorFn = exampleTemplates
     ? (params: { industry?: string | null; role?: string | null; topic: "role" | "industry" | "goal" | "timeframe" }) => {
         const industry = params.industry ?? "your industry";
@@ -723,8 +550,19 @@ export function buildGraphMessagingConfigFromDsl(dsl: GraphDsl): GraphMessagingC
   const dynamicOptions = cfg.dynamicOptions && Object.keys(cfg.dynamicOptions).length > 0 ? cfg.dynamicOptions : undefined;
   const continuationTriggers = cfg.continuationTriggers?.length ? cfg.continuationTriggers : undefined;
   const ingestFieldMappings = cfg.ingestFieldMappings && Object.keys(cfg.ingestFieldMappings).length > 0 ? cfg.ingestFieldMappings : undefined;
+  const customSignalAgents = Object.entries(cfg.signalAgents?.custom ?? {}).map(([dimension, agent]) => ({
+    dimension,
+    agent: resolveSignalAgent(agent.agentRef),
+    weight: agent.weight,
+    actions: agent.actions,
+  }));
   const signalAgents = cfg.signalAgents
-    ? { enabled: cfg.signalAgents.enabled, ttlMs: cfg.signalAgents.ttlMs, llmEnabled: cfg.signalAgents.llmEnabled ?? false }
+    ? {
+        enabled: cfg.signalAgents.enabled,
+        ttlMs: cfg.signalAgents.ttlMs,
+        llmEnabled: cfg.signalAgents.llmEnabled ?? false,
+        ...(customSignalAgents.length > 0 ? { custom: customSignalAgents } : {}),
+      }
     : undefined;
 
   return {
@@ -753,6 +591,8 @@ export function buildGraphMessagingConfigFromDsl(dsl: GraphDsl): GraphMessagingC
     continuationTriggers,
     ingestFieldMappings,
     signalAgents,
+    signalPolicy: Object.keys(cfg.signalPolicy ?? {}).length > 0 ? cfg.signalPolicy : undefined,
+    selectOverlay,
   };
 }
 
@@ -760,37 +600,54 @@ export function buildGraphMessagingConfigFromDsl(dsl: GraphDsl): GraphMessagingC
  * Compiles a validated GraphDsl into a runnable LangGraph StateGraph.
  * Rejects schemas that attempt to redefine the shared state contract.
  * Returns a CompiledGraph wrapper with graphId for scoped config lookup.
+ * Handler, router and config refs resolve against the graph's registry scope.
  */
-export function compileGraphFromDsl(inputDsl: GraphDsl): CompiledGraph {
-  let dsl = expandAutoIngest(inputDsl);
-  const schemaVersion = inputDsl.schemaVersion;
-  if (schemaVersion >= 2) {
-    dsl = expandAwaitingDispatch(dsl);
-    dsl = expandDestinations(dsl);
-    dsl = expandDefaultTransitions(dsl);
-  }
+export function compileGraphFromDsl(inputDsl: GraphDsl, options: CompileOptions = {}): CompiledGraph {
+  return withGraphRegistry(inputDsl.graph.graphId, () => compileInGraphScope(inputDsl, options));
+}
+
+/** Keys of `when`, including those nested in `all`/`any`/`not` groups. */
+function whenKeys(when: unknown): string[] {
+  if (Array.isArray(when)) return when.flatMap(whenKeys);
+  if (!when || typeof when !== "object") return [];
+  return Object.entries(when).flatMap(([key, value]) =>
+    key === "all" || key === "any" || key === "not" ? whenKeys(value) : [key]
+  );
+}
+
+/** Custom `when` predicates used by `rules`, resolved now so routing needs no registry scope at run time. */
+function resolveCustomPredicates(rules: Array<Pick<RoutingRule, "when">>): Record<string, WhenPredicate> {
+  const keys = rules.flatMap((rule) => whenKeys(rule.when)).filter((key) => !isBuiltinPredicate(key));
+  return Object.fromEntries(keys.map((key) => [key, resolvePredicate(key)]));
+}
+
+/** Compiles a subflow node's flow as its own graph (own registry scope and messaging config). */
+function compileSubflow(config: SubflowNodeConfig): CompiledGraph {
+  return withSubflowGuard(config.flowRef, () => compileGraphFromDsl(loadSubflowDsl(config)));
+}
+
+function compileInGraphScope(inputDsl: GraphDsl, options: CompileOptions): CompiledGraph {
+  const dsl = expandGraphDsl(inputDsl);
   preflight(dsl);
 
   const graphId = dsl.graph.graphId;
   const builtConfig = buildGraphMessagingConfigFromDsl(dsl);
-  if (builtConfig) {
-    setGraphMessagingConfig(graphId, builtConfig);
-  } else if (dsl.runtimeConfigRefs.initConfigRef) {
+  if (!builtConfig && dsl.runtimeConfigRefs.initConfigRef) {
     const initFn = resolveConfig(dsl.runtimeConfigRefs.initConfigRef);
     initFn();
   }
 
-  for (const [alias, modelCfg] of Object.entries(dsl.config.models)) {
-    setModelConfig(alias, modelCfg);
-  }
-
+  const enforceWrites = options.enforceWrites ?? dsl.validation.enforceWrites;
   const graph: any = new StateGraph<CfsState>({
-    channels: CFS_STATE_CHANNELS,
+    channels: stateChannels(dsl),
   } as any);
 
+  const toStateDelta = withStateDelta(dsl);
   for (const node of dsl.nodes) {
     let handler;
-    if (node.handlerRef) {
+    if (node.nodeConfig?.subflow) {
+      handler = createSubflowHandler(compileSubflow(node.nodeConfig.subflow), node.nodeConfig.subflow);
+    } else if (node.handlerRef) {
       handler = resolveHandler(node.handlerRef);
       if (node.nodeConfig) {
         console.warn(`[graph-compiler] Node "${node.id}" has both handlerRef and nodeConfig; using handlerRef.`);
@@ -798,7 +655,8 @@ export function compileGraphFromDsl(inputDsl: GraphDsl): CompiledGraph {
     } else {
       handler = createGenericHandler(node, dsl.config);
     }
-    graph.addNode(node.id, handler);
+    const checked = enforceWriteContract(node.id, inferReadsWrites(node).writes, handler, enforceWrites);
+    graph.addNode(node.id, toStateDelta(checked));
   }
 
   graph.setEntryPoint(dsl.graph.entrypoint);
@@ -811,10 +669,11 @@ export function compileGraphFromDsl(inputDsl: GraphDsl): CompiledGraph {
     for (const [key, value] of Object.entries(dests)) {
       destMap[key] = value === "__end__" ? END : value;
     }
+    const predicates = rules && rules.length > 0 ? resolveCustomPredicates(rules) : {};
     const router =
       rules && rules.length > 0
         ? (state: CfsState) => {
-            const key = evaluateRoutingRules(rules, state);
+            const key = evaluateRoutingRules(rules, state, predicates);
             return destMap[key] !== undefined ? key : "end";
           }
         : resolveRouter(ct.routerRef);
@@ -825,5 +684,18 @@ export function compileGraphFromDsl(inputDsl: GraphDsl): CompiledGraph {
     graph.addEdge(st.from, st.to === "__end__" ? END : st.to);
   }
 
-  return { graphId, compiled: graph.compile() };
+  const context: GraphRuntimeContext = { graphId, messaging: builtConfig, models: { ...dsl.config.models } };
+  const { checkpointer } = options;
+  const compiled = graph.compile({ checkpointer });
+  // Registered last so a failed (re)compile leaves the previous config in place.
+  if (builtConfig) setGraphMessagingConfig(graphId, builtConfig);
+  return {
+    graphId,
+    version: dsl.graph.version,
+    migrations: dsl.migrations,
+    stateSchema: resolveStateSchema(dsl),
+    compiled,
+    context,
+    ...(checkpointer ? { checkpointer } : {}),
+  };
 }
@@ -0,0 +1,183 @@
+import type { GraphDsl, NodeDef } from "./graph-dsl-types.js";
+import { expandGraphDsl } from "./graph-compiler.js";
+
+export type DiagramFormat = "mermaid" | "dot";
+
+type NodeKind = NodeDef["kind"];
+type DiagramEdge = { from: string; to: string; label: string | null; conditional: boolean };
+
+/** Nodes, edges and synthetic ids of the graph as the compiler builds it. */
+type DiagramModel = {
+  entrypoint: string;
+  nodes: Array<{ id: string; kind: NodeKind; synthetic: boolean }>;
+  edges: DiagramEdge[];
+};
+
+const END = "__end__";
+
+// ── when → edge label ────────────────────────────────────────────────
+
+const COMPARISONS: Record<string, string> = {
+  state_path_equals: "==",
+  state_path_not_equals: "!=",
+  state_path_gt: ">",
+  state_path_gte: ">=",
+  state_path_lt: "<",
+  state_path_lte: "<=",
+  state_path_in: "in",
+  state_path_matches: "~",
+};
+
+const SIGNAL_OPS: Record<string, string> = { signal_gt: ">", signal_gte: ">=", signal_lt: "<", signal_lte: "<=" };
+
+const show = (value: unknown): string => (typeof value === "string" ? value : JSON.stringify(value));
+
+function describeTerm(key: string, value: unknown): string {
+  if ((key === "all" || key === "any") && Array.isArray(value)) {
+    return `(${value.map((c) => describeWhen(c as Record<string, unknown>)).join(key === "all" ? " && " : " || ")})`;
+  }
+  if (key === "not" && value && typeof value === "object") return `!(${describeWhen(value as Record<string, unknown>)})`;
+  if (key === "state_path_empty") return `empty(${show(value)})`;
+  if (key === "state_path_not_empty") return `!empty(${show(value)})`;
+  if (key === "last_answer_matches") return `answer ~ /${show(value)}/`;
+  const v = value as { path?: unknown; value?: unknown } | null;
+  if (key in COMPARISONS && v && typeof v === "object") {
+    const rhs = key === "state_path_matches" ? `/${show(v.value)}/` : show(v.value);
+    return `${show(v.path)} ${COMPARISONS[key]} ${rhs}`;
+  }
+  if (key === "state_path_length_gt" && v && typeof v === "object") return `len(${show(v.path)}) > ${show(v.value)}`;
+  if (key in SIGNAL_OPS && value && typeof value === "object") {
+    return Object.entries(value)
+      .map(([dimension, threshold]) => `${dimension} ${SIGNAL_OPS[key]} ${show(threshold)}`)
+      .join(" && ");
+  }
+  if (value === true) return key;
+  if (value === false) return `!${key}`;
+  return `${key}=${show(value)}`;
+}
+
+/** Compact, human-readable rendering of a routing `when` clause. */
+export function describeWhen(when: Record<string, unknown>): string {
+  return Object.entries(when)
+    .map(([key, value]) => describeTerm(key, value))
+    .join(" && ");
+}
+
+// ── Model ────────────────────────────────────────────────────────────
+
+/**
+ * Builds the diagram model from the expanded DSL so synthetic `_ingest`
+ * nodes, derived destinations and default transitions all appear.
+ */
+function buildModel(inputDsl: GraphDsl): DiagramModel {
+  const declared = new Set(inputDsl.nodes.map((n) => n.id));
+  const dsl = expandGraphDsl(inputDsl);
+  const routingRules = dsl.config?.routingRules ?? {};
+  const edges: DiagramEdge[] = dsl.transitions.static.map((st) => ({
+    from: st.from,
+    to: st.to,
+    label: null,
+    conditional: false,
+  }));
+
+  for (const ct of dsl.transitions.conditional) {
+    const rules = routingRules[ct.from] ?? [];
+    for (const [key, target] of Object.entries(ct.destinations ?? {})) {
+      const conditions = rules.flatMap((rule) => {
+        if (rule.when && Object.keys(rule.when).length > 0) return rule.goto === key ? [describeWhen(rule.when)] : [];
+        return rule.default === key ? ["default"] : [];
+      });
+      const label = conditions.length > 1 ? conditions.map((c) => (c.includes(" && ") ? `(${c})` : c)).join(" || ") : conditions[0];
+      edges.push({ from: ct.from, to: target, label: label ?? key, conditional: true });
+    }
+  }
+
+  return {
+    entrypoint: dsl.graph.entrypoint,
+    nodes: dsl.nodes.map((n) => ({ id: n.id, kind: n.kind, synthetic: !declared.has(n.id) })),
+    edges,
+  };
+}
+
+// ── Mermaid ──────────────────────────────────────────────────────────
+
+const MERMAID_SHAPES: Record<NodeKind, [string, string]> = {
+  router: ["{", "}"],
+  question: ["(", ")"],
+  ingest: ["[", "]"],
+  compute: ["{{", "}}"],
+  integration: ["([", "])"],
+  terminal: ["(((", ")))"],
+  subflow: ["[[", "]]"],
+};
+
+const mermaidId = (id: string) => (id === END ? "END_NODE" : id.replace(/[^\w]/g, "_"));
+const mermaidText = (text: string) => text.replace(/"/g, "#quot;");
+
+/**
+ * Mermaid `flowchart TD` for the graph. Conditional edges are dotted and
+ * labelled with their `when` conditions; synthetic nodes use the `synthetic` class.
+ */
+export function dslToMermaid(dsl: GraphDsl): string {
+  const model = buildModel(dsl);
+  const lines = ["flowchart TD", '  START_NODE(("START"))', '  END_NODE((("END")))'];
+  for (const node of model.nodes) {
+    const [open, close] = MERMAID_SHAPES[node.kind];
+    lines.push(`  ${mermaidId(node.id)}${open}"${mermaidText(node.id)}"${close}`);
+  }
+  lines.push(`  START_NODE --> ${mermaidId(model.entrypoint)}`);
+  for (const edge of model.edges) {
+    const arrow = edge.conditional ? "-.->" : "-->";
+    const label = edge.label ? `|"${mermaidText(edge.label)}"|` : "";
+    lines.push(`  ${mermaidId(edge.from)} ${arrow}${label} ${mermaidId(edge.to)}`);
+  }
+  const synthetic = model.nodes.filter((n) => n.synthetic).map((n) => mermaidId(n.id));
+  if (synthetic.length) {
+    lines.push("  classDef synthetic fill:#fff4e0,stroke:#e8a33d,stroke-dasharray:5 5");
+    lines.push(`  class ${synthetic.join(",")} synthetic`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// ── Graphviz DOT ─────────────────────────────────────────────────────
+
+const DOT_SHAPES: Record<NodeKind, string> = {
+  router: "shape=diamond",
+  question: "shape=box, style=rounded",
+  ingest: "shape=box",
+  compute: "shape=hexagon",
+  integration: "shape=cylinder",
+  terminal: "shape=doublecircle",
+  subflow: "shape=box, peripheries=2",
+};
+
+const dotText = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+/** Graphviz DOT digraph for the graph, with the same edge labels and highlighting as the Mermaid output. */
+export function dslToDot(dsl: GraphDsl): string {
+  const model = buildModel(dsl);
+  const id = (nodeId: string) => dotText(nodeId === END ? "END" : nodeId);
+  const lines = [
+    `digraph ${dotText(dsl.graph.graphId)} {`,
+    "  rankdir=TB;",
+    '  node [fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+    '  "START" [shape=circle];',
+    '  "END" [shape=doublecircle];',
+  ];
+  for (const node of model.nodes) {
+    const highlight = node.synthetic ? ', style="dashed,filled", fillcolor="#fff4e0", color="#e8a33d"' : "";
+    lines.push(`  ${id(node.id)} [${DOT_SHAPES[node.kind]}${highlight}];`);
+  }
+  lines.push(`  "START" -> ${id(model.entrypoint)};`);
+  for (const edge of model.edges) {
+    const attrs = [edge.label ? `label=${dotText(edge.label)}` : null, edge.conditional ? "style=dashed" : null].filter(Boolean);
+    lines.push(`  ${id(edge.from)} -> ${id(edge.to)}${attrs.length ? ` [${attrs.join(", ")}]` : ""};`);
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderGraphDiagram(dsl: GraphDsl, format: DiagramFormat): string {
+  return format === "dot" ? dslToDot(dsl) : dslToMermaid(dsl);
+}
@@ -1,13 +1,37 @@
 import * as z from "zod";
+import { OverlayNameSchema } from "../state.js";
 
 // ── Config sub-schemas (per-graph conversation settings) ────────────
 
-export const ModelConfigSchema = z.object({
+export const LlmVendorSchema = z.enum(["openai", "openai-compatible", "anthropic", "azure"]);
+
+const ModelTargetFields = z.object({
+  provider: LlmVendorSchema.default("openai"),
   model: z.string().min(1),
   temperature: z.number().min(0).max(2).default(0.4),
   maxRetries: z.number().int().min(0).default(1),
+  baseUrl: z.string().url().optional(),
+  apiKeyEnv: z.string().min(1).optional(),
+  apiVersion: z.string().min(1).optional(),
+  deployment: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
 });
 
+const requireVendorOptions = (target: z.infer<typeof ModelTargetFields>, ctx: z.RefinementCtx) => {
+  if (target.provider === "openai-compatible" && !target.baseUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["baseUrl"], message: "openai-compatible models require baseUrl" });
+  }
+  if (target.provider === "azure" && !target.deployment) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["deployment"], message: "azure models require deployment" });
+  }
+};
+
+export const ModelTargetSchema = ModelTargetFields.superRefine(requireVendorOptions);
+
+export const ModelConfigSchema = ModelTargetFields.extend({
+  fallbacks: z.array(ModelTargetSchema).default([]),
+}).superRefine(requireVendorOptions);
+
 export const MessagePolicyEntrySchema = z.object({
   allowAIRephrase: z.boolean().default(false),
   forbidFirstPerson: z.boolean().default(false),
@@ -66,10 +90,66 @@ export const ProgressRulesSchema = z.object({
   useCaseSelectQuestionKey: z.string().default("S3_USE_CASE_SELECT"),
 });
 
+/**
+ * A flow-specific signal dimension scored by a registered agent
+ * (`registerSignalAgent`). `weight` is its share of
+ * overall_conversation_score next to the built-in weights (0 = tracked only);
+ * `actions` maps the agent's event types to suggested signal actions.
+ */
+export const CustomSignalAgentSchema = z.object({
+  agentRef: z.string().min(1),
+  weight: z.number().min(0).max(1).default(0),
+  actions: z
+    .record(z.string(), z.array(z.object({ type: z.string().min(1), priority: z.enum(["low", "medium", "high"]).default("medium") })))
+    .default({}),
+});
+
 export const SignalAgentConfigSchema = z.object({
   enabled: z.boolean().default(false),
   ttlMs: z.number().int().min(100).default(1000),
   llmEnabled: z.boolean().default(false),
+  /** Custom dimensions keyed by name, e.g. `urgency` or `budget_authority`. */
+  custom: z.record(z.string().regex(/^[a-z][a-z0-9_]*$/), CustomSignalAgentSchema).default({}),
+});
+
+/**
+ * What a turn does when the signal orchestrator has suggested an action type
+ * (`slow_down_pacing`, `increase_empathy`, `skip_optional_questions`).
+ * `maxRemainingQuestions` caps the questions left in the current
+ * questionnaire; `offerReadout` is the message offering an early readout.
+ */
+export const SignalBehaviorSchema = z.object({
+  minPriority: z.enum(["low", "medium", "high"]).default("low"),
+  overlay: OverlayNameSchema.optional(),
+  maxRemainingQuestions: z.number().int().min(1).optional(),
+  acknowledgeEmotion: z.enum(["positive", "neutral", "concerned"]).optional(),
+  offerReadout: z.string().min(1).optional(),
+});
+
+/**
+ * Routing `when` clause: predicate keys ANDed together. `all`/`any` take a
+ * list of clauses and `not` a single clause; the compiler checks keys and
+ * operator values against the predicate registry.
+ */
+export type WhenClause = {
+  [key: string]: boolean | string | number | WhenClause[] | { [field: string]: unknown };
+};
+
+export const WhenClauseSchema: z.ZodType<WhenClause> = z.lazy(() =>
+  z.record(
+    z.string(),
+    z.union([z.boolean(), z.string(), z.number(), z.array(WhenClauseSchema), z.record(z.string(), z.unknown())])
+  )
+);
+
+/**
+ * Sets `overlay_active` when `when` holds (same predicates as routing rules,
+ * e.g. `signal_lt`, `step_equals`, `state_path_gte`). Rules are checked at
+ * the start of every turn; the first match wins.
+ */
+export const OverlayRuleSchema = z.object({
+  when: WhenClauseSchema,
+  overlay: OverlayNameSchema,
 });
 
 export const GraphConfigSchema = z.object({
@@ -118,15 +198,15 @@ export const GraphConfigSchema = z.object({
     )
     .default({}),
   routingRules: z.record(z.string(), z.array(z.object({
-    when: z.record(z.string(), z.union([z.boolean(), z.string(), z.number(), z.object({
-      path: z.string(),
-      value: z.union([z.string(), z.number()]),
-    }).passthrough()])).optional(),
+    when: WhenClauseSchema.optional(),
     goto: z.string().optional(),
     default: z.string().optional(),
     awaitingDispatch: z.record(z.string(), z.string()).optional(),
   }))).default({}),
   signalAgents: SignalAgentConfigSchema.default({}),
+  overlayRules: z.array(OverlayRuleSchema).default([]),
+  /** Behaviours keyed by signal action type. */
+  signalPolicy: z.record(z.string(), SignalBehaviorSchema).default({}),
 });
 
 // ── Node / transition schemas ───────────────────────────────────────
@@ -138,6 +218,7 @@ export const NodeKindSchema = z.enum([
   "compute",
   "integration",
   "terminal",
+  "subflow",
 ]);
 
 // ── Generic node config schemas (YAML-driven handler generation) ────
@@ -229,6 +310,17 @@ export const VectorSelectNodeConfigSchema = z.object({
   runName: z.string().optional(),
 });
 
+/**
+ * Runs another flow YAML as a nested graph. Both mappings are `target: source`
+ * state paths: `inputs` seeds sub-flow paths from the parent before it runs,
+ * `outputs` copies sub-flow results back to parent paths afterwards.
+ */
+export const SubflowNodeConfigSchema = z.object({
+  flowRef: z.string().min(1),
+  inputs: z.record(z.string(), z.string()).default({}),
+  outputs: z.record(z.string(), z.string()).default({}),
+});
+
 export const NodeConfigSchema = z.object({
   question: QuestionNodeConfigSchema.optional(),
   greeting: GreetingNodeConfigSchema.optional(),
@@ -236,6 +328,7 @@ export const NodeConfigSchema = z.object({
   ingest: IngestNodeConfigSchema.optional(),
   aiCompute: AiComputeNodeConfigSchema.optional(),
   vectorSelect: VectorSelectNodeConfigSchema.optional(),
+  subflow: SubflowNodeConfigSchema.optional(),
 });
 
 export const NodeDefSchema = z.object({
@@ -252,6 +345,9 @@ export const NodeDefSchema = z.object({
 }).refine(
   (node) => node.handlerRef || node.nodeConfig,
   { message: "A node must have at least one of handlerRef or nodeConfig" },
+).refine(
+  (node) => (node.kind === "subflow") === Boolean(node.nodeConfig?.subflow),
+  { message: "A subflow node needs nodeConfig.subflow, and only subflow nodes may have it" },
 );
 
 export const StaticTransitionSchema = z.object({
@@ -278,8 +374,57 @@ export const RuntimeConfigRefsSchema = z.object({
 export const ValidationSchema = z.object({
   requiredStateFields: z.array(z.string()).default([]),
   invariants: z.array(z.string()).default([]),
+  /** Runtime check of node updates against declared (or inferred) `writes`. */
+  enforceWrites: z.enum(["off", "warn", "error"]).default("off"),
+});
+
+/**
+ * Upgrades sessions started on graph version `from` to `to`. Maps are
+ * `old: new`; state paths are dot paths whose value is moved.
+ */
+export const FlowMigrationSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  questionKeys: z.record(z.string(), z.string()).default({}),
+  statePaths: z.record(z.string(), z.string()).default({}),
+});
+
+/** A field of a declared state slice; without a `default` it is optional. */
+export const StateFieldSchema = z.object({
+  type: z.enum(["string", "number", "boolean", "array", "object", "any"]).default("any"),
+  nullable: z.boolean().default(false),
+  default: z.unknown().optional(),
 });
 
+/**
+ * How a state slice or field combines updates. `replace` is last-write-wins,
+ * `merge` shallow-merges objects, `deepMerge` merges nested objects too,
+ * `append` adds new items to a list and `upsert` replaces list items by `key`.
+ */
+export const ReducerStrategySchema = z.enum(["replace", "merge", "deepMerge", "append", "upsert"]);
+
+export const ReducerSpecSchema = z.union([
+  ReducerStrategySchema,
+  z.object({ reducer: ReducerStrategySchema, key: z.string().min(1).optional() }),
+]);
+
+/**
+ * A flow-declared top-level state slice with its reducer. List reducers
+ * (`append`, `upsert`) make the slice a list and `fields` then describe each
+ * item. A bare name declares an untyped replace slice.
+ */
+export const StateExtensionSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    reducer: ReducerStrategySchema.default("replace"),
+    key: z.string().min(1).optional(),
+    fields: z.record(z.string(), StateFieldSchema).default({}),
+    default: z.unknown().optional(),
+    description: z.string().optional(),
+  }),
+]);
+
 export const GraphDslSchema = z.object({
   schemaVersion: z.number().int().min(1),
   graph: z.object({
@@ -288,7 +433,9 @@ export const GraphDslSchema = z.object({
     description: z.string().optional(),
     entrypoint: z.string().min(1),
     tags: z.array(z.string()).default([]),
-    stateExtensions: z.array(z.string()).default([]),
+    stateExtensions: z.array(StateExtensionSchema).default([]),
+    /** Reducer overrides keyed by slice or dot path (`*` matches within a segment). */
+    reducers: z.record(z.string(), ReducerSpecSchema).default({}),
   }),
   stateContractRef: z.string().min(1),
   nodes: z.array(NodeDefSchema).min(1),
@@ -300,16 +447,23 @@ export const GraphDslSchema = z.object({
   runtimeConfigRefs: RuntimeConfigRefsSchema.default({}),
   config: GraphConfigSchema.default({}),
   validation: ValidationSchema.default({}),
+  migrations: z.array(FlowMigrationSchema).default([]),
 });
 
 export type GraphDsl = z.infer<typeof GraphDslSchema>;
 export type GraphConfig = z.infer<typeof GraphConfigSchema>;
+export type FlowMigration = z.infer<typeof FlowMigrationSchema>;
+export type StateExtension = z.infer<typeof StateExtensionSchema>;
+export type StateField = z.infer<typeof StateFieldSchema>;
+export type ReducerStrategy = z.infer<typeof ReducerStrategySchema>;
+export type SignalBehavior = z.infer<typeof SignalBehaviorSchema>;
 export type NodeDef = z.infer<typeof NodeDefSchema>;
 export type NodeKind = z.infer<typeof NodeKindSchema>;
 export type StaticTransition = z.infer<typeof StaticTransitionSchema>;
 export type ConditionalTransition = z.infer<typeof ConditionalTransitionSchema>;
 export type RuntimeConfigRefs = z.infer<typeof RuntimeConfigRefsSchema>;
 export type ModelConfig = z.infer<typeof ModelConfigSchema>;
+export type ModelTarget = z.infer<typeof ModelTargetSchema>;
 export type QuestionTemplate = z.infer<typeof QuestionTemplateSchema>;
 export type FlowStepMeta = z.infer<typeof FlowStepMetaSchema>;
 export type FlowMeta = z.infer<typeof FlowMetaSchema>;
@@ -325,3 +479,4 @@ export type PrefixConfig = z.infer<typeof PrefixConfigSchema>;
 export type AutoIngestConfig = z.infer<typeof AutoIngestConfigSchema>;
 export type AiComputeNodeConfig = z.infer<typeof AiComputeNodeConfigSchema>;
 export type VectorSelectNodeConfig = z.infer<typeof VectorSelectNodeConfigSchema>;
+export type SubflowNodeConfig = z.infer<typeof SubflowNodeConfigSchema>;
@@ -0,0 +1,325 @@
+import type { GraphDsl, NodeDef } from "./graph-dsl-types.js";
+
+/**
+ * Expand autoIngest configurations in the DSL. For each question node with
+ * autoIngest, generates a synthetic ingest node, routing rules, static
+ * transitions, and ingest field mappings. Returns a new DSL — does not mutate.
+ */
+export function expandAutoIngest(dsl: GraphDsl): GraphDsl {
+  const existingNodeIds = new Set(dsl.nodes.map((n) => n.id));
+  const existingIngestKeys = new Set<string>();
+  for (const node of dsl.nodes) {
+    if (node.kind === "ingest" && node.nodeConfig?.ingest) {
+      const questionKey = findQuestionKeyForIngest(dsl, node.id);
+      if (questionKey) existingIngestKeys.add(questionKey);
+    }
+  }
+
+  const newNodes: NodeDef[] = [];
+  const newStaticTransitions: GraphDsl["transitions"]["static"] = [];
+  const newRoutingRules: Record<string, GraphDsl["config"]["routingRules"][string]> = {};
+  const newIngestFieldMappings: Record<string, { targetField: string; sanitizeAs?: string; captureObjective?: boolean }> = {};
+
+  for (const node of dsl.nodes) {
+    const ai = node.nodeConfig?.question?.autoIngest;
+    if (!ai) continue;
+    const questionKey = node.nodeConfig!.question!.questionKey;
+
+    if (existingIngestKeys.has(questionKey)) continue;
+
+    const syntheticId = `${node.id}_ingest`;
+    if (existingNodeIds.has(syntheticId)) continue;
+
+    const ingestNode: NodeDef = {
+      id: syntheticId,
+      kind: "ingest",
+      handlerRef: undefined,
+      helperRefs: [],
+      reads: ["messages", "session_context"],
+      writes: ["user_context", "session_context"],
+      nodeConfig: {
+        ingest: ai.affirmativeCheck ? { affirmativeCheckConfig: ai.affirmativeCheck } : {},
+      },
+    };
+    newNodes.push(ingestNode);
+    existingNodeIds.add(syntheticId);
+
+    const transitionTarget = ai.then ?? "__end__";
+    newStaticTransitions.push({ from: syntheticId, to: transitionTarget });
+
+    const awaitingRule = {
+      when: { awaiting_user: true, last_question_key: questionKey },
+      goto: syntheticId,
+    };
+
+    const routerNodes = findRouterNodesForQuestion(dsl, node.id);
+    for (const routerFrom of routerNodes) {
+      if (!newRoutingRules[routerFrom]) {
+        newRoutingRules[routerFrom] = [];
+      }
+      newRoutingRules[routerFrom].push(awaitingRule);
+    }
+
+    newIngestFieldMappings[questionKey] = {
+      targetField: ai.saveTo,
+      ...(ai.sanitizeAs ? { sanitizeAs: ai.sanitizeAs } : {}),
+      ...(ai.captureObjective ? { captureObjective: ai.captureObjective } : {}),
+    };
+  }
+
+  if (newNodes.length === 0) return dsl;
+
+  const mergedRoutingRules = { ...(dsl.config?.routingRules ?? {}) };
+  for (const [routerFrom, rules] of Object.entries(newRoutingRules)) {
+    const existing = mergedRoutingRules[routerFrom] ?? [];
+    const existingGotos = new Set(existing.map((r) => r.goto).filter(Boolean));
+    const filtered = rules.filter((r) => !r.goto || !existingGotos.has(r.goto));
+    mergedRoutingRules[routerFrom] = [...filtered, ...existing];
+  }
+
+  const mergedIngestFieldMappings = {
+    ...(dsl.config?.ingestFieldMappings ?? {}),
+    ...newIngestFieldMappings,
+  };
+
+  const mergedConditional = dsl.transitions.conditional.map((ct) => {
+    const autoRules = newRoutingRules[ct.from];
+    if (!autoRules) return ct;
+    const hadDests = ct.destinations && Object.keys(ct.destinations).length > 0;
+    const newDests = hadDests ? { ...ct.destinations! } : undefined;
+    if (hadDests) {
+      for (const rule of autoRules) {
+        if (rule.goto && !newDests![rule.goto]) {
+          const targetNode = rule.goto;
+          if (existingNodeIds.has(targetNode) || targetNode === "__end__") {
+            newDests![targetNode] = targetNode === "__end__" ? "__end__" : targetNode;
+          }
+        }
+      }
+      return { ...ct, destinations: newDests };
+    }
+    return ct;
+  });
+
+  return {
+    ...dsl,
+    nodes: [...dsl.nodes, ...newNodes],
+    transitions: {
+      static: [...dsl.transitions.static, ...newStaticTransitions],
+      conditional: mergedConditional,
+    },
+    config: {
+      ...dsl.config,
+      routingRules: mergedRoutingRules,
+      ingestFieldMappings: mergedIngestFieldMappings,
+    },
+  } as GraphDsl;
+}
+
+function findQuestionKeyForIngest(dsl: GraphDsl, ingestNodeId: string): string | null {
+  const routingRules = dsl.config?.routingRules ?? {};
+  for (const rules of Object.values(routingRules)) {
+    for (const rule of rules) {
+      if (rule.goto === ingestNodeId && rule.when?.last_question_key) {
+        return rule.when.last_question_key as string;
+      }
+    }
+  }
+  return null;
+}
+
+function findRouterNodesForQuestion(dsl: GraphDsl, questionNodeId: string): string[] {
+  const routers: string[] = [];
+  for (const ct of dsl.transitions.conditional) {
+    const destinations = Object.values(ct.destinations ?? {});
+    if (destinations.includes(questionNodeId)) {
+      routers.push(ct.from);
+    }
+  }
+  if (routers.length === 0) {
+    for (const ct of dsl.transitions.conditional) {
+      routers.push(ct.from);
+    }
+  }
+  return [...new Set(routers)];
+}
+
+type RoutingRuleEntry = NonNullable<GraphDsl["config"]>["routingRules"][string][number];
+
+/**
+ * Expands awaitingDispatch shorthand into explicit when/goto rules.
+ * Each awaitingDispatch entry becomes { when: { awaiting_user: true, last_question_key: KEY }, goto: TARGET }.
+ * Skips keys already present in existing when clauses. Inserts expanded rules before the default rule.
+ */
+export function expandAwaitingDispatch(dsl: GraphDsl): GraphDsl {
+  const routingRules = dsl.config?.routingRules ?? {};
+  const expanded: typeof routingRules = {};
+
+  for (const [routerFrom, rules] of Object.entries(routingRules)) {
+    const existingKeys = new Set<string>();
+    for (const r of rules) {
+      if (r.when?.last_question_key) {
+        existingKeys.add(String(r.when.last_question_key));
+      }
+    }
+
+    const newRules: RoutingRuleEntry[] = [];
+    for (const r of rules) {
+      const ad = (r as RoutingRuleEntry & { awaitingDispatch?: Record<string, string> }).awaitingDispatch;
+      if (ad) {
+        for (const [key, target] of Object.entries(ad)) {
+          if (existingKeys.has(key)) continue;
+          newRules.push({
+            when: { awaiting_user: true, last_question_key: key },
+            goto: target,
+          });
+          existingKeys.add(key);
+        }
+        continue;
+      }
+      newRules.push(r);
+    }
+
+    expanded[routerFrom] = newRules;
+  }
+
+  if (Object.keys(expanded).length === 0) return dsl;
+  return {
+    ...dsl,
+    config: {
+      ...dsl.config,
+      routingRules: expanded,
+    },
+  } as GraphDsl;
+}
+
+/**
+ * Auto-generates destinations for conditional transitions when missing.
+ * Derives from routing rules: union of rule.goto, rule.default, plus { end: "__end__" }.
+ * Throws if destinations is missing and no routingRules exist for the from node.
+ */
+export function expandDestinations(dsl: GraphDsl): GraphDsl {
+  const nodeIds = new Set(dsl.nodes.map((n) => n.id));
+  const routingRules = dsl.config?.routingRules ?? {};
+
+  const conditional = dsl.transitions.conditional.map((ct) => {
+    if (ct.destinations && Object.keys(ct.destinations).length > 0) {
+      return ct;
+    }
+    const rules = routingRules[ct.from];
+    if (!rules || rules.length === 0) {
+      throw new Error(
+        `Conditional transition for node "${ct.from}" has no destinations and no routing rules to derive them from.`
+      );
+    }
+    const dests: Record<string, string> = { end: "__end__" };
+    const toEnd = (v: string) => (v === "__end__" || v === "end" ? "__end__" : v);
+    for (const r of rules) {
+      if (r.goto) dests[r.goto] = toEnd(r.goto);
+      if (r.default) dests[r.default] = toEnd(r.default);
+    }
+    for (const [k, v] of Object.entries(dests)) {
+      if (v !== "__end__" && !nodeIds.has(v)) delete dests[k];
+    }
+    return { ...ct, destinations: dests };
+  });
+
+  return {
+    ...dsl,
+    transitions: {
+      ...dsl.transitions,
+      conditional,
+    },
+  } as GraphDsl;
+}
+
+/**
+ * Adds default static transitions for nodes that don't have one.
+ * Nodes of kind question, ingest, compute, or integration that don't appear as from
+ * in any static transition get { from: nodeId, to: "__end__" }.
+ * Router and terminal nodes are skipped.
+ */
+export function expandDefaultTransitions(dsl: GraphDsl): GraphDsl {
+  const staticFrom = new Set(dsl.transitions.static.map((s) => s.from));
+  const nodeKindMap = new Map(dsl.nodes.map((n) => [n.id, n.kind]));
+  const skipKinds = new Set(["router", "terminal"]);
+
+  const add: Array<{ from: string; to: string }> = [];
+  for (const node of dsl.nodes) {
+    if (skipKinds.has(node.kind)) continue;
+    if (staticFrom.has(node.id)) continue;
+    const kind = node.kind as string;
+    if (["question", "ingest", "compute", "integration"].includes(kind)) {
+      add.push({ from: node.id, to: "__end__" });
+    }
+  }
+
+  if (add.length === 0) return dsl;
+  return {
+    ...dsl,
+    transitions: {
+      ...dsl.transitions,
+      static: [...dsl.transitions.static, ...add],
+    },
+  } as GraphDsl;
+}
+
+/**
+ * Infer reads/writes from a node's kind and nodeConfig when not explicitly provided.
+ * Returns { reads, writes } arrays. If the node has explicit reads/writes, returns those.
+ */
+export function inferReadsWrites(node: NodeDef): { reads: string[]; writes: string[] } {
+  if ((node.reads && node.reads.length > 0) || (node.writes && node.writes.length > 0)) {
+    return { reads: node.reads ?? [], writes: node.writes ?? [] };
+  }
+
+  if (node.kind === "router") {
+    return { reads: ["session_context"], writes: [] };
+  }
+
+  const nc = node.nodeConfig;
+  if (!nc) return { reads: [], writes: [] };
+
+  if (nc.question) {
+    return { reads: ["session_context"], writes: ["messages", "session_context"] };
+  }
+  if (nc.greeting) {
+    return { reads: [], writes: ["messages", "session_context"] };
+  }
+  if (nc.ingest) {
+    return { reads: ["messages", "session_context"], writes: ["user_context", "session_context"] };
+  }
+  if (nc.display) {
+    const rootSlice = nc.display.statePath.split(".")[0];
+    return { reads: [rootSlice], writes: ["messages"] };
+  }
+  if (nc.aiCompute) {
+    const outputRoot = nc.aiCompute.outputPath.split(".")[0];
+    const inputRoots = Object.values(nc.aiCompute.inputOverrides ?? {}).map((p) => p.split(".")[0]);
+    return { reads: [...new Set(inputRoots)], writes: [outputRoot, "session_context"] };
+  }
+  if (nc.vectorSelect) {
+    const outputRoot = nc.vectorSelect.outputPath.split(".")[0];
+    return { reads: ["session_context"], writes: [outputRoot, "session_context"] };
+  }
+  if (nc.subflow) {
+    const roots = (paths: string[]) => paths.map((p) => p.split(".")[0]);
+    return {
+      reads: [...new Set(["messages", "session_context", ...roots(Object.values(nc.subflow.inputs))])],
+      writes: [...new Set(["messages", "session_context", ...roots(Object.keys(nc.subflow.outputs))])],
+    };
+  }
+
+  return { reads: [], writes: [] };
+}
+
+/** Applies the DSL expansions for the graph's schemaVersion, yielding what the compiler validates and builds. */
+export function expandGraphDsl(inputDsl: GraphDsl): GraphDsl {
+  let dsl = expandAutoIngest(inputDsl);
+  if (inputDsl.schemaVersion >= 2) {
+    dsl = expandAwaitingDispatch(dsl);
+    dsl = expandDestinations(dsl);
+    dsl = expandDefaultTransitions(dsl);
+  }
+  return dsl;
+}
@@ -1,4 +1,5 @@
 import { registerCfsHandlers } from "./cfs-handlers.js";
+import { withGraphRegistry } from "./handler-registry.js";
 
 export type HandlerRegistrationFn = () => void;
 
@@ -8,7 +9,8 @@ handlerModules.set("cfs", registerCfsHandlers);
 
 /**
  * Register handlers for a graph by graphId.
- * Looks up the handler module in the static registry and calls it.
+ * Looks up the handler module in the static registry and calls it inside the
+ * graph's registry scope, so its refs are only visible to that graph.
  * @throws Error if no handler module is registered for the graphId
  */
 export function registerHandlersForGraph(graphId: string): void {
@@ -16,7 +18,7 @@ export function registerHandlersForGraph(graphId: string): void {
   if (!fn) {
     throw new Error(`No handler module registered for graphId: ${graphId}`);
   }
-  fn();
+  withGraphRegistry(graphId, fn);
 }
 
 /**
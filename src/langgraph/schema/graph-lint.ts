@@ -0,0 +1,127 @@
+import { ZodError } from "zod";
+import type { GraphDsl, NodeDef } from "./graph-dsl-types.js";
+import { loadGraphDsl } from "./graph-loader.js";
+import {
+  expandGraphDsl,
+  preflightReferenceValidation,
+  preflightRoutingValidation,
+  type PreflightWarning,
+} from "./graph-compiler.js";
+import { registerHandlersForGraph } from "./graph-handler-modules.js";
+import { withGraphRegistry } from "./handler-registry.js";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintIssue = { severity: LintSeverity; code: string; message: string };
+
+/** Machine-readable result for one flow file. `ok` is false when any error was found. */
+export type FlowLintReport = {
+  file: string;
+  graphId: string | null;
+  ok: boolean;
+  errorCount: number;
+  warningCount: number;
+  issues: LintIssue[];
+};
+
+/** Every config string key a node's nodeConfig renders. */
+function stringKeysOf(node: NodeDef): string[] {
+  const cfg = node.nodeConfig;
+  if (!cfg) return [];
+  const checks = [cfg.question?.autoIngest?.affirmativeCheck, cfg.ingest?.affirmativeCheckConfig];
+  return [
+    cfg.question?.stringKey,
+    ...(cfg.question?.stringKeys ?? []),
+    ...(cfg.greeting?.stringKeys ?? []),
+    ...checks.flatMap((c) => [c?.rejectStringKey, c?.acceptStringKey, c?.acceptQuestionConfig?.stringKey]),
+  ].filter((key): key is string => Boolean(key));
+}
+
+/** String and prompt keys referenced by nodeConfig must exist in the graph's inline config. */
+export function configReferenceValidation(dsl: GraphDsl): PreflightWarning[] {
+  const strings = dsl.config?.strings ?? {};
+  const prompts = dsl.config?.aiPrompts ?? {};
+  const errors: PreflightWarning[] = [];
+  for (const node of dsl.nodes) {
+    for (const key of new Set(stringKeysOf(node))) {
+      if (!(key in strings)) {
+        errors.push({
+          code: "unknown-string-key",
+          message: `Node "${node.id}" references stringKey "${key}" which is not defined in config.strings.`,
+        });
+      }
+    }
+    const promptKey = node.nodeConfig?.aiCompute?.systemPromptKey;
+    if (promptKey && !(promptKey in prompts)) {
+      errors.push({
+        code: "missing-ai-prompt",
+        message: `Node "${node.id}" references systemPromptKey "${promptKey}" which is not defined in config.aiPrompts.`,
+      });
+    }
+  }
+  return errors;
+}
+
+const withSeverity = (severity: LintSeverity) => (w: PreflightWarning): LintIssue => ({ severity, ...w });
+
+/** Remove issues repeated because expansion copies config onto generated nodes. */
+function dedupe(issues: LintIssue[]): LintIssue[] {
+  const seen = new Set<string>();
+  return issues.filter((i) => !seen.has(i.message) && Boolean(seen.add(i.message)));
+}
+
+/**
+ * Runs every compiler preflight check on a validated DSL without compiling it.
+ * Refs resolve against the graph's registry scope, so its handler module must
+ * already be registered.
+ */
+export function lintGraphDsl(inputDsl: GraphDsl): LintIssue[] {
+  const dsl = expandGraphDsl(inputDsl);
+  return withGraphRegistry(dsl.graph.graphId, () =>
+    dedupe([
+      ...preflightReferenceValidation(dsl).map(withSeverity("error")),
+      ...configReferenceValidation(dsl).map(withSeverity("error")),
+      ...preflightRoutingValidation(dsl).map(withSeverity("warning")),
+    ])
+  );
+}
+
+function loadIssues(err: unknown): LintIssue[] {
+  if (err instanceof ZodError) {
+    return err.issues.map((i) => ({
+      severity: "error",
+      code: "invalid-schema",
+      message: `${i.path.join(".") || "(root)"}: ${i.message}`,
+    }));
+  }
+  return [{ severity: "error", code: "load-error", message: err instanceof Error ? err.message : String(err) }];
+}
+
+function report(file: string, graphId: string | null, issues: LintIssue[]): FlowLintReport {
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+  return { file, graphId, ok: errorCount === 0, errorCount, warningCount: issues.length - errorCount, issues };
+}
+
+/**
+ * Loads a flow YAML (resolving `$ref`s), registers its graph's handler module
+ * and lints it. Load and schema failures are reported as issues, not thrown.
+ */
+export function lintFlowFile(filePath: string): FlowLintReport {
+  let dsl: GraphDsl;
+  try {
+    dsl = loadGraphDsl(filePath);
+  } catch (err) {
+    return report(filePath, null, loadIssues(err));
+  }
+
+  const graphId = dsl.graph.graphId;
+  try {
+    registerHandlersForGraph(graphId);
+  } catch (err) {
+    return report(filePath, graphId, [
+      { severity: "error", code: "no-handler-module", message: (err as Error).message },
+      ...lintGraphDsl(dsl),
+    ]);
+  }
+  return report(filePath, graphId, lintGraphDsl(dsl));
+}
@@ -48,6 +48,7 @@ function resolveFileRefs(
   basePath: string,
   visited: Set<string> = new Set(),
   depth = 0,
+  sources?: Set<string>,
 ): unknown {
   if (depth > MAX_FILE_REF_DEPTH) return obj;
 
@@ -60,22 +61,23 @@ function resolveFileRefs(
       throw new Error(`Circular $ref reference detected: ${Array.from(visited).join(" -> ")} -> ${resolvedPath}`);
     }
     visited.add(resolvedPath);
+    sources?.add(resolvedPath);
     try {
       const resolved = resolveFileRef(ref, basePath, depth);
-      return resolveFileRefs(resolved, dirname(resolvedPath), visited, depth + 1);
+      return resolveFileRefs(resolved, dirname(resolvedPath), visited, depth + 1, sources);
     } finally {
       visited.delete(resolvedPath);
     }
   }
 
   if (Array.isArray(obj)) {
-    return obj.map((item) => resolveFileRefs(item, basePath, visited, depth));
+    return obj.map((item) => resolveFileRefs(item, basePath, visited, depth, sources));
   }
 
   if (obj != null && typeof obj === "object") {
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
-      result[key] = resolveFileRefs(value, basePath, visited, depth);
+      result[key] = resolveFileRefs(value, basePath, visited, depth, sources);
     }
     return result;
   }
@@ -85,14 +87,27 @@ function resolveFileRefs(
 
 /**
  * Parses and validates a YAML file against the GraphDSL v1 Zod schema.
- * Resolves $ref references (with optional #fragment) before validation.
- * Returns the validated DSL object without compiling.
+ * Resolves $ref references (with optional #fragment) before validation and
+ * subflow flowRefs after it.
+ * Returns the validated DSL object without compiling. When `sources` is given,
+ * the flow file and every `$ref` target read are added to it, even if
+ * validation then fails.
  */
-export function loadGraphDsl(filePath: string): GraphDsl {
+export function loadGraphDsl(filePath: string, sources?: Set<string>): GraphDsl {
+  sources?.add(resolve(filePath));
   const raw = readFileSync(filePath, "utf-8");
   const parsed = parseYaml(raw);
-  const resolved = resolveFileRefs(parsed, dirname(filePath));
-  return GraphDslSchema.parse(resolved);
+  const resolved = resolveFileRefs(parsed, dirname(filePath), new Set(), 0, sources);
+  return resolveSubflowRefs(GraphDslSchema.parse(resolved), dirname(filePath));
+}
+
+/** Subflow `flowRef`s are relative to the flow declaring them; make them absolute. */
+function resolveSubflowRefs(dsl: GraphDsl, basePath: string): GraphDsl {
+  for (const node of dsl.nodes) {
+    const subflow = node.nodeConfig?.subflow;
+    if (subflow) subflow.flowRef = resolve(basePath, subflow.flowRef);
+  }
+  return dsl;
 }
 
 /**
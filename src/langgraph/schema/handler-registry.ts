@@ -1,4 +1,7 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import type { CfsState } from "../state.js";
+import { isBuiltinPredicate, type WhenPredicate } from "../core/routing/condition-predicates.js";
+import type { CustomSignalAgent } from "../core/agents/signal-types.js";
 
 type NodeHandler =
   | ((state: CfsState) => Partial<CfsState>)
@@ -8,70 +11,159 @@ type ConfigInitFn = () => void;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type ConfigFn = (...args: any[]) => any;
 
-const handlers = new Map<string, NodeHandler>();
-const routers = new Map<string, RouterFn>();
-const configs = new Map<string, ConfigInitFn>();
-const configFns = new Map<string, ConfigFn>();
+type Registry = {
+  handlers: Map<string, NodeHandler>;
+  routers: Map<string, RouterFn>;
+  configs: Map<string, ConfigInitFn>;
+  configFns: Map<string, ConfigFn>;
+  predicates: Map<string, WhenPredicate>;
+  signalAgents: Map<string, CustomSignalAgent>;
+};
+
+const createRegistry = (): Registry => ({
+  handlers: new Map(),
+  routers: new Map(),
+  configs: new Map(),
+  configFns: new Map(),
+  predicates: new Map(),
+  signalAgents: new Map(),
+});
+
+/** Registrations made outside any graph scope; visible to every graph. */
+const globalRegistry = createRegistry();
+const graphRegistries = new Map<string, Registry>();
+const scope = new AsyncLocalStorage<Registry>();
+
+/**
+ * Run `fn` with registrations and lookups scoped to `graphId`. Registrations
+ * land in that graph's registry; lookups check it before the global one, so
+ * two flows can register the same ref without clobbering each other.
+ */
+export function withGraphRegistry<T>(graphId: string, fn: () => T): T {
+  let registry = graphRegistries.get(graphId);
+  if (!registry) {
+    registry = createRegistry();
+    graphRegistries.set(graphId, registry);
+  }
+  return scope.run(registry, fn);
+}
+
+function current(): Registry {
+  return scope.getStore() ?? globalRegistry;
+}
+
+function lookup<K extends keyof Registry>(kind: K, ref: string) {
+  return (current()[kind].get(ref) ?? globalRegistry[kind].get(ref)) as ReturnType<Registry[K]["get"]>;
+}
+
+/** Ids visible in the current scope; outside any scope, every id registered by any graph. */
+function ids(kind: keyof Registry): string[] {
+  const scoped = scope.getStore();
+  const registries = scoped ? [scoped, globalRegistry] : [globalRegistry, ...graphRegistries.values()];
+  return [...new Set(registries.flatMap((r) => [...r[kind].keys()]))];
+}
 
 export function registerHandler(ref: string, fn: NodeHandler): void {
-  handlers.set(ref, fn);
+  current().handlers.set(ref, fn);
 }
 
 export function registerRouter(ref: string, fn: RouterFn): void {
-  routers.set(ref, fn);
+  current().routers.set(ref, fn);
 }
 
 export function registerConfig(ref: string, fn: ConfigInitFn): void {
-  configs.set(ref, fn);
+  current().configs.set(ref, fn);
 }
 
 export function resolveHandler(ref: string): NodeHandler {
-  const fn = handlers.get(ref);
+  const fn = lookup("handlers", ref);
   if (!fn) throw new Error(`Handler not registered: "${ref}". Call the appropriate registration function first.`);
   return fn;
 }
 
 export function resolveRouter(ref: string): RouterFn {
-  const fn = routers.get(ref);
+  const fn = lookup("routers", ref);
   if (!fn) throw new Error(`Router not registered: "${ref}". Call the appropriate registration function first.`);
   return fn;
 }
 
 export function resolveConfig(ref: string): ConfigInitFn {
-  const fn = configs.get(ref);
+  const fn = lookup("configs", ref);
   if (!fn) throw new Error(`Config not registered: "${ref}". Call the appropriate registration function first.`);
   return fn;
 }
 
 export function getRegisteredHandlerIds(): string[] {
-  return [...handlers.keys()];
+  return ids("handlers");
 }
 
 export function getRegisteredRouterIds(): string[] {
-  return [...routers.keys()];
+  return ids("routers");
 }
 
 export function getRegisteredConfigIds(): string[] {
-  return [...configs.keys()];
+  return ids("configs");
 }
 
 export function registerConfigFn(ref: string, fn: ConfigFn): void {
-  configFns.set(ref, fn);
+  current().configFns.set(ref, fn);
 }
 
 export function resolveConfigFn(ref: string): ConfigFn {
-  const fn = configFns.get(ref);
+  const fn = lookup("configFns", ref);
   if (!fn) throw new Error(`ConfigFn not registered: "${ref}". Call registerConfigFn first.`);
   return fn;
 }
 
 export function getRegisteredConfigFnIds(): string[] {
-  return [...configFns.keys()];
+  return ids("configFns");
+}
+
+/**
+ * Register a custom routing `when` predicate, e.g. `registerPredicate("has_budget", (s, v) => ...)`
+ * lets rules use `when: { has_budget: true }`. Built-in predicate names are reserved.
+ */
+export function registerPredicate(name: string, fn: WhenPredicate): void {
+  if (isBuiltinPredicate(name)) throw new Error(`Predicate "${name}" is built in and cannot be re-registered.`);
+  current().predicates.set(name, fn);
+}
+
+export function resolvePredicate(name: string): WhenPredicate {
+  const fn = lookup("predicates", name);
+  if (!fn) throw new Error(`Predicate not registered: "${name}". Call registerPredicate first.`);
+  return fn;
+}
+
+export function getRegisteredPredicateIds(): string[] {
+  return ids("predicates");
+}
+
+/**
+ * Register a custom signal agent, referenced from `config.signalAgents.custom.<dimension>.agentRef`
+ * to score a new dimension (e.g. "urgency") on every user message.
+ */
+export function registerSignalAgent(ref: string, agent: CustomSignalAgent): void {
+  current().signalAgents.set(ref, agent);
+}
+
+export function resolveSignalAgent(ref: string): CustomSignalAgent {
+  const agent = lookup("signalAgents", ref);
+  if (!agent) throw new Error(`Signal agent not registered: "${ref}". Call registerSignalAgent first.`);
+  return agent;
+}
+
+export function getRegisteredSignalAgentIds(): string[] {
+  return ids("signalAgents");
 }
 
 export function clearRegistry(): void {
-  handlers.clear();
-  routers.clear();
-  configs.clear();
-  configFns.clear();
+  for (const registry of [globalRegistry, ...graphRegistries.values()]) {
+    registry.handlers.clear();
+    registry.routers.clear();
+    registry.configs.clear();
+    registry.configFns.clear();
+    registry.predicates.clear();
+    registry.signalAgents.clear();
+  }
+  graphRegistries.clear();
 }
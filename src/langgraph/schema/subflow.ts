@@ -0,0 +1,69 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { CfsState } from "../state.js";
+import type { GraphDsl, SubflowNodeConfig } from "./graph-dsl-types.js";
+import type { CompiledGraph } from "./graph-compiler.js";
+import { loadGraphDsl } from "./graph-loader.js";
+import { registerHandlersForGraph } from "./graph-handler-modules.js";
+import { runWithGraphContext } from "../core/config/graph-context.js";
+import { buildNestedPatch, getByPath } from "../core/helpers/path.js";
+
+/** Flow files currently being validated or compiled, outermost first. */
+const activeFlowRefs: string[] = [];
+
+/**
+ * Runs `fn` while `flowRef` is being expanded, so a sub-flow that
+ * (transitively) includes itself fails instead of recursing forever.
+ */
+export function withSubflowGuard<T>(flowRef: string, fn: () => T): T {
+  if (activeFlowRefs.includes(flowRef)) {
+    throw new Error(`Subflow cycle: ${[...activeFlowRefs, flowRef].join(" -> ")}`);
+  }
+  activeFlowRefs.push(flowRef);
+  try {
+    return fn();
+  } finally {
+    activeFlowRefs.pop();
+  }
+}
+
+/**
+ * Loads a sub-flow's DSL and registers its handler module when its nodes use
+ * handlerRefs (YAML-only sub-flows need none).
+ */
+export function loadSubflowDsl(config: SubflowNodeConfig): GraphDsl {
+  const dsl = loadGraphDsl(config.flowRef);
+  if (dsl.nodes.some((n) => n.handlerRef)) registerHandlersForGraph(dsl.graph.graphId);
+  return dsl;
+}
+
+/** Copy of `target` with each `targetPath: sourcePath` of `mapping` read from `source`. Slices on the path are copied, not mutated. */
+export function mapStatePaths(target: CfsState, source: CfsState, mapping: Record<string, string>): CfsState {
+  let result = target;
+  for (const [targetPath, sourcePath] of Object.entries(mapping)) {
+    result = { ...result, ...buildNestedPatch(result, targetPath, getByPath(source, sourcePath)) };
+  }
+  return result;
+}
+
+/**
+ * Node handler that runs a compiled sub-flow as a nested graph: inputs are
+ * mapped in, the child runs under its own graph context (strings, prompts,
+ * models) with the parent's run config, and outputs are mapped back. The
+ * update is the child's `messages` and `session_context` plus the mapped
+ * output paths, the writes `inferReadsWrites` declares; anything else the
+ * child changed stays inside it.
+ */
+export function createSubflowHandler(child: CompiledGraph, config: SubflowNodeConfig) {
+  return async (state: CfsState, runConfig?: RunnableConfig): Promise<Partial<CfsState>> => {
+    const input = mapStatePaths(state, state, config.inputs);
+    const run = () => child.compiled.invoke(input, runConfig) as Promise<CfsState>;
+    const result = child.context ? await runWithGraphContext(child.context, run) : await run();
+    const output = mapStatePaths(state, result, config.outputs);
+    const outputSlices = Object.keys(config.outputs).map((p) => p.split(".")[0]);
+    return {
+      ...Object.fromEntries(outputSlices.map((slice) => [slice, (output as Record<string, unknown>)[slice]])),
+      messages: result.messages,
+      session_context: result.session_context,
+    } as Partial<CfsState>;
+  };
+}
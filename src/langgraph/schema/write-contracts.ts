@@ -0,0 +1,91 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { CfsState } from "../state.js";
+import type { GraphDsl } from "./graph-dsl-types.js";
+import { expandGraphDsl, inferReadsWrites } from "./graph-expansions.js";
+
+/** `off` skips the check; `warn` logs violations; `error` fails the node. */
+export type WriteContractMode = "off" | "warn" | "error";
+
+// ── Runtime check ────────────────────────────────────────────────────
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  v != null && typeof v === "object" && !Array.isArray(v) && [Object.prototype, null].includes(Object.getPrototypeOf(v));
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** Dot paths whose values differ; plain objects are compared key by key, everything else whole. */
+function changedPaths(before: unknown, after: unknown, path: string): string[] {
+  const objects = [before, after].every((v) => v == null || isPlainObject(v)) && (isPlainObject(before) || isPlainObject(after));
+  if (!objects) return sameValue(before, after) ? [] : [path];
+  const b = (before ?? {}) as Record<string, unknown>;
+  const a = (after ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(b), ...Object.keys(a)]);
+  return [...keys].flatMap((key) => changedPaths(b[key], a[key], `${path}.${key}`));
+}
+
+const covers = (write: string, path: string) => path === write || path.startsWith(`${write}.`);
+
+/**
+ * State paths an update changes that none of `writes` covers. A declared
+ * slice covers everything under it; a declared path covers its subtree.
+ * Returned slices equal to the current state are not writes.
+ */
+export function undeclaredWrites(state: CfsState, update: Partial<CfsState>, writes: string[]): string[] {
+  return Object.keys(update)
+    .flatMap((slice) => changedPaths((state as Record<string, unknown>)[slice], (update as Record<string, unknown>)[slice], slice))
+    .filter((path) => !writes.some((write) => covers(write, path)));
+}
+
+type Handler = (state: CfsState, config?: RunnableConfig) => Partial<CfsState> | Promise<Partial<CfsState>>;
+
+/** Wraps a node handler so its updates are checked against the node's declared (or inferred) writes. */
+export function enforceWriteContract(nodeId: string, writes: string[], handler: Handler, mode: WriteContractMode): Handler {
+  if (mode === "off") return handler;
+  return async (state, config) => {
+    const update = await handler(state, config);
+    if (!isPlainObject(update)) return update;
+    const paths = undeclaredWrites(state, update, writes);
+    if (paths.length > 0) {
+      const message =
+        `[write-contract] Node "${nodeId}" wrote undeclared state path(s) ${paths.join(", ")}; ` +
+        `declared writes: ${writes.length > 0 ? writes.join(", ") : "(none)"}.`;
+      if (mode === "error") throw new Error(message);
+      console.warn(message);
+    }
+    return update;
+  };
+}
+
+// ── Static report ────────────────────────────────────────────────────
+
+export type SliceWriter = { nodeId: string; paths: string[]; inferred: boolean };
+
+export type WriteOwnershipReport = {
+  graphId: string;
+  /** Every top-level slice and the nodes declaring (or inferred to make) writes to it. */
+  slices: Record<string, SliceWriter[]>;
+  /** Non-router nodes with no declared or inferred writes; strict mode flags any write they make. */
+  undeclared: string[];
+};
+
+/** Which nodes of the expanded graph write each state slice. */
+export function writeOwnershipReport(inputDsl: GraphDsl): WriteOwnershipReport {
+  const dsl = expandGraphDsl(inputDsl);
+  const slices: Record<string, SliceWriter[]> = {};
+  const undeclared: string[] = [];
+  for (const node of dsl.nodes) {
+    const { writes } = inferReadsWrites(node);
+    if (writes.length === 0 && node.kind !== "router") undeclared.push(node.id);
+    const inferred = (node.writes ?? []).length === 0;
+    const bySlice = new Map<string, string[]>();
+    for (const path of writes) {
+      const slice = path.split(".")[0];
+      bySlice.set(slice, [...(bySlice.get(slice) ?? []), path]);
+    }
+    for (const [slice, paths] of bySlice) {
+      (slices[slice] ??= []).push({ nodeId: node.id, paths, inferred });
+    }
+  }
+  const sorted = Object.fromEntries(Object.entries(slices).sort(([a], [b]) => a.localeCompare(b)));
+  return { graphId: dsl.graph.graphId, slices: sorted, undeclared };
+}
@@ -7,3 +7,4 @@ export { RelationshipContextSchema } from "./relationship-context.js";
 export { InternetSearchContextSchema } from "./internet-search-context.js";
 export { ContextWeaveIndexSchema } from "./context-weave-index.js";
 export { PrimitiveLogSchema } from "./primitive-log.js";
+export { LlmUsageEntrySchema, type LlmUsageEntry } from "./llm-usage.js";
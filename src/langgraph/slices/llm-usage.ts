@@ -0,0 +1,16 @@
+import * as z from "zod";
+
+/** One model invocation: who called it, what it cost and how long it took. */
+export const LlmUsageEntrySchema = z.object({
+  run_name: z.string(),
+  node: z.string().nullable().default(null),
+  model: z.string(),
+  prompt_tokens: z.number().int().min(0).default(0),
+  completion_tokens: z.number().int().min(0).default(0),
+  total_tokens: z.number().int().min(0).default(0),
+  latency_ms: z.number().min(0),
+  cost_usd: z.number().min(0).default(0),
+  timestamp: z.number(),
+});
+
+export type LlmUsageEntry = z.infer<typeof LlmUsageEntrySchema>;
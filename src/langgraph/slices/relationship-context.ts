@@ -7,9 +7,13 @@ export const RelationshipContextSchema = z.object({
   trust_score: z.number().min(0).max(1).default(0.5),
   intent_score: z.number().min(0).max(1).default(0.5),
   overall_conversation_score: z.number().min(0).max(1).default(0.5),
+  /** Smoothed scores of the flow's custom signal dimensions (config.signalAgents.custom). */
+  custom_scores: z.record(z.string(), z.number().min(0).max(1)).default({}),
   turn_count: z.number().int().min(0).default(0),
   signal_history: z.array(z.any()).default([]),
   signal_events: z.array(SignalEventSchema).default([]),
   signal_actions: z.array(SignalActionSchema).default([]),
   last_signal_timestamp: z.number().nullable().default(null),
+  /** Timestamp of the newest signal action the flow's signalPolicy has handled. */
+  signal_actions_applied_at: z.number().nullable().default(null),
 });
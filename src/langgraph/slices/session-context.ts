@@ -1,10 +1,13 @@
 import * as z from "zod";
 import { PrimitiveLogSchema } from "./primitive-log.js";
+import { LlmUsageEntrySchema } from "./llm-usage.js";
 
 export const SessionContextSchema = z.object({
   session_id: z.string(),
   tenant_id: z.string().nullable().default(null),
   graph_id: z.string().default("cfs"),
+  /** graph.version the session was started on (or last migrated to); null for sessions older than versioning. */
+  graph_version: z.string().nullable().default(null),
   step: z.string().default("STEP1_KNOW_YOUR_CUSTOMER"),
   step_question_index: z.number().int().min(0).default(0),
   step_clarifier_used: z.boolean().default(false),
@@ -13,6 +16,7 @@ export const SessionContextSchema = z.object({
   started: z.boolean().default(false),
   primitive_counter: z.number().int().min(0).default(0),
   primitive_log: z.array(PrimitiveLogSchema).default([]),
+  llm_usage_log: z.array(LlmUsageEntrySchema).default([]),
   summary_log: z.array(z.string()).default([]),
   reason_trace: z.array(z.string()).default([]),
   guardrail_log: z.array(z.string()).default([]),
@@ -26,6 +30,9 @@ export const SessionContextSchema = z.object({
   recommendation_log: z.array(z.any()).default([]),
   role_assessment_message: z.string().nullable().default(null),
   role_assessment_examples: z.array(z.string()).default([]),
+  /** Questionnaire loops stop after this many questions; set by the signal policy, cleared when a loop completes. */
+  question_limit: z.number().int().min(0).nullable().default(null),
+  early_readout_offered: z.boolean().default(false),
   archive: z.record(z.any()).nullable().default(null),
   suggested_options: z.record(z.string(), z.array(z.string())).optional(),
 });
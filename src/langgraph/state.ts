@@ -1,4 +1,6 @@
 import * as z from "zod";
+import type { SignalBehavior } from "./schema/graph-dsl-types.js";
+import type { SignalAgentConfig } from "./core/agents/signal-orchestrator.js";
 
 // Re-export for backward compatibility.
 export { PrimitiveLogSchema } from "./slices/primitive-log.js";
@@ -102,7 +104,10 @@ export type GraphMessagingConfig = {
     string,
     { targetField: string; sanitizeAs?: "name" | "role" | "industry" | "goal" | "timeframe"; captureObjective?: boolean }
   >;
-  signalAgents?: { enabled: boolean; ttlMs: number; llmEnabled?: boolean };
+  signalAgents?: SignalAgentConfig;
+  signalPolicy?: Record<string, SignalBehavior>;
+  /** Overlay picked by `overlayRules` for a state, or null when no rule matches. */
+  selectOverlay?: (state: CfsState) => OverlayName | null;
 };
 
 // Named primitives so we can log and track which routine ran.
@@ -147,12 +152,18 @@ import {
   InternetSearchContextSchema,
 } from "./slices/index.js";
 
+export const OverlayNameSchema = z.enum([
+  "SeniorSE_Curious",
+  "SeniorSE_Challenging",
+  "CTO_Consultative",
+  "Mentor_Supportive",
+  "Coach_Affirmative",
+] as const);
+
 // Full conversation state schema used by the graph.
 export const CfsStateSchema = z.object({
   messages: z.array(z.custom<any>()).default([]),
-  overlay_active: z
-    .enum(["SeniorSE_Curious", "SeniorSE_Challenging", "CTO_Consultative", "Mentor_Supportive", "Coach_Affirmative"] as const)
-    .default("SeniorSE_Curious"),
+  overlay_active: OverlayNameSchema.default("SeniorSE_Curious"),
   context_weave_index: ContextWeaveIndexSchema.default({ user_phrases: [], entities: [] }),
   user_context: UserContextSchema.default({}),
   use_case_context: UseCaseContextSchema.default({}),
@@ -1,12 +1,67 @@
 import * as z from "zod";
 import { CfsStateSchema } from "../state.js";
-import type { GraphDsl } from "../schema/graph-dsl-types.js";
+import type { GraphDsl, ReducerStrategy, StateField } from "../schema/graph-dsl-types.js";
+
+/** A `stateExtensions` entry with the bare-name shorthand expanded. */
+export type StateSliceDef = {
+  name: string;
+  reducer: ReducerStrategy;
+  key?: string;
+  fields: Record<string, StateField>;
+  default?: unknown;
+};
+
+/** `append` and `upsert` slices hold lists; the others hold objects (or anything, for untyped replace). */
+const isListSlice = (slice: StateSliceDef) => slice.reducer === "append" || slice.reducer === "upsert";
+
+export function stateExtensionsOf(dsl: GraphDsl): StateSliceDef[] {
+  return (dsl.graph.stateExtensions ?? []).map((ext) =>
+    typeof ext === "string" ? { name: ext, reducer: "replace", fields: {} } : ext
+  );
+}
+
+export function stateExtensionNames(dsl: GraphDsl): string[] {
+  return stateExtensionsOf(dsl).map((slice) => slice.name);
+}
+
+const FIELD_TYPES: Record<StateField["type"], () => z.ZodTypeAny> = {
+  string: () => z.string(),
+  number: () => z.number(),
+  boolean: () => z.boolean(),
+  array: () => z.array(z.any()),
+  object: () => z.record(z.any()),
+  any: () => z.any(),
+};
+
+function fieldSchema(field: StateField): z.ZodTypeAny {
+  const base = FIELD_TYPES[field.type]();
+  const schema = field.nullable ? base.nullable() : base;
+  return field.default !== undefined ? schema.default(field.default) : schema.optional();
+}
+
+function sliceSchema(slice: StateSliceDef): z.ZodTypeAny {
+  const typed = Object.keys(slice.fields).length > 0;
+  if (!typed && slice.reducer === "replace" && slice.default === undefined) return z.any();
+  const item = typed
+    ? z.object(Object.fromEntries(Object.entries(slice.fields).map(([k, f]) => [k, fieldSchema(f)]))).passthrough()
+    : z.any();
+  if (isListSlice(slice)) return z.array(item).default((slice.default as unknown[]) ?? []);
+  return (typed ? item : z.record(z.any())).default(slice.default ?? {});
+}
 
 /**
- * Resolves the state schema for a flow.
- * For stateContractRef "state.CfsStateSchema", returns the canonical CFS schema.
- * Future: support stateSlices to build schema from declared slices.
+ * Resolves the state schema for a flow: the canonical CFS schema plus the
+ * slices declared in `graph.stateExtensions`, with their field defaults.
  */
-export function resolveStateSchema(_dsl: GraphDsl): z.ZodTypeAny {
-  return CfsStateSchema;
+export function resolveStateSchema(dsl: GraphDsl): z.ZodTypeAny {
+  const slices = stateExtensionsOf(dsl);
+  if (slices.length === 0) return CfsStateSchema;
+  return CfsStateSchema.extend(Object.fromEntries(slices.map((slice) => [slice.name, sliceSchema(slice)])));
+}
+
+/** Initial channel value for a declared slice. */
+export function sliceDefault(slice: StateSliceDef): unknown {
+  if (slice.default !== undefined) return structuredClone(slice.default);
+  if (isListSlice(slice)) return [];
+  return Object.keys(slice.fields).length > 0 || slice.reducer !== "replace" ? {} : undefined;
 }
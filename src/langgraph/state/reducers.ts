@@ -0,0 +1,243 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { CfsStateSchema, type CfsState } from "../state.js";
+import type { GraphDsl, ReducerStrategy } from "../schema/graph-dsl-types.js";
+import { sliceDefault, stateExtensionsOf } from "./build-state-schema.js";
+
+export type ReducerSpec = { reducer: ReducerStrategy; key?: string };
+
+/**
+ * Built-in reducers for the CfsState slices, keyed by slice or dot path (`*`
+ * matches within one segment). Slices not listed are last-write-wins;
+ * `graph.reducers` overrides any entry.
+ */
+export const CFS_STATE_REDUCERS: Record<string, ReducerSpec> = {
+  session_context: { reducer: "merge" },
+  "session_context.*_log": { reducer: "append" },
+  "session_context.reason_trace": { reducer: "append" },
+  use_case_context: { reducer: "merge" },
+  "use_case_context.discovery_questions": { reducer: "upsert", key: "question" },
+  readout_context: { reducer: "deepMerge" },
+};
+
+const MERGING: ReducerStrategy[] = ["merge", "deepMerge"];
+
+/** The flow's reducer specs: built-ins, then `stateExtensions` slices, then `graph.reducers`. */
+export function resolveReducerSpecs(dsl: GraphDsl): Record<string, ReducerSpec> {
+  const declared = Object.entries(dsl.graph.reducers ?? {}).map(([path, spec]) => [
+    path,
+    typeof spec === "string" ? { reducer: spec } : spec,
+  ]);
+  return {
+    ...CFS_STATE_REDUCERS,
+    ...Object.fromEntries(stateExtensionsOf(dsl).map((slice) => [slice.name, { reducer: slice.reducer, key: slice.key }])),
+    ...Object.fromEntries(declared),
+  };
+}
+
+type ReducerTable = { exact: Map<string, ReducerSpec>; patterns: Array<[RegExp, ReducerSpec]> };
+
+function reducerTable(specs: Record<string, ReducerSpec>): ReducerTable {
+  const entries = Object.entries(specs);
+  const toRegExp = (path: string) =>
+    new RegExp(`^${path.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^.]*")}$`);
+  return {
+    exact: new Map(entries.filter(([path]) => !path.includes("*"))),
+    patterns: entries.filter(([path]) => path.includes("*")).map(([path, spec]) => [toRegExp(path), spec]),
+  };
+}
+
+function specAt(table: ReducerTable, path: string): ReducerSpec | undefined {
+  return table.exact.get(path) ?? table.patterns.find(([pattern]) => pattern.test(path))?.[1];
+}
+
+// ── Strategies ───────────────────────────────────────────────────────
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> => v != null && typeof v === "object" && !Array.isArray(v);
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const REPLACE = Symbol("replaceItems");
+
+/**
+ * Marks a list as the field's whole new value, for `append` and `upsert`
+ * fields that would otherwise only add or update items: regenerated
+ * discovery questions, a reset log.
+ */
+export function replaceItems<T>(items: T[]): T[] {
+  return Object.defineProperty([...items], REPLACE, { value: true });
+}
+
+const isReplacement = (value: unknown): value is unknown[] => Array.isArray(value) && REPLACE in value;
+
+const APPEND = Symbol("appendedItems");
+
+/** The items a node added to an `append` list, as cut by {@link deltaAt}. */
+const appended = (items: unknown[]): unknown[] => Object.defineProperty([...items], APPEND, { value: true });
+
+const isAppended = (value: unknown): value is unknown[] => Array.isArray(value) && APPEND in value;
+
+/**
+ * Appends the items a node added (see {@link deltaAt}) as they are. Lists
+ * written from outside a node only add the items after the prefix they share
+ * with the current list, so a re-submitted full state adds only what is new.
+ */
+function appendItems(left: unknown[] = [], right: unknown): unknown[] {
+  if (right == null) return left;
+  if (isAppended(right)) return [...left, ...right];
+  const items = Array.isArray(right) ? right : [right];
+  let shared = 0;
+  while (shared < Math.min(left.length, items.length) && sameValue(left[shared], items[shared])) shared++;
+  return [...left, ...items.slice(shared)];
+}
+
+/** Replaces items whose `key` matches, appends the rest; an empty list clears. */
+function upsertItems(key: string, left: unknown[] = [], right: unknown): unknown[] {
+  if (right == null) return left;
+  const items = Array.isArray(right) ? right : [right];
+  if (items.length === 0) return [];
+  const keyOf = (item: unknown) => (isPlainObject(item) ? item[key] : item);
+  const result = [...left];
+  for (const item of items) {
+    const at = result.findIndex((existing) => sameValue(keyOf(existing), keyOf(item)));
+    if (at === -1) result.push(item);
+    else result[at] = item;
+  }
+  return result;
+}
+
+function mergeObjects(table: ReducerTable, path: string, deep: boolean, left: unknown, right: unknown): unknown {
+  if (right == null) return left;
+  if (!isPlainObject(right)) return right;
+  const base = isPlainObject(left) ? left : {};
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(right)) {
+    const childPath = `${path}.${key}`;
+    const spec = specAt(table, childPath) ?? (deep && isPlainObject(value) ? { reducer: "deepMerge" as const } : undefined);
+    result[key] = spec ? reduceAt(table, childPath, spec, base[key], value) : value;
+  }
+  return result;
+}
+
+function reduceAt(table: ReducerTable, path: string, spec: ReducerSpec, left: any, right: any): any {
+  if ((spec.reducer === "append" || spec.reducer === "upsert") && isReplacement(right)) return [...right];
+  switch (spec.reducer) {
+    case "append":
+      return appendItems(left, right);
+    case "upsert":
+      return upsertItems(spec.key ?? "", left, right);
+    case "merge":
+    case "deepMerge":
+      return mergeObjects(table, path, spec.reducer === "deepMerge", left, right);
+    default:
+      return right ?? left;
+  }
+}
+
+// ── Channels ─────────────────────────────────────────────────────────
+
+type StateChannel = { reducer: (left: any, right: any) => any; default: () => any };
+
+const BASE_DEFAULTS: Record<string, () => unknown> = {
+  ...Object.fromEntries(Object.keys(CfsStateSchema.shape).map((slice) => [slice, () => ({})])),
+  messages: () => [],
+  overlay_active: () => undefined,
+};
+
+/** LangGraph channels for every CfsState slice and declared state extension. */
+export function stateChannels(dsl: GraphDsl): Record<string, StateChannel> {
+  const table = reducerTable(resolveReducerSpecs(dsl));
+  const defaults: Record<string, () => unknown> = {
+    ...BASE_DEFAULTS,
+    ...Object.fromEntries(stateExtensionsOf(dsl).map((slice) => [slice.name, () => sliceDefault(slice)])),
+  };
+  return Object.fromEntries(
+    Object.entries(defaults).map(([slice, fallback]) => [
+      slice,
+      {
+        reducer: (left: any, right: any) => reduceAt(table, slice, specAt(table, slice) ?? { reducer: "replace" }, left, right),
+        default: fallback,
+      },
+    ])
+  );
+}
+
+// ── Node updates ─────────────────────────────────────────────────────
+
+const UNCHANGED = Symbol("unchanged");
+
+function deltaAt(table: ReducerTable, path: string, spec: ReducerSpec, before: unknown, after: unknown): unknown {
+  if (isReplacement(after)) return sameValue(before, after) ? UNCHANGED : after;
+  if (spec.reducer === "append" && Array.isArray(after) && (before == null || Array.isArray(before))) {
+    const prev = before ?? [];
+    const extendsInput = after.length >= prev.length && prev.every((item, i) => sameValue(item, after[i]));
+    if (!extendsInput) return appended(after);
+    return after.length > prev.length ? appended(after.slice(prev.length)) : UNCHANGED;
+  }
+  if (spec.reducer === "upsert" && Array.isArray(before) && Array.isArray(after) && after.length > 0) {
+    const changed = after.filter((item) => !before.some((prev) => sameValue(prev, item)));
+    return changed.length > 0 ? changed : UNCHANGED;
+  }
+  if (MERGING.includes(spec.reducer) && isPlainObject(before) && isPlainObject(after)) {
+    const entries = Object.entries(after).flatMap(([key, value]) => {
+      const childPath = `${path}.${key}`;
+      const child = specAt(table, childPath) ?? (spec.reducer === "deepMerge" ? spec : undefined);
+      const delta = child ? deltaAt(table, childPath, child, before[key], value) : sameValue(before[key], value) ? UNCHANGED : value;
+      return delta === UNCHANGED ? [] : [[key, delta]];
+    });
+    return entries.length > 0 ? Object.fromEntries(entries) : UNCHANGED;
+  }
+  return sameValue(before, after) ? UNCHANGED : after;
+}
+
+/**
+ * Reduces an update to what changed against the node's input for merged,
+ * appended and upserted slices. Handlers that spread the whole slice or list
+ * then only contribute the fields and items they added, so concurrent branches
+ * do not overwrite each other.
+ */
+function stateDelta(table: ReducerTable, state: CfsState, update: Partial<CfsState>): Partial<CfsState> {
+  const result: Record<string, unknown> = {};
+  for (const [slice, value] of Object.entries(update)) {
+    const spec = specAt(table, slice);
+    const tracked = spec && (spec.reducer === "append" || spec.reducer === "upsert" || MERGING.includes(spec.reducer));
+    const delta = tracked ? deltaAt(table, slice, spec, (state as Record<string, unknown>)[slice], value) : value;
+    if (delta !== UNCHANGED) result[slice] = delta;
+  }
+  return result as Partial<CfsState>;
+}
+
+type Handler = (state: CfsState, config?: RunnableConfig) => Partial<CfsState> | Promise<Partial<CfsState>>;
+
+/** Wraps a node handler so its update goes through {@link stateDelta}. */
+export function withStateDelta(dsl: GraphDsl): (handler: Handler) => Handler {
+  const table = reducerTable(resolveReducerSpecs(dsl));
+  return (handler) => async (state, config) => {
+    const update = await handler(state, config);
+    return isPlainObject(update) ? stateDelta(table, state, update) : update;
+  };
+}
+
+// ── Validation ───────────────────────────────────────────────────────
+
+/**
+ * Declared reducers must target state fields, `upsert` needs a `key`, and a
+ * field reducer only applies when its slice merges.
+ */
+export function reducerIssues(dsl: GraphDsl, allowedFields: Set<string>): Array<{ code: string; message: string }> {
+  const specs = resolveReducerSpecs(dsl);
+  const declared = [...Object.keys(dsl.graph.reducers ?? {}), ...stateExtensionsOf(dsl).map((slice) => slice.name)];
+  const issues: Array<{ code: string; message: string }> = [];
+  const fail = (message: string) => issues.push({ code: "invalid-reducer", message });
+
+  for (const path of new Set(declared)) {
+    const spec = specs[path];
+    const slice = path.split(".")[0];
+    if (!allowedFields.has(slice)) fail(`Reducer for "${path}" does not target a state field.`);
+    if (spec.reducer === "upsert" && !spec.key) fail(`Reducer for "${path}" uses upsert without a key.`);
+    const sliceReducer = specs[slice]?.reducer ?? "replace";
+    if (path !== slice && !MERGING.includes(sliceReducer)) {
+      fail(`Reducer for "${path}" is ignored: slice "${slice}" uses ${sliceReducer}, not merge or deepMerge.`);
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,90 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { CfsState } from "./state.js";
+import type { CompiledGraph } from "./schema/graph-compiler.js";
+
+/** Progress events emitted while a turn runs (see runTurn's `onEvent`). */
+export type TurnStreamEvent =
+  | { type: "node_start"; node: string; step: number }
+  | { type: "node_end"; node: string; step: number }
+  | { type: "token"; node: string; runName: string | null; runId: string; delta: string }
+  | { type: "state"; state: CfsState };
+
+export type TurnEventListener = (event: TurnStreamEvent) => void;
+
+/**
+ * Forwards chat-model token deltas with the graph node that produced them.
+ * `lc_prefer_streaming` makes chat models stream even when nodes call `invoke()`.
+ * Only runs inside a node are streamed; runs tagged "nostream" (LangGraph
+ * convention, see INTERNAL_RUN_TAGS) are skipped.
+ */
+class TokenStreamHandler extends BaseCallbackHandler {
+  name = "TurnTokenStreamHandler";
+  lc_prefer_streaming = true;
+  private readonly runs = new Map<string, { node: string; runName: string | null }>();
+
+  constructor(private readonly emit: TurnEventListener) {
+    super();
+  }
+
+  handleChatModelStart(
+    _llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    runName?: string
+  ): void {
+    const node = typeof metadata?.langgraph_node === "string" ? metadata.langgraph_node : null;
+    if (!node || tags?.includes("nostream")) return;
+    this.runs.set(runId, { node, runName: runName ?? null });
+  }
+
+  handleLLMNewToken(token: string, _idx: unknown, runId: string): void {
+    const run = this.runs.get(runId);
+    if (!run || !token) return;
+    this.emit({ type: "token", node: run.node, runName: run.runName, runId, delta: token });
+  }
+
+  handleLLMEnd(_output: unknown, runId: string): void {
+    this.runs.delete(runId);
+  }
+
+  handleLLMError(_err: unknown, runId: string): void {
+    this.runs.delete(runId);
+  }
+}
+
+/**
+ * Run the compiled graph, emitting node and token events as they happen.
+ * Resolves with the final graph state, exactly as `compiled.invoke()` would.
+ */
+export async function streamGraphTurn(
+  graphApp: CompiledGraph,
+  input: CfsState,
+  config: RunnableConfig | undefined,
+  emit: TurnEventListener
+): Promise<CfsState> {
+  const stream = await graphApp.compiled.stream(input, {
+    ...config,
+    streamMode: ["debug", "values"],
+    callbacks: [new TokenStreamHandler(emit)],
+  });
+
+  let finalState: CfsState = input;
+  for await (const [mode, chunk] of stream as AsyncIterable<[string, any]>) {
+    if (mode === "values") {
+      finalState = chunk as CfsState;
+      emit({ type: "state", state: finalState });
+    } else if (chunk?.type === "task") {
+      emit({ type: "node_start", node: chunk.payload.name, step: chunk.step });
+    } else if (chunk?.type === "task_result") {
+      emit({ type: "node_end", node: chunk.payload.name, step: chunk.step });
+    }
+  }
+  return finalState;
+}
@@ -1,103 +1,42 @@
 import "dotenv/config";
 import express, { Request, Response } from "express";
 import cors from "cors";
-import path from "path";
-import { AIMessage } from "@langchain/core/messages";
-import {
-  buildGraphFromSchema,
-  createInitialState,
-  runTurn,
-  type CfsState,
-} from "./langgraph/graph.js";
-import { computeFlowProgress } from "./langgraph/infra.js";
-import { getOptionsForQuestionKey } from "./langgraph/core/options/resolve-options.js";
-import { resolveAppConfig, getTemplatePath } from "./config/appConfig.js";
+import { createCheckpointer } from "./langgraph/graph.js";
+import { resolveHostedAppConfigs } from "./config/appConfig.js";
+import { createSessionStoreFromEnv } from "./sessions/index.js";
+import { buildHostedApps, deleteExpiredThreads } from "./hosting/hosted-apps.js";
+import { createHostingRouter } from "./hosting/app-router.js";
+import { createFlowReloadRouter, isFlowHotReloadEnabled, watchHostedFlows } from "./hosting/flow-reloader.js";
 
-const appConfig = resolveAppConfig();
-const graphApp = buildGraphFromSchema(appConfig.flowPath);
-const templatePath = getTemplatePath(appConfig.template);
+const hostedApps = buildHostedApps(resolveHostedAppConfigs(), { createCheckpointer });
+const sessionStore = createSessionStoreFromEnv(process.env, { onExpire: deleteExpiredThreads(hostedApps) });
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 app.use(cors());
 app.use(express.json());
-app.use(express.static(templatePath));
-
-const sessionStore = new Map<string, CfsState>();
-
-const toText = (content: unknown) => {
-  if (typeof content === "string") return content;
-  if (Array.isArray(content)) {
-    return content
-      .map((part) => (typeof part === "string" ? part : typeof part === "object" && part !== null && "text" in part ? (part as { text?: string }).text ?? "" : ""))
-      .join("\n");
-  }
-  if (content && typeof content === "object" && "toString" in content) return (content as any).toString();
-  return content ? String(content) : "";
-};
-
-app.get("/", (_req: Request, res: Response) => {
-  res.sendFile(path.join(templatePath, "index.html"));
-});
-
-interface ChatRequestBody {
-  message?: string;
-  sessionId?: string;
-}
-
-app.post("/chat", async (req: Request<unknown, unknown, ChatRequestBody>, res: Response) => {
-  const { message, sessionId } = req.body || {};
-  if (!message) {
-    return res.status(400).json({ response: "Please provide a message." });
-  }
-  try {
-    const sessionKey = sessionId || "default-thread";
-    const existingState = sessionStore.get(sessionKey) ?? createInitialState({ sessionId: sessionKey });
-    const prevLen = existingState.messages.length;
-
-    const userInput = message === "start" && prevLen === 0 ? undefined : message;
-    const nextState = await runTurn(graphApp, existingState, userInput);
-    sessionStore.set(sessionKey, nextState);
-
-    const newMessages = nextState.messages.slice(prevLen).filter((m) => m instanceof AIMessage);
-    const content =
-      newMessages
-        .map((m) => toText(m.content))
-        .filter(Boolean)
-        .join("\n\n") || "Sorry, I could not process the response.";
-
-    const flowProgress = computeFlowProgress(nextState);
-    const options = await getOptionsForQuestionKey(nextState.session_context.last_question_key, nextState);
-
-    return res.json({ response: content, flowProgress, options });
-  } catch (error: any) {
-    console.error("Chat error:", error);
-    return res.status(500).json({
-      response: "Error processing request",
-      error: error?.message,
-    });
-  }
-});
 
 app.get("/test", (_req: Request, res: Response) => {
   res.json({ status: "Server is running" });
 });
 
-app.get("/readout/:sessionId.md", (req: Request, res: Response) => {
-  const { sessionId } = req.params;
-  const state = sessionStore.get(sessionId);
-  if (!state?.readout_context?.rendered_outputs?.markdown) {
-    return res.status(404).send("Readout not found.");
-  }
-  res.setHeader("Content-Type", "text/markdown");
-  res.setHeader("Content-Disposition", `attachment; filename="readout-${sessionId}.md"`);
-  res.send(state.readout_context.rendered_outputs.markdown);
-});
+if (isFlowHotReloadEnabled()) {
+  // Dev only: recompile flows on YAML edits; GET /dev/flows reports compile errors.
+  app.use("/dev/flows", createFlowReloadRouter(watchHostedFlows(hostedApps)));
+}
+
+app.use(createHostingRouter(hostedApps, sessionStore));
 
 app.listen(PORT, () => {
   // eslint-disable-next-line no-console
   console.log("=== Server Started ===");
   console.log(`Server running at http://localhost:${PORT}`);
   console.log(`Test server status at http://localhost:${PORT}/test`);
+  for (const h of hostedApps) {
+    console.log(`App ${h.tenantId}/${h.appId} at http://localhost:${PORT}/apps/${h.tenantId}/${h.appId}/`);
+  }
+  if (isFlowHotReloadEnabled()) {
+    console.log(`Flow hot reload on; status at http://localhost:${PORT}/dev/flows`);
+  }
 });
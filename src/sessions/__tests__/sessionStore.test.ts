@@ -0,0 +1,112 @@
+import { mkdtempSync, rmSync, readdirSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { createInitialState } from "../../langgraph/core/helpers/state.js";
+import type { CfsState } from "../../langgraph/state.js";
+
+function sampleState(sessionId: string): CfsState {
+  const state = createInitialState({ sessionId });
+  return {
+    ...state,
+    messages: [
+      new AIMessage({ content: "What is your role?", additional_kwargs: { message_type: "question" } }),
+      new HumanMessage("I run marketing"),
+    ],
+    user_context: { ...state.user_context, first_name: "Ada" },
+  };
+}
+
+describe("session stores", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "cfs-sessions-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("FileSessionStore round-trips messages as LangChain instances across store instances", async () => {
+    const { FileSessionStore } = await import("../index.js");
+    const { AIMessage, HumanMessage } = await import("@langchain/core/messages");
+    const writer = new FileSessionStore(dir);
+    await writer.set("s1", sampleState("s1"));
+    writer.close();
+
+    const reader = new FileSessionStore(dir);
+    const record = await reader.get("s1");
+    reader.close();
+
+    expect(record).not.toBeNull();
+    const [ai, human] = record!.state.messages;
+    expect(ai).toBeInstanceOf(AIMessage);
+    expect(ai.additional_kwargs.message_type).toBe("question");
+    expect(human).toBeInstanceOf(HumanMessage);
+    expect(human.content).toBe("I run marketing");
+    expect(record!.state.user_context.first_name).toBe("Ada");
+    expect(record!.state.session_context.session_id).toBe("s1");
+  });
+
+  it("preserves createdAt and advances updatedAt on overwrite", async () => {
+    const { FileSessionStore, InMemorySessionStore } = await import("../index.js");
+    for (const store of [new InMemorySessionStore(), new FileSessionStore(dir)]) {
+      const first = await store.set("s1", sampleState("s1"));
+      await new Promise((r) => setTimeout(r, 5));
+      const second = await store.set("s1", sampleState("s1"));
+      expect(second.createdAt).toBe(first.createdAt);
+      expect(second.updatedAt).toBeGreaterThan(first.updatedAt);
+      store.close();
+    }
+  });
+
+  it("purgeExpired removes sessions idle longer than the TTL", async () => {
+    const { FileSessionStore, InMemorySessionStore } = await import("../index.js");
+    for (const store of [new InMemorySessionStore({ ttlMs: 1000 }), new FileSessionStore(dir, { ttlMs: 1000 })]) {
+      const record = await store.set("old", sampleState("old"));
+      expect(await store.purgeExpired(record.updatedAt + 500)).toBe(0);
+      expect(await store.purgeExpired(record.updatedAt + 1500)).toBe(1);
+      expect(await store.get("old")).toBeNull();
+      store.close();
+    }
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("calls onExpire for sessions removed by the sweep or on read", async () => {
+    const { FileSessionStore, InMemorySessionStore } = await import("../index.js");
+    const expired: string[] = [];
+    const options = { ttlMs: 1000, onExpire: (id: string) => void expired.push(id) };
+    for (const store of [new InMemorySessionStore(options), new FileSessionStore(dir, options)]) {
+      const record = await store.set("t/app/old", sampleState("old"));
+      await store.purgeExpired(record.updatedAt + 1500);
+      store.close();
+    }
+    expect(expired).toEqual(["t/app/old", "t/app/old"]);
+  });
+
+  it("lists unexpired sessions, scoped to a namespace", async () => {
+    const { FileSessionStore, InMemorySessionStore, scopeSessionStore } = await import("../index.js");
+    for (const store of [new InMemorySessionStore(), new FileSessionStore(dir)]) {
+      const scoped = scopeSessionStore(store, "t/app");
+      await scoped.set("s1", sampleState("s1"));
+      await store.set("other/app/s2", sampleState("s2"));
+      expect((await store.list()).map((r) => r.sessionId).sort()).toEqual(["other/app/s2", "t/app/s1"]);
+      const [record] = await scoped.list();
+      expect(record.sessionId).toBe("s1");
+      expect(record.state.session_context.session_id).toBe("s1");
+      store.close();
+    }
+  });
+
+  it("createSessionStoreFromEnv selects the store from SESSION_STORE", async () => {
+    const { createSessionStoreFromEnv, FileSessionStore, InMemorySessionStore } = await import("../index.js");
+    const memory = createSessionStoreFromEnv({});
+    const file = createSessionStoreFromEnv({ SESSION_STORE: "file", SESSION_STORE_DIR: dir });
+    expect(memory).toBeInstanceOf(InMemorySessionStore);
+    expect(file).toBeInstanceOf(FileSessionStore);
+    memory.close();
+    file.close();
+    expect(() => createSessionStoreFromEnv({ SESSION_STORE: "redis" })).toThrow(/Unknown SESSION_STORE/);
+  });
+});
@@ -0,0 +1,122 @@
+import { mkdirSync } from "node:fs";
+import { readFile, writeFile, rename, unlink, readdir } from "node:fs/promises";
+import path from "node:path";
+import type { CfsState } from "../langgraph/state.js";
+import { serializeSessionState, deserializeSessionState, type SerializedCfsState } from "./session-serialization.js";
+import {
+  isExpired,
+  notifyExpired,
+  startExpirySweep,
+  type SessionRecord,
+  type SessionStore,
+  type SessionStoreOptions,
+} from "./session-store.js";
+
+type SessionFile = {
+  sessionId: string;
+  createdAt: number;
+  updatedAt: number;
+  state: SerializedCfsState;
+};
+
+const FILE_SUFFIX = ".session.json";
+
+/**
+ * File-system backed store: one JSON document per session under `dir`.
+ * Writes go to a temp file and are renamed into place so a crash mid-write
+ * never leaves a truncated session behind. Point several replicas at the same
+ * shared volume to let any of them resume a conversation.
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly stopSweep: () => void;
+
+  constructor(private readonly dir: string, private readonly options: SessionStoreOptions = {}) {
+    mkdirSync(dir, { recursive: true });
+    this.stopSweep = startExpirySweep(this, options);
+  }
+
+  private fileFor(sessionId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(sessionId)}${FILE_SUFFIX}`);
+  }
+
+  private async readFileRecord(file: string): Promise<SessionFile | null> {
+    try {
+      return JSON.parse(await readFile(file, "utf-8")) as SessionFile;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | null> {
+    const file = this.fileFor(sessionId);
+    const raw = await this.readFileRecord(file);
+    if (!raw) return null;
+    if (isExpired(raw, this.options.ttlMs, Date.now())) {
+      if (await this.delete(sessionId)) await notifyExpired(this.options, sessionId);
+      return null;
+    }
+    return {
+      sessionId: raw.sessionId,
+      createdAt: raw.createdAt,
+      updatedAt: raw.updatedAt,
+      state: deserializeSessionState(raw.state),
+    };
+  }
+
+  async set(sessionId: string, state: CfsState): Promise<SessionRecord> {
+    const file = this.fileFor(sessionId);
+    const existing = await this.readFileRecord(file);
+    const now = Date.now();
+    const doc: SessionFile = {
+      sessionId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      state: serializeSessionState(state),
+    };
+    const tmp = `${file}.${process.pid}.${now}.tmp`;
+    await writeFile(tmp, JSON.stringify(doc), "utf-8");
+    await rename(tmp, file);
+    return { sessionId, state, createdAt: doc.createdAt, updatedAt: doc.updatedAt };
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    try {
+      await unlink(this.fileFor(sessionId));
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw err;
+    }
+  }
+
+  async list(): Promise<SessionRecord[]> {
+    const now = Date.now();
+    const records: SessionRecord[] = [];
+    for (const name of await readdir(this.dir)) {
+      if (!name.endsWith(FILE_SUFFIX)) continue;
+      const raw = await this.readFileRecord(path.join(this.dir, name)).catch(() => null);
+      if (!raw || isExpired(raw, this.options.ttlMs, now)) continue;
+      records.push({ ...raw, state: deserializeSessionState(raw.state) });
+    }
+    return records;
+  }
+
+  async purgeExpired(now = Date.now()): Promise<number> {
+    if (!this.options.ttlMs || this.options.ttlMs <= 0) return 0;
+    let removed = 0;
+    for (const name of await readdir(this.dir)) {
+      if (!name.endsWith(FILE_SUFFIX)) continue;
+      const raw = await this.readFileRecord(path.join(this.dir, name)).catch(() => null);
+      if (raw && isExpired(raw, this.options.ttlMs, now) && (await this.delete(raw.sessionId))) {
+        await notifyExpired(this.options, raw.sessionId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  close(): void {
+    this.stopSweep();
+  }
+}
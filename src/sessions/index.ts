@@ -0,0 +1,39 @@
+import path from "node:path";
+import { InMemorySessionStore, type SessionStore, type SessionStoreOptions } from "./session-store.js";
+import { FileSessionStore } from "./file-session-store.js";
+
+export {
+  InMemorySessionStore,
+  scopeSessionStore,
+  startExpirySweep,
+  type SessionRecord,
+  type SessionStore,
+  type SessionStoreOptions,
+} from "./session-store.js";
+export { FileSessionStore } from "./file-session-store.js";
+export { serializeSessionState, deserializeSessionState, type SerializedCfsState } from "./session-serialization.js";
+
+const DEFAULT_SESSION_DIR = ".sessions";
+
+/**
+ * Build the session store configured by environment variables.
+ * - SESSION_STORE: "memory" (default) or "file"
+ * - SESSION_STORE_DIR: directory for the file store (default ".sessions")
+ * - SESSION_TTL_MS: idle expiry in milliseconds (default 0 = never)
+ * `extra` carries options that cannot come from the environment, such as `onExpire`.
+ */
+export function createSessionStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  extra: Pick<SessionStoreOptions, "onExpire"> = {}
+): SessionStore {
+  const ttl = Number(env.SESSION_TTL_MS ?? 0);
+  const options: SessionStoreOptions = { ...extra, ttlMs: Number.isFinite(ttl) && ttl > 0 ? ttl : undefined };
+  const kind = (env.SESSION_STORE ?? "memory").toLowerCase();
+  if (kind === "file") {
+    return new FileSessionStore(path.resolve(env.SESSION_STORE_DIR ?? DEFAULT_SESSION_DIR), options);
+  }
+  if (kind !== "memory") {
+    throw new Error(`Unknown SESSION_STORE "${env.SESSION_STORE}". Supported: memory, file`);
+  }
+  return new InMemorySessionStore(options);
+}
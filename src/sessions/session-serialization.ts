@@ -0,0 +1,31 @@
+import {
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+  type BaseMessage,
+  type StoredMessage,
+} from "@langchain/core/messages";
+import { CfsStateSchema, type CfsState } from "../langgraph/state.js";
+
+/**
+ * JSON-safe representation of CfsState. LangChain message instances are
+ * converted to StoredMessage records so they survive a JSON round-trip.
+ */
+export type SerializedCfsState = Omit<CfsState, "messages"> & { messages: StoredMessage[] };
+
+export function serializeSessionState(state: CfsState): SerializedCfsState {
+  return {
+    ...state,
+    messages: mapChatMessagesToStoredMessages((state.messages ?? []) as BaseMessage[]),
+  };
+}
+
+/**
+ * Restore a serialized state into a CfsState with real HumanMessage/AIMessage
+ * instances so `instanceof` checks in runTurn and the handlers keep working.
+ * Slices from a flow's stateExtensions are kept as stored; runTurn validates
+ * them against that flow's schema.
+ */
+export function deserializeSessionState(raw: SerializedCfsState): CfsState {
+  const messages = Array.isArray(raw.messages) ? mapStoredMessagesToChatMessages(raw.messages) : [];
+  return CfsStateSchema.passthrough().parse({ ...raw, messages });
+}
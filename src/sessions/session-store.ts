@@ -0,0 +1,140 @@
+import type { CfsState } from "../langgraph/state.js";
+
+export type SessionRecord = {
+  sessionId: string;
+  state: CfsState;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Persistence contract for conversation sessions served by `/chat`.
+ * Implementations must return states whose `messages` are real LangChain
+ * message instances (see session-serialization.ts).
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<SessionRecord | null>;
+  set(sessionId: string, state: CfsState): Promise<SessionRecord>;
+  delete(sessionId: string): Promise<boolean>;
+  /** Every unexpired session, for reports that span sessions. */
+  list(): Promise<SessionRecord[]>;
+  /** Remove every session whose `updatedAt` is older than the TTL. Returns the number removed. */
+  purgeExpired(now?: number): Promise<number>;
+  /** Stop background expiry. */
+  close(): void;
+}
+
+export type SessionStoreOptions = {
+  /** Idle time after which a session expires. 0 or undefined disables expiry. */
+  ttlMs?: number;
+  /** How often the background sweep runs. Defaults to min(ttlMs, 60s). */
+  sweepIntervalMs?: number;
+  /** Called with the key of every session the store expires, e.g. to drop its checkpoint thread. */
+  onExpire?: (sessionId: string) => void | Promise<void>;
+};
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+
+export function isExpired(record: Pick<SessionRecord, "updatedAt">, ttlMs: number | undefined, now: number): boolean {
+  return !!ttlMs && ttlMs > 0 && now - record.updatedAt > ttlMs;
+}
+
+/** Run the `onExpire` hook for an expired session; failures are logged, never thrown. */
+export async function notifyExpired(options: SessionStoreOptions, sessionId: string): Promise<void> {
+  try {
+    await options.onExpire?.(sessionId);
+  } catch (err) {
+    console.warn(`[session-store] onExpire failed for "${sessionId}":`, err);
+  }
+}
+
+/**
+ * Start a background sweep that calls `purgeExpired` on an interval.
+ * The timer is unref'd so it never keeps the process alive. Returns a stop function.
+ */
+export function startExpirySweep(store: Pick<SessionStore, "purgeExpired">, options: SessionStoreOptions): () => void {
+  if (!options.ttlMs || options.ttlMs <= 0) return () => {};
+  const interval = options.sweepIntervalMs ?? Math.min(options.ttlMs, DEFAULT_SWEEP_INTERVAL_MS);
+  const timer = setInterval(() => {
+    store.purgeExpired().catch((err) => console.warn("[session-store] expiry sweep failed:", err));
+  }, interval);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Process-local store. Sessions are lost on restart; use FileSessionStore
+ * when conversations must survive restarts or be shared between replicas.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private readonly records = new Map<string, SessionRecord>();
+  private readonly stopSweep: () => void;
+
+  constructor(private readonly options: SessionStoreOptions = {}) {
+    this.stopSweep = startExpirySweep(this, options);
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | null> {
+    const record = this.records.get(sessionId) ?? null;
+    if (record && isExpired(record, this.options.ttlMs, Date.now())) {
+      this.records.delete(sessionId);
+      await notifyExpired(this.options, sessionId);
+      return null;
+    }
+    return record;
+  }
+
+  async set(sessionId: string, state: CfsState): Promise<SessionRecord> {
+    const now = Date.now();
+    const existing = this.records.get(sessionId);
+    const record: SessionRecord = { sessionId, state, createdAt: existing?.createdAt ?? now, updatedAt: now };
+    this.records.set(sessionId, record);
+    return record;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.records.delete(sessionId);
+  }
+
+  async list(): Promise<SessionRecord[]> {
+    const now = Date.now();
+    return [...this.records.values()].filter((record) => !isExpired(record, this.options.ttlMs, now));
+  }
+
+  async purgeExpired(now = Date.now()): Promise<number> {
+    let removed = 0;
+    for (const [id, record] of this.records) {
+      if (isExpired(record, this.options.ttlMs, now)) {
+        this.records.delete(id);
+        await notifyExpired(this.options, id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  close(): void {
+    this.stopSweep();
+  }
+}
+
+/**
+ * View of `store` whose keys are prefixed with `namespace`, so apps sharing one
+ * backend never see each other's sessions. Expiry and close stay with the owner.
+ */
+export function scopeSessionStore(store: SessionStore, namespace: string): SessionStore {
+  const key = (sessionId: string) => `${namespace}/${sessionId}`;
+  const unscope = (record: SessionRecord | null, sessionId: string) => (record ? { ...record, sessionId } : null);
+  const prefix = key("");
+  return {
+    get: async (sessionId) => unscope(await store.get(key(sessionId)), sessionId),
+    set: async (sessionId, state) => ({ ...(await store.set(key(sessionId), state)), sessionId }),
+    delete: (sessionId) => store.delete(key(sessionId)),
+    list: async () =>
+      (await store.list())
+        .filter((record) => record.sessionId.startsWith(prefix))
+        .map((record) => ({ ...record, sessionId: record.sessionId.slice(prefix.length) })),
+    purgeExpired: (now) => store.purgeExpired(now),
+    close: () => {},
+  };
+}
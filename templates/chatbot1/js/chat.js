@@ -118,19 +118,7 @@ class ChatBot {
     this.setPending(true);
     this.showTypingIndicator();
     try {
-      const response = await fetch("/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message, sessionId: this.sessionId }),
-      });
-      const data = await response.json();
-      if (data && data.response) {
-        this.displayResponse(data.response);
-      } else {
-        this.addMessage("Sorry, invalid response from server.", "ai");
-      }
-      if (data.flowProgress) this.renderProgress(data.flowProgress);
-      this.renderOptions(data.options);
+      await this.streamTurn(message);
     } catch {
       this.addMessage("Sorry, there was an error processing your request.", "ai");
     } finally {
@@ -140,6 +128,90 @@ class ChatBot {
     }
   }
 
+  // ── Streaming ─────────────────────────────────────────────
+  /**
+   * POST to /chat/stream and render server-sent events as they arrive:
+   * token deltas fill the typing bubble, progress updates the step pane,
+   * and `done` swaps the preview for the final response and options.
+   */
+  async streamTurn(message) {
+    const response = await fetch("chat/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message, sessionId: this.sessionId }),
+    });
+    if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let finished = false;
+    while (!finished) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary;
+      while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        finished = this.handleStreamFrame(frame) || finished;
+      }
+    }
+    if (!finished) throw new Error("Stream ended before completion");
+  }
+
+  /** Returns true once the turn is complete (`done` or `error`). */
+  handleStreamFrame(frame) {
+    let event = "message";
+    let data = "";
+    for (const line of frame.split("\n")) {
+      if (line.startsWith("event: ")) event = line.slice(7);
+      else if (line.startsWith("data: ")) data += line.slice(6);
+    }
+    const payload = data ? JSON.parse(data) : {};
+
+    switch (event) {
+      case "node_start":
+        this.setTypingStatus("Working");
+        return false;
+      case "token":
+        this.appendTypingPreview(payload.delta);
+        return false;
+      case "progress":
+        this.renderProgress(payload.flowProgress);
+        return false;
+      case "done":
+        this.hideTypingIndicator();
+        this.displayResponse(payload.response || "Sorry, invalid response from server.");
+        if (payload.flowProgress) this.renderProgress(payload.flowProgress);
+        this.renderOptions(payload.options);
+        return true;
+      case "error":
+        this.hideTypingIndicator();
+        this.addMessage(payload.response || "Sorry, there was an error processing your request.", "ai");
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  setTypingStatus(label) {
+    const el = this.typingIndicator?.querySelector(".typing-label");
+    if (el) el.textContent = label;
+  }
+
+  appendTypingPreview(delta) {
+    if (!this.typingIndicator || !delta) return;
+    let preview = this.typingIndicator.querySelector(".typing-preview");
+    if (!preview) {
+      preview = document.createElement("div");
+      preview.className = "typing-preview";
+      this.typingIndicator.querySelector(".msg-bubble").appendChild(preview);
+    }
+    preview.textContent += delta;
+    this.scrollToBottom();
+  }
+
   addMessage(text, sender) {
     const row = document.createElement("div");
     row.classList.add("msg-row", `msg-row--${sender}`);
@@ -270,17 +342,7 @@ class ChatBot {
     this.setPending(true);
     this.showTypingIndicator();
     try {
-      const response = await fetch("/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: "start", sessionId: this.sessionId }),
-      });
-      const data = await response.json();
-      if (data && data.response) {
-        this.displayResponse(data.response);
-      }
-      if (data.flowProgress) this.renderProgress(data.flowProgress);
-      this.renderOptions(data.options);
+      await this.streamTurn("start");
     } catch {
       this.addMessage("Unable to start conversation.", "ai");
     } finally {
@@ -118,7 +118,7 @@ class ChatBot {
     this.setPending(true);
     this.showTypingIndicator();
     try {
-      const response = await fetch("/chat", {
+      const response = await fetch("chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ message, sessionId: this.sessionId }),
@@ -270,7 +270,7 @@ class ChatBot {
     this.setPending(true);
     this.showTypingIndicator();
     try {
-      const response = await fetch("/chat", {
+      const response = await fetch("chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ message: "start", sessionId: this.sessionId }),